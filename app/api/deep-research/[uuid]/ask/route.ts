@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import { inngest } from "@/inngest/client";
+import { subscribe } from "@inngest/realtime";
+import {
+  getRun,
+  listReportAnswers,
+} from "@/inngest/functions/deep-research/runs";
+import { validateReportQuestion } from "@/inngest/functions/deep-research/report-chat";
+
+// Answers that need a search can take a while
+export const maxDuration = 300;
+
+/**
+ * List the follow-up questions asked about a run's report and their answers
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const run = await getRun(params.uuid);
+
+  if (!run) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const answers = await listReportAnswers(params.uuid);
+
+  return new Response(JSON.stringify({ answers }), {
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+/**
+ * Ask a follow-up question about a finished report. The body is
+ * `{question}`. Streams the run's "answers" topic; events for this question
+ * carry the id returned in the `X-Question-Id` header, and the last one has
+ * `eventType` "complete" or "error".
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const run = await getRun(params.uuid);
+
+  if (!run) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  if (!run.finalReport) {
+    return new Response(
+      JSON.stringify({ error: "Research run has no final report yet" }),
+      {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  const body = (await req.json().catch(() => ({}))) as { question?: unknown };
+  const invalid = validateReportQuestion(body.question);
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 400,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  // Subscribe before asking so the answer can't be missed
+  const questionId = crypto.randomUUID();
+  const stream = await subscribe({
+    app: inngest,
+    channel: `deep-research.${params.uuid}`,
+    topics: ["answers"],
+  });
+
+  try {
+    await inngest.send({
+      name: "deep-research/ask",
+      data: {
+        uuid: params.uuid,
+        questionId,
+        question: (body.question as string).trim(),
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to ask about deep research run ${params.uuid}:`,
+      error
+    );
+    await stream.cancel();
+    return new Response(JSON.stringify({ error: "Failed to ask question" }), {
+      status: 500,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  return new Response(stream.getEncodedStream(), {
+    headers: {
+      "X-Question-Id": questionId,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { getRun } from "@/inngest/functions/deep-research/runs";
+import {
+  EXPORT_FORMATS,
+  exportReport,
+  isExportFormat,
+} from "@/inngest/functions/deep-research/export";
+
+/**
+ * Turn a topic into a safe download file name
+ */
+function toFileName(topic: string): string {
+  const slug = topic
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "research";
+}
+
+/**
+ * Download the final report of a run as PDF, DOCX, HTML or markdown
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const format = new URL(req.url).searchParams.get("format") || "md";
+
+  if (!isExportFormat(format)) {
+    return new Response(
+      JSON.stringify({
+        error: `Unsupported format, expected one of: ${EXPORT_FORMATS.join(
+          ", "
+        )}`,
+      }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  try {
+    const run = await getRun(params.uuid);
+
+    if (!run) {
+      return new Response(JSON.stringify({ error: "Research run not found" }), {
+        status: 404,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    if (!run.finalReport) {
+      return new Response(
+        JSON.stringify({ error: "Research run has no final report yet" }),
+        {
+          status: 409,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const { body, contentType, extension } = await exportReport(
+      { ...run, finalReport: run.finalReport },
+      format
+    );
+
+    const fileName = `${toFileName(run.topic)}.${extension}`;
+
+    return new Response(
+      typeof body === "string" ? body : new Uint8Array(body),
+      {
+        headers: {
+          "Content-Type": contentType,
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`Failed to export deep research run ${params.uuid}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to export research report" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
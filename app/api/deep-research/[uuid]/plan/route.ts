@@ -0,0 +1,88 @@
+import { inngest } from "@/inngest/client";
+import { getRun } from "@/inngest/functions/deep-research/runs";
+import {
+  ResearchPlanStage,
+  validateResearchPlan,
+} from "@/inngest/functions/deep-research/plan";
+
+/**
+ * Approve the research plan of a run waiting for approval, resuming the
+ * research. The body may carry the edited plan as `stages`; without it the
+ * plan is approved as generated.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const run = await getRun(params.uuid);
+
+  if (!run) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  if (run.status !== "running" || !run.lastEvent?.awaitingApproval) {
+    return new Response(
+      JSON.stringify({
+        error: "Research run is not waiting for its plan to be approved",
+      }),
+      {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  const body = (await req.json().catch(() => ({}))) as {
+    stages?: ResearchPlanStage[];
+  };
+
+  if (body.stages !== undefined) {
+    const error = validateResearchPlan(body.stages);
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+  }
+
+  try {
+    await inngest.send({
+      name: "deep-research/plan-approve",
+      data: {
+        uuid: params.uuid,
+        stages: body.stages,
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to approve plan for deep research run ${params.uuid}:`,
+      error
+    );
+    return new Response(
+      JSON.stringify({ error: "Failed to approve research plan" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  return new Response(JSON.stringify({ uuid: params.uuid, approved: true }), {
+    status: 202,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import { inngest } from "@/inngest/client";
+import { subscribe } from "@inngest/realtime";
+import { getRun } from "@/inngest/functions/deep-research/runs";
+import { validateRefreshSource } from "@/inngest/functions/deep-research/refresh";
+
+/**
+ * Refresh a completed run. A new run is started on the same plan that only
+ * searches for content published since the prior run finished, reuses the
+ * prior run's analyses and leads its report with what changed. The response
+ * streams the new run's updates like the route that starts a run.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const prior = await getRun(params.uuid);
+
+  if (!prior) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const invalid = validateRefreshSource(prior);
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 409,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const uuid = crypto.randomUUID();
+
+  await inngest.send({
+    name: "deep-research/run",
+    data: {
+      uuid,
+      topic: prior.topic,
+      context: prior.context || "",
+      // The prior run's plan was already reviewed
+      configuration: prior.configuration && {
+        ...prior.configuration,
+        requirePlanApproval: false,
+      },
+      refreshOf: prior.uuid,
+    },
+  });
+
+  const stream = await subscribe({
+    app: inngest,
+    channel: `deep-research.${uuid}`,
+    topics: ["updates"], // subscribe to updates from the research process
+  });
+
+  return new Response(stream.getEncodedStream(), {
+    headers: {
+      // Lets the client re-attach via /api/deep-research/[uuid]/stream
+      "X-Research-Id": uuid,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
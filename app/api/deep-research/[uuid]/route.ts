@@ -0,0 +1,62 @@
+import { inngest } from "@/inngest/client";
+import { getRun, isUuid } from "@/inngest/functions/deep-research/runs";
+
+/**
+ * Cancel a running deep research job. A run that has only just been started
+ * may not be recorded yet, so the cancellation is sent either way; the
+ * research function is cancelled by the event, not the record.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  if (!isUuid(params.uuid)) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const run = await getRun(params.uuid);
+
+  if (run && run.status !== "running") {
+    return new Response(
+      JSON.stringify({ error: `Research run is already ${run.status}` }),
+      {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  try {
+    await inngest.send({
+      name: "deep-research/cancel",
+      data: {
+        uuid: params.uuid,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to cancel deep research run ${params.uuid}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to cancel research run" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  return new Response(JSON.stringify({ uuid: params.uuid, cancelled: true }), {
+    status: 202,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { inngest } from "@/inngest/client";
+import { getRun } from "@/inngest/functions/deep-research/runs";
+import {
+  SteeringInstruction,
+  validateSteeringInstruction,
+} from "@/inngest/functions/deep-research/steering";
+
+/**
+ * Steer a running deep research job. The body is a steering instruction:
+ * `{type: "add-query", query}` adds a query to the current stage,
+ * `{type: "mark-irrelevant", nodeId}` stops a node from being expanded and
+ * `{type: "add-guidance", guidance}` adds guidance to the run's context. The
+ * run applies it before its next step.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const run = await getRun(params.uuid);
+
+  if (!run) {
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  if (run.status !== "running") {
+    return new Response(
+      JSON.stringify({ error: `Research run is already ${run.status}` }),
+      {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  const instruction = await req.json().catch(() => null);
+  const invalid = validateSteeringInstruction(instruction);
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 400,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  try {
+    await inngest.send({
+      name: "deep-research/steer",
+      data: {
+        uuid: params.uuid,
+        instruction: instruction as SteeringInstruction,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to steer deep research run ${params.uuid}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to steer research run" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  return new Response(JSON.stringify({ uuid: params.uuid, steered: true }), {
+    status: 202,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
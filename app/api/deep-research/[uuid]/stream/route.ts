@@ -0,0 +1,180 @@
+import { inngest } from "@/inngest/client";
+import { subscribe } from "@inngest/realtime";
+import {
+  buildProgressEvent,
+  ProgressEvent,
+} from "@/inngest/functions/deep-research";
+import {
+  DeepResearchRun,
+  getRun,
+} from "@/inngest/functions/deep-research/runs";
+import { getTokenUsageSnapshot } from "@/inngest/functions/deep-research/token-tracking";
+
+// Allow long-lived reconnections for runs that take several minutes
+export const maxDuration = 300;
+
+/**
+ * Build a single event describing everything the client needs to rebuild
+ * its view of a run: all stages with their trees, the current stage and the
+ * latest progress.
+ */
+function buildSnapshotEvent(run: DeepResearchRun): ProgressEvent {
+  const lastEvent = run.lastEvent;
+  const stageIndex = lastEvent?.stage?.index;
+  const currentStage =
+    stageIndex !== undefined ? run.stages[stageIndex] : undefined;
+  const tokenUsage = getTokenUsageSnapshot(run.tokenUsage, stageIndex);
+
+  if (run.status === "completed") {
+    return buildProgressEvent({
+      type: "complete",
+      message: "Research completed",
+      stages: run.stages,
+      analysis: run.finalReport,
+      completed: true,
+      partial: Boolean(run.budgetExceeded),
+      progress: {
+        percent: 100,
+        currentStep: "Complete",
+      },
+      tokenUsage,
+      citationVerification: run.citationVerification,
+    });
+  }
+
+  if (run.status === "cancelled") {
+    return buildProgressEvent({
+      type: "cancelled",
+      message: "Research cancelled",
+      stages: run.stages,
+      progress: {
+        percent: 100,
+        currentStep: "Cancelled",
+      },
+      tokenUsage,
+    });
+  }
+
+  if (run.status === "failed") {
+    return buildProgressEvent({
+      type: "error",
+      message: run.error || "Research failed",
+      stages: run.stages,
+      progress: {
+        percent: 100,
+        currentStep: "Error",
+      },
+      tokenUsage,
+    });
+  }
+
+  return buildProgressEvent({
+    message: lastEvent?.message || "Reconnected to research run",
+    stages: run.stages,
+    stage: currentStage && {
+      index: stageIndex!,
+      name: currentStage.name,
+      description: currentStage.description,
+      totalStages: run.stages.length,
+      reasoningTree: currentStage.reasoningTree,
+    },
+    agent: lastEvent?.agent,
+    progress: lastEvent?.progress,
+    tree: lastEvent?.tree,
+    tokenUsage,
+    awaitingApproval: lastEvent?.awaitingApproval,
+  });
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  const channel = `deep-research.${params.uuid}`;
+
+  // Subscribe before loading the snapshot so no update is missed in between
+  const subscription = await subscribe({
+    app: inngest,
+    channel,
+    topics: ["updates"],
+  });
+  const updates = subscription.getEncodedStream();
+
+  let run: DeepResearchRun | null;
+  try {
+    run = await getRun(params.uuid);
+  } catch (error) {
+    console.error(`Failed to load deep research run ${params.uuid}:`, error);
+    await Promise.all([updates.cancel(), subscription.cancel()]);
+    return new Response(
+      JSON.stringify({ error: "Failed to load research run" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  if (!run) {
+    await Promise.all([updates.cancel(), subscription.cancel()]);
+    return new Response(JSON.stringify({ error: "Research run not found" }), {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const snapshot = encoder.encode(
+    `${JSON.stringify({
+      channel,
+      topic: "updates",
+      data: buildSnapshotEvent(run),
+      createdAt: new Date(),
+      kind: "data",
+    })}\n`
+  );
+
+  // Finished runs only need the snapshot
+  const isFinished = run.status !== "running";
+  if (isFinished) {
+    await Promise.all([updates.cancel(), subscription.cancel()]);
+  }
+
+  const reader = isFinished ? null : updates.getReader();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(snapshot);
+
+      if (!reader) {
+        controller.close();
+        return;
+      }
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          controller.enqueue(value);
+        }
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await Promise.all([reader?.cancel(), subscription.cancel()]);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { getRun } from "@/inngest/functions/deep-research/runs";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: { uuid: string } }
+) {
+  try {
+    const run = await getRun(params.uuid);
+
+    if (!run) {
+      return new Response(JSON.stringify({ error: "Research run not found" }), {
+        status: 404,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(run), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to load deep research run ${params.uuid}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load research run" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
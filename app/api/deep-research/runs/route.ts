@@ -0,0 +1,33 @@
+import { listRuns } from "@/inngest/functions/deep-research/runs";
+
+const MAX_PAGE_SIZE = 100;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || "20", 10) || 20, 1),
+    MAX_PAGE_SIZE
+  );
+  const offset = Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0);
+
+  try {
+    const runs = await listRuns({ limit, offset });
+
+    return new Response(JSON.stringify({ runs, limit, offset }), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list deep research runs:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load research runs" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
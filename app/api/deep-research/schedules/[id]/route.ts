@@ -0,0 +1,138 @@
+import {
+  deleteSchedule,
+  getSchedule,
+  updateSchedule,
+} from "@/inngest/functions/deep-research/runs";
+import { validateConfig } from "@/inngest/functions/deep-research/configuration";
+import {
+  ResearchScheduleRequest,
+  validateScheduleRequest,
+} from "@/inngest/functions/deep-research/schedules";
+
+function notFound() {
+  return new Response(
+    JSON.stringify({ error: "Research schedule not found" }),
+    {
+      status: 404,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }
+  );
+}
+
+/**
+ * Fetch a research schedule
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const schedule = await getSchedule(params.id);
+    if (!schedule) return notFound();
+
+    return new Response(JSON.stringify(schedule), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to load research schedule ${params.id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load research schedule" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Update a research schedule. Only the fields in the body are changed; set
+ * `enabled` to pause or resume it.
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  const request = await req.json().catch(() => null);
+  const invalid = validateScheduleRequest(request, { partial: true });
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 400,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const { topic, context, configuration, cron, recipients, enabled } =
+    request as ResearchScheduleRequest;
+
+  try {
+    const schedule = await updateSchedule(params.id, {
+      ...(topic !== undefined && { topic: topic.trim() }),
+      ...(context !== undefined && { context: context || null }),
+      ...(configuration !== undefined && {
+        configuration: {
+          ...validateConfig(configuration),
+          requirePlanApproval: false,
+        },
+      }),
+      ...(cron !== undefined && { cron: cron.trim() }),
+      ...(recipients !== undefined && { recipients }),
+      ...(enabled !== undefined && { enabled }),
+    });
+    if (!schedule) return notFound();
+
+    return new Response(JSON.stringify(schedule), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to update research schedule ${params.id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to update research schedule" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Delete a research schedule. Runs it already started are kept.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!(await deleteSchedule(params.id))) return notFound();
+
+    return new Response(JSON.stringify({ id: params.id, deleted: true }), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to delete research schedule ${params.id}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to delete research schedule" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  getSchedule,
+  listRuns,
+} from "@/inngest/functions/deep-research/runs";
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * List the runs a schedule started, most recent first. Each run's report is
+ * fetched through the runs route.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || "20", 10) || 20, 1),
+    MAX_PAGE_SIZE
+  );
+  const offset = Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0);
+
+  try {
+    const schedule = await getSchedule(params.id);
+
+    if (!schedule) {
+      return new Response(
+        JSON.stringify({ error: "Research schedule not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const runs = await listRuns({ limit, offset, scheduleId: params.id });
+
+    return new Response(JSON.stringify({ runs, limit, offset }), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to list runs of research schedule ${params.id}:`,
+      error
+    );
+    return new Response(
+      JSON.stringify({ error: "Failed to load research runs" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
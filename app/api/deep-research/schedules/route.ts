@@ -0,0 +1,90 @@
+import crypto from "crypto";
+import {
+  createSchedule,
+  listSchedules,
+} from "@/inngest/functions/deep-research/runs";
+import { validateConfig } from "@/inngest/functions/deep-research/configuration";
+import {
+  ResearchScheduleRequest,
+  validateScheduleRequest,
+} from "@/inngest/functions/deep-research/schedules";
+
+/**
+ * List research schedules
+ */
+export async function GET() {
+  try {
+    const schedules = await listSchedules();
+
+    return new Response(JSON.stringify({ schedules }), {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list research schedules:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load research schedules" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Create a research schedule. The body has the topic, context and
+ * configuration of the runs to start, a five field UTC cron expression and
+ * the email addresses to send their reports to.
+ */
+export async function POST(req: Request) {
+  const request = await req.json().catch(() => null);
+  const invalid = validateScheduleRequest(request);
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 400,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const { topic, context, configuration, cron, recipients, enabled } =
+    request as ResearchScheduleRequest;
+
+  try {
+    const schedule = await createSchedule(crypto.randomUUID(), {
+      topic: topic!.trim(),
+      context: context || null,
+      // Nobody is there to approve the plan of a scheduled run
+      configuration: {
+        ...validateConfig(configuration),
+        requirePlanApproval: false,
+      },
+      cron: cron!.trim(),
+      recipients: recipients || [],
+      enabled: enabled ?? true,
+    });
+
+    return new Response(JSON.stringify(schedule), {
+      status: 201,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to create research schedule:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to create research schedule" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
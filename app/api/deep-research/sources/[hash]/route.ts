@@ -0,0 +1,81 @@
+import { getSourceStore } from "@/inngest/functions/deep-research/source-store";
+
+/**
+ * Get the archived full text of a source by its content hash. Returns plain
+ * text headed by every URL the text was fetched from, or JSON with
+ * `?format=json`. `?start=&end=` limits the text to a passage, given as
+ * character offsets.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { hash: string } }
+) {
+  if (!/^[a-f0-9]{64}$/.test(params.hash)) {
+    return new Response(JSON.stringify({ error: "Invalid source hash" }), {
+      status: 400,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  try {
+    const source = await getSourceStore().get(params.hash);
+
+    if (!source) {
+      return new Response(JSON.stringify({ error: "Source not found" }), {
+        status: 404,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const start = Math.max(
+      parseInt(searchParams.get("start") || "", 10) || 0,
+      0
+    );
+    const end = Math.min(
+      parseInt(searchParams.get("end") || "", 10) || source.content.length,
+      source.content.length
+    );
+    const content = source.content.slice(start, end);
+    const isPassage = start > 0 || end < source.content.length;
+
+    if (searchParams.get("format") === "json") {
+      return new Response(JSON.stringify({ ...source, content, start, end }), {
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    const header = [
+      ...source.fetches.flatMap((fetch) => [
+        `URL: ${fetch.url}`,
+        ...(fetch.title ? [`Title: ${fetch.title}`] : []),
+        `Fetched: ${fetch.fetchedAt}`,
+      ]),
+      `SHA-256: ${source.hash}`,
+      ...(isPassage ? [`Passage: characters ${start}-${end}`] : []),
+    ].join("\n");
+
+    return new Response(`${header}\n\n${content}`, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to load archived source ${params.hash}:`, error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load archived source" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+}
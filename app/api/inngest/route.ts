@@ -1,10 +1,26 @@
 import { inngest } from "@/inngest/client";
 import { serve } from "inngest/next";
 import { helloWorld } from "@/inngest/functions/hello-world";
-import { deepResearchAgent } from "@/inngest/functions/deep-research";
+import {
+  deepResearchAgent,
+  deepResearchAsk,
+  deepResearchCancelled,
+  deepResearchNotify,
+  deepResearchScheduler,
+  deepResearchSteered,
+} from "@/inngest/functions/deep-research";
 import { simpleAgentFunction } from "@/inngest/functions/simple-agent";
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [helloWorld, deepResearchAgent, simpleAgentFunction],
+  functions: [
+    helloWorld,
+    deepResearchAgent,
+    deepResearchAsk,
+    deepResearchCancelled,
+    deepResearchNotify,
+    deepResearchScheduler,
+    deepResearchSteered,
+    simpleAgentFunction,
+  ],
 });
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck, ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CitationVerdict, CitationVerification } from "./types";
+
+interface CitationVerificationPanelProps {
+  verification: CitationVerification;
+}
+
+const VERDICT_STYLES: Record<CitationVerdict, string> = {
+  supported:
+    "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300",
+  weak: "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300",
+  unsupported: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300",
+};
+
+const VERDICTS: CitationVerdict[] = ["supported", "weak", "unsupported"];
+
+export function CitationVerificationPanel({
+  verification,
+}: CitationVerificationPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { checks, summary } = verification;
+
+  // Only citations that need a second look are listed
+  const flagged = checks.filter((check) => check.verdict !== "supported");
+
+  if (checks.length === 0) return null;
+
+  return (
+    <div className="max-w-3xl rounded-lg border border-zinc-300 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-900 text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={flagged.length === 0}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2 text-left"
+      >
+        <div className="flex items-center gap-2 flex-wrap">
+          <ShieldCheck size={16} className="text-zinc-500" />
+          <span className="font-medium text-zinc-800 dark:text-zinc-200">
+            Citation check
+          </span>
+          {VERDICTS.map((verdict) => (
+            <span
+              key={verdict}
+              className={cn(
+                "px-2 py-0.5 rounded-full text-xs",
+                VERDICT_STYLES[verdict]
+              )}
+            >
+              {summary[verdict]} {verdict}
+            </span>
+          ))}
+        </div>
+        {flagged.length > 0 &&
+          (expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />)}
+      </button>
+
+      {expanded && (
+        <ul className="border-t border-zinc-300 dark:border-zinc-700 divide-y divide-zinc-200 dark:divide-zinc-800">
+          {flagged.map((check, i) => (
+            <li key={i} className="px-4 py-3 space-y-1">
+              <div className="flex items-center gap-2">
+                <span
+                  className={cn(
+                    "px-2 py-0.5 rounded-full text-xs",
+                    VERDICT_STYLES[check.verdict]
+                  )}
+                >
+                  {check.verdict}
+                </span>
+                <span className="font-mono text-xs text-zinc-500">
+                  {check.marker}
+                </span>
+                {check.source && (
+                  <a
+                    href={check.source}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+                  >
+                    {check.title || check.source}
+                  </a>
+                )}
+              </div>
+              <p className="text-zinc-800 dark:text-zinc-200">
+                {check.sentence}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                {check.explanation}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
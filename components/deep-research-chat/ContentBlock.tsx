@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { cn } from "@/lib/utils";
-import { ExternalLink, ChevronDown, Loader2, Maximize2, X } from "lucide-react";
+import { Ban, ExternalLink, ChevronDown, FileText, Loader2, Maximize2, X } from "lucide-react";
 import { Finding } from "./types";
 import { useState, useEffect, useRef } from "react";
 import {
@@ -38,10 +38,34 @@ interface ContentBlockProps {
   query: string;
   reasoning?: string;
   findings: Finding[];
+  reflection?: string;
+  relevanceScore?: number;
+  pruned?: boolean;
+  addedByUser?: boolean;
+  irrelevant?: boolean;
+  onMarkIrrelevant?: () => void;
   className?: string;
   isPending?: boolean;
 }
 
+function RelevanceBadge({ score }: { score: number }) {
+  return (
+    <span
+      className={cn(
+        "px-1.5 py-0.5 rounded text-[10px] font-mono flex-shrink-0",
+        score >= 0.7
+          ? "bg-emerald-900/40 text-emerald-300"
+          : score >= 0.35
+            ? "bg-amber-900/40 text-amber-300"
+            : "bg-zinc-700/60 text-zinc-400"
+      )}
+      title="Relevance to the stage goal"
+    >
+      {score.toFixed(2)}
+    </span>
+  );
+}
+
 interface CollapsibleFindingProps {
   finding: Finding;
   parentExpanded: boolean;
@@ -51,6 +75,10 @@ function CollapsibleFinding({ finding, parentExpanded }: CollapsibleFindingProps
   const [isExpanded, setIsExpanded] = useState(false);
   const [height, setHeight] = useState<number | 'auto'>(0);
   const contentRef = useRef<HTMLDivElement>(null);
+  const isWholeSource =
+    finding.passages?.length === 1 &&
+    finding.passages[0].start === 0 &&
+    finding.passages[0].end === finding.sourceRef?.length;
 
   // Reset expanded state when parent collapses
   useEffect(() => {
@@ -92,7 +120,23 @@ function CollapsibleFinding({ finding, parentExpanded }: CollapsibleFindingProps
             >
               {finding.source}
             </a>
+            {finding.relevanceScore !== undefined && (
+              <RelevanceBadge score={finding.relevanceScore} />
+            )}
           </div>
+          {finding.sourceRef && (
+            <a
+              href={`/api/deep-research/sources/${finding.sourceRef.hash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 flex-shrink-0 ml-2"
+              onClick={(e) => e.stopPropagation()}
+              title={`Full text as fetched on ${new Date(finding.sourceRef.fetchedAt).toLocaleString()}`}
+            >
+              <FileText className="h-3.5 w-3.5" />
+              Archived text
+            </a>
+          )}
         </div>
       </button>
 
@@ -119,6 +163,24 @@ function CollapsibleFinding({ finding, parentExpanded }: CollapsibleFindingProps
             {finding.analysis || "Analysis pending..."}
           </div>
         </div>
+
+        {/* Passages the analysis was made from, when it didn't read the whole source */}
+        {finding.sourceRef && finding.passages && !isWholeSource && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-400 mt-2 ml-8">
+            <span>Analyzed passages:</span>
+            {finding.passages.map((passage) => (
+              <a
+                key={passage.start}
+                href={`/api/deep-research/sources/${finding.sourceRef!.hash}?start=${passage.start}&end=${passage.end}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-blue-400 hover:underline"
+              >
+                {passage.start}-{passage.end}
+              </a>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -128,6 +190,12 @@ export function ContentBlock({
   query,
   reasoning,
   findings,
+  reflection,
+  relevanceScore,
+  pruned = false,
+  addedByUser = false,
+  irrelevant = false,
+  onMarkIrrelevant,
   className,
   isPending = false
 }: ContentBlockProps) {
@@ -176,12 +244,49 @@ export function ContentBlock({
               <h3 className="text-lg font-medium text-white/90">
                 {query}
               </h3>
+              {(relevanceScore !== undefined || pruned || addedByUser || irrelevant) && (
+                <div className="mt-1 flex items-center gap-2 text-xs text-white/60">
+                  {relevanceScore !== undefined && (
+                    <>
+                      <span>Relevance</span>
+                      <RelevanceBadge score={relevanceScore} />
+                    </>
+                  )}
+                  {pruned && (
+                    <span className="px-1.5 py-0.5 rounded bg-zinc-700/60 text-zinc-400">
+                      Pruned, not expanded further
+                    </span>
+                  )}
+                  {addedByUser && (
+                    <span className="px-1.5 py-0.5 rounded bg-blue-900/40 text-blue-300">
+                      Added by you
+                    </span>
+                  )}
+                  {irrelevant && (
+                    <span className="px-1.5 py-0.5 rounded bg-zinc-700/60 text-zinc-400">
+                      Marked irrelevant, not expanded
+                    </span>
+                  )}
+                </div>
+              )}
               {reasoning && (
                 <p className="mt-2 text-sm text-white/70">
                   {reasoning}
                 </p>
               )}
             </div>
+            {!inDialog && onMarkIrrelevant && !irrelevant && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMarkIrrelevant();
+                }}
+                className="ml-4 p-1 hover:bg-zinc-700/50 rounded transition-colors"
+                title="Mark irrelevant so it isn't expanded"
+              >
+                <Ban className="h-4 w-4 text-zinc-400" />
+              </button>
+            )}
             {!inDialog && (
               <button
                 onClick={(e) => {
@@ -197,6 +302,16 @@ export function ContentBlock({
           </div>
         </div>
 
+        {/* Reflection on what the findings taught us and left open */}
+        {reflection && (
+          <div className="border-b border-zinc-700/50 p-4 text-sm">
+            <div className="font-medium text-white/90 mb-2">Reflection</div>
+            <div className="text-white/70 whitespace-pre-wrap">
+              {reflection}
+            </div>
+          </div>
+        )}
+
         {/* Findings header */}
         <button
           onClick={() => setCurrentExpanded(!currentExpanded)}
@@ -3,10 +3,12 @@
 import { cn } from "@/lib/utils";
 import { Info, Search } from "lucide-react";
 import { ContentBlock } from "./ContentBlock";
-import { ResearchStage, ResearchUpdate } from "./types";
+import { ReasoningNode, ResearchPlanStage, ResearchStage, ResearchUpdate, SteeringInstruction } from "./types";
 import { DeepResearchProgress } from "./DeepResearchProgress";
-import { calculateProgress } from "./utils";
+import { calculateProgress, getExpectedNodesPerStage } from "./utils";
 import { DeepResearchStages } from "./DeepResearchStages";
+import { ReasoningStrategies } from "./ReasoningStrategies";
+import { ResearchSteeringPanel } from "./ResearchSteeringPanel";
 import {
   Tooltip,
   TooltipContent,
@@ -21,12 +23,38 @@ interface ResearchConfiguration {
   queriesPerStage: number;
 }
 
+/**
+ * Order nodes so each one follows its parent, depth first, keeping nodes
+ * whose parent is missing at the top level
+ */
+function orderByAncestry(nodes: ReasoningNode[]): ReasoningNode[] {
+  const ids = new Set(nodes.map((node) => node.id));
+  const ordered: ReasoningNode[] = [];
+
+  const visit = (node: ReasoningNode) => {
+    ordered.push(node);
+    nodes
+      .filter((child) => child.parentId === node.id)
+      .forEach(visit);
+  };
+  nodes
+    .filter((node) => !node.parentId || !ids.has(node.parentId))
+    .forEach(visit);
+
+  return ordered;
+}
+
 interface DeepResearchCardProps {
   stages: ResearchStage[];
   updates: ResearchUpdate[];
   selectedStage: number;
   onStageSelect: (stageId: number) => void;
   configuration?: ResearchConfiguration;
+  onApprovePlan?: (plan: ResearchPlanStage[]) => void;
+  isApprovingPlan?: boolean;
+  // Given only while the run is in progress
+  onSteer?: (instruction: SteeringInstruction) => Promise<boolean>;
+  isSteering?: boolean;
 }
 
 export function DeepResearchCard({
@@ -34,18 +62,22 @@ export function DeepResearchCard({
   updates,
   selectedStage,
   onStageSelect,
-  configuration
+  configuration,
+  onApprovePlan,
+  isApprovingPlan,
+  onSteer,
+  isSteering
 }: DeepResearchCardProps) {
   const currentStage = stages.find(s => s.id === selectedStage);
   const latestUpdate = updates[updates.length - 1];
   const progress = calculateProgress(stages, latestUpdate, configuration);
 
+  // Running token usage from the most recent update that reported it
+  const tokenUsage = [...updates].reverse().find(u => u.tokenUsage)?.tokenUsage?.total;
+
   // Calculate expected total nodes based on configuration
-  const expectedTotalNodes = configuration ? 
-    configuration.stageCount * (
-      configuration.queriesPerStage + // Initial queries
-      (configuration.maxDepth > 1 ? configuration.maxBreadth : 0) // Follow-up queries if depth > 1
-    ) : 0;
+  const expectedTotalNodes = configuration ?
+    configuration.stageCount * getExpectedNodesPerStage(configuration) : 0;
 
   return (
     <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden h-[600px]">
@@ -100,6 +132,7 @@ export function DeepResearchCard({
                 currentStep={progress.currentStep}
                 agent={latestUpdate?.agent}
                 tree={latestUpdate?.tree}
+                tokenUsage={tokenUsage}
                 className="mt-2"
               />
             </div>
@@ -110,6 +143,9 @@ export function DeepResearchCard({
               selectedStage={selectedStage}
               onStageSelect={onStageSelect}
               configuration={configuration}
+              awaitingApproval={latestUpdate?.awaitingApproval}
+              onApprovePlan={onApprovePlan}
+              isApprovingPlan={isApprovingPlan}
             />
           </div>
         </div>
@@ -118,6 +154,12 @@ export function DeepResearchCard({
         <div className="flex-1 min-w-0 flex flex-col overflow-hidden">
           {/* Stage content */}
           <div className="p-4 space-y-4 overflow-y-auto h-full">
+            {latestUpdate?.awaitingApproval && (
+              <div className="px-3 py-2 rounded-lg text-sm bg-blue-900/30 text-blue-200 border border-blue-800">
+                Research is paused until you approve the plan in the sidebar.
+              </div>
+            )}
+
             {/* Stage description */}
             {currentStage && (
               <div className="text-zinc-300 text-sm">
@@ -125,18 +167,42 @@ export function DeepResearchCard({
               </div>
             )}
 
+            {onSteer && !latestUpdate?.awaitingApproval && (
+              <ResearchSteeringPanel onSteer={onSteer} isSteering={isSteering} />
+            )}
+
+            {/* Reasoning modules the stage was planned and analyzed with */}
+            {currentStage?.reasoningStrategies && (
+              <ReasoningStrategies strategies={currentStage.reasoningStrategies} />
+            )}
+
             {/* Research Progress with ContentBlocks */}
             {currentStage?.reasoningTree?.nodes && currentStage.reasoningTree.nodes.length > 0 && (
               <div className="mt-4">
                 <div className="space-y-4">
-                  {currentStage.reasoningTree.nodes.map((node, nodeIndex) => (
-                    <ContentBlock
+                  {orderByAncestry(currentStage.reasoningTree.nodes).map((node) => (
+                    <div
                       key={node.id}
-                      query={node.query}
-                      reasoning={node.reasoning}
-                      findings={node.findings}
-                      isPending={node.findings.length === 0}
-                    />
+                      className={cn(node.depth > 0 && "border-l-2 border-zinc-700 pl-4")}
+                      style={{ marginLeft: `${Math.max(node.depth - 1, 0) * 1.5}rem` }}
+                    >
+                      <ContentBlock
+                        query={node.query}
+                        reasoning={node.reasoning}
+                        findings={node.findings}
+                        reflection={node.reflection}
+                        relevanceScore={node.relevanceScore}
+                        pruned={node.pruned}
+                        addedByUser={node.addedByUser}
+                        irrelevant={node.irrelevant}
+                        onMarkIrrelevant={
+                          onSteer && node.children.length === 0
+                            ? () => onSteer({ type: "mark-irrelevant", nodeId: node.id })
+                            : undefined
+                        }
+                        isPending={node.findings.length === 0 && !node.irrelevant}
+                      />
+                    </div>
                   ))}
                 </div>
               </div>
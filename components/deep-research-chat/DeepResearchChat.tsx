@@ -4,9 +4,26 @@ import { useState, useRef, useEffect } from "react";
 import { DeepResearchMessage } from "./DeepResearchMessage";
 import { DeepResearchCard } from "./DeepResearchCard";
 import { ChatHeader } from "../chat/ChatHeader";
-import { Brain, Paperclip, ChevronDown, ArrowUp, Loader2 } from "lucide-react";
-import { ResearchStage, ResearchUpdate } from "./types";
+import { Brain, Paperclip, ChevronDown, ArrowUp, Loader2, Square, RefreshCw } from "lucide-react";
+import {
+  CitationVerification,
+  ResearchPlanStage,
+  ResearchStage,
+  ResearchUpdate,
+  SearchFilters,
+  SteeringInstruction,
+} from "./types";
 import { ResearchConfiguration } from "./ResearchConfiguration";
+import { ResearchSchedules } from "./ResearchSchedules";
+import { ReportExportMenu } from "./ReportExportMenu";
+import { CitationVerificationPanel } from "./CitationVerificationPanel";
+import { ReportSources } from "./ReportSources";
+import { ReportChat } from "./ReportChat";
+import {
+  saveActiveResearch,
+  loadActiveResearch,
+  clearActiveResearch,
+} from "./utils";
 
 interface Finding {
   source: string;
@@ -40,6 +57,9 @@ interface ResearchConfiguration {
   maxBreadth: number;
   stageCount: number;
   queriesPerStage: number;
+  citationStyle?: string;
+  requirePlanApproval?: boolean;
+  searchFilters?: SearchFilters;
 }
 
 export function DeepResearchChat() {
@@ -49,10 +69,18 @@ export function DeepResearchChat() {
   const [isLoading, setIsLoading] = useState(false);
   const [userQuery, setUserQuery] = useState<string>("");
   const [finalReport, setFinalReport] = useState<string | null>(null);
+  const [partialReportNotice, setPartialReportNotice] = useState<string | null>(null);
+  const [citationVerification, setCitationVerification] = useState<CitationVerification | null>(null);
+  // Run shown in the view, kept after the stream ends so it can be exported
+  const [reportId, setReportId] = useState<string | null>(null);
   const [isInputVisible, setIsInputVisible] = useState(true);
   const [autoScroll, setAutoScroll] = useState(true);
   const [isProgrammaticScrolling, setIsProgrammaticScrolling] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [researchId, setResearchId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isApprovingPlan, setIsApprovingPlan] = useState(false);
+  const [isSteering, setIsSteering] = useState(false);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const thumbRef = useRef<HTMLDivElement>(null);
@@ -82,6 +110,12 @@ export function DeepResearchChat() {
   // Get the most recent progress percentage
   const progressPercent = latestUpdate?.progress?.percent ?? 0;
 
+  // Keep the approve button busy until the run reports it has resumed
+  const isAwaitingApproval = Boolean(latestUpdate?.awaitingApproval);
+  useEffect(() => {
+    if (!isAwaitingApproval) setIsApprovingPlan(false);
+  }, [isAwaitingApproval]);
+
   // Scroll to bottom function
   const scrollToBottom = (force = false, smooth = false) => {
     if (chatContainerRef.current && (autoScroll || force)) {
@@ -290,6 +324,226 @@ export function DeepResearchChat() {
     setSelectedWorkflow(workflowName);
   };
 
+  // Read realtime events from a research stream and apply them to the UI
+  const processResearchStream = async (response: Response) => {
+    // Handle response
+    const reader = response.body?.getReader();
+    console.log("Reader created:", !!reader);
+
+    if (!reader) {
+      console.error("No reader available");
+      return;
+    }
+
+    let buffer = '';
+    const decoder = new TextDecoder();
+    console.log("Starting to read stream...");
+
+    try {
+      while (true) {
+        console.log("Reading chunk...");
+        const { done, value } = await reader.read();
+        
+        if (done) {
+          console.log("Stream complete");
+          break;
+        }
+
+        // Decode the chunk and add to buffer
+        const newText = decoder.decode(value, { stream: true });
+        console.log("Decoded text:", newText);
+        
+        buffer += newText;
+        
+        // Process complete messages from buffer
+        const lines = buffer.split('\n');
+        console.log("Split lines:", lines);
+        
+        // Keep the last potentially incomplete line in buffer
+        buffer = lines.pop() || '';
+        console.log("Remaining buffer:", buffer);
+
+        for (const line of lines) {
+          if (line.trim() === '') {
+            console.log("Skipping empty line");
+            continue;
+          }
+          
+          try {
+            console.log("Processing line:", line);
+            const event = JSON.parse(line);
+            console.log("Successfully parsed JSON:", event);
+
+            if (event.data) {
+              const updateData = event.data as ResearchUpdate;
+              console.log("Processing update:", {
+                message: updateData.message,
+                progress: updateData.progress,
+                stage: updateData.stage,
+                agent: updateData.agent,
+                tree: updateData.tree,
+                stages: updateData.stages
+              });
+
+              // Check if this is the initial event
+              if (updateData.eventType === "progress" && 
+                  updateData.progress?.percent === 5 && 
+                  updateData.progress?.currentStep === "Initializing") {
+                setIsInitializing(true);
+              }
+
+              // If we receive stages, we're past initialization
+              if (updateData.stages && updateData.stages.length > 0) {
+                setIsInitializing(false);
+              }
+
+              // Update state
+              setUpdates(prev => {
+                console.log("Current updates:", prev);
+                // Only add the update if it's not already present
+                if (!prev.some(u => 
+                  u.timestamp === updateData.timestamp && 
+                  u.message === updateData.message
+                )) {
+                  const newUpdates = [...prev, updateData];
+                  console.log("New updates:", newUpdates);
+                  return newUpdates;
+                }
+                return prev;
+              });
+
+              // Handle stages array first if present
+              if (updateData.stages && updateData.stages.length > 0) {
+                console.log("Received stages update:", updateData.stages);
+                setStages(prev => {
+                  // Create a map of existing stages for quick lookup
+                  const existingStagesMap = new Map(prev.map(s => [s.id, s]));
+                  
+                  // Process each stage from the update
+                  const updatedStages = updateData.stages!.map(newStage => {
+                    const existing = existingStagesMap.get(newStage.id);
+                    return {
+                      id: newStage.id,
+                      name: newStage.name,
+                      description: newStage.description,
+                      completed: existing?.completed || false,
+                      reasoningTree: newStage.reasoningTree || existing?.reasoningTree,
+                      analysis: newStage.analysis || existing?.analysis,
+                      reasoningStrategies: newStage.reasoningStrategies || existing?.reasoningStrategies,
+                      reasoningComplete: newStage.reasoningComplete ?? existing?.reasoningComplete ?? false,
+                      analysisComplete: newStage.analysisComplete ?? existing?.analysisComplete ?? false
+                    };
+                  });
+
+                  console.log("Updated stages:", updatedStages);
+                  return updatedStages;
+                });
+              }
+
+              // Then handle individual stage updates
+              if (updateData.stage) {
+                const newStage: ResearchStage = {
+                  id: updateData.stage.index,
+                  name: updateData.stage.name,
+                  description: updateData.stage.description,
+                  completed: false,
+                  reasoningTree: updateData.stage.reasoningTree,
+                  reasoningComplete: false,
+                  analysisComplete: false
+                };
+
+                setStages(prev => {
+                  // Find if this stage already exists
+                  const existingIndex = prev.findIndex(s => s.id === newStage.id);
+                  
+                  if (existingIndex === -1) {
+                    // If it's a new stage, add it
+                    return [...prev, newStage];
+                  } else {
+                    // If it exists, update it while preserving existing properties
+                    return prev.map((stage, index) => 
+                      index === existingIndex ? {
+                        ...stage,
+                        ...newStage,
+                        // Preserve completion states unless explicitly provided
+                        reasoningComplete: newStage.reasoningComplete ?? stage.reasoningComplete,
+                        analysisComplete: newStage.analysisComplete ?? stage.analysisComplete,
+                        // Properly merge reasoning trees using a Map for deduplication by query
+                        reasoningTree: {
+                          nodes: (() => {
+                            // Create a Map using query as the key for deduplication
+                            const nodeMap = new Map(
+                              (stage.reasoningTree?.nodes || []).map(node => [node.query, node])
+                            );
+                            
+                            // Update or add new nodes, preferring newer nodes for the same query
+                            (newStage.reasoningTree?.nodes || []).forEach(node => {
+                              // If we have an existing node with this query
+                              const existingNode = nodeMap.get(node.query);
+                              if (existingNode) {
+                                // Only update if the new node has more information
+                                if (node.findings.length > existingNode.findings.length ||
+                                    node.children.length > existingNode.children.length ||
+                                    node.reflection !== undefined) {
+                                  nodeMap.set(node.query, node);
+                                }
+                              } else {
+                                // No existing node with this query, add the new one
+                                nodeMap.set(node.query, node);
+                              }
+                            });
+                            
+                            // Convert back to array
+                            return Array.from(nodeMap.values());
+                          })()
+                        }
+                      } : stage
+                    );
+                  }
+                });
+
+                // Only update selected stage if it's not already selected
+                if (selectedStage !== updateData.stage.index) {
+                  setSelectedStage(updateData.stage.index);
+                }
+              }
+
+              // Handle completion
+              if (updateData.eventType === 'complete' && updateData.completed) {
+                console.log("Research complete, setting final report");
+                console.log("Final analysis:", updateData.analysis);
+                setFinalReport(updateData.analysis || null);
+                // A budget cut the research short
+                setPartialReportNotice(updateData.partial ? updateData.message : null);
+                setCitationVerification(updateData.citationVerification || null);
+                setIsLoading(false);
+                clearActiveResearch();
+                reader.cancel();
+                break;
+              }
+
+              // Handle failure or cancellation
+              if (updateData.eventType === 'error' || updateData.eventType === 'cancelled') {
+                console.log(`Research ${updateData.eventType}:`, updateData.message);
+                setIsLoading(false);
+                clearActiveResearch();
+                reader.cancel();
+                break;
+              }
+            } else {
+              console.log("Event has no data property:", event);
+            }
+          } catch (error) {
+            console.error("Error processing line:", error);
+            console.log("Problematic line:", line);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error in stream reading:", error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!userQuery.trim()) return;
@@ -303,6 +557,9 @@ export function DeepResearchChat() {
     setUpdates([]);
     setStages([]);
     setFinalReport(null);
+    setPartialReportNotice(null);
+    setCitationVerification(null);
+    setReportId(null);
     setAutoScroll(true);
 
     try {
@@ -324,217 +581,179 @@ export function DeepResearchChat() {
         bodyUsed: response.bodyUsed
       });
 
-      // Handle response
-      const reader = response.body?.getReader();
-      console.log("Reader created:", !!reader);
+      // Remember the run so a reload can re-attach to it
+      const researchId = response.headers.get("X-Research-Id");
+      if (researchId) {
+        setResearchId(researchId);
+        setReportId(researchId);
+        saveActiveResearch({ uuid: researchId, topic: userQuery, configuration });
+      }
 
-      if (!reader) {
-        console.error("No reader available");
-        setIsLoading(false);
-        setIsInputVisible(true);
+      await processResearchStream(response);
+    } catch (error) {
+      console.error("Error in research:", error);
+    } finally {
+      console.log("Request complete");
+      setIsLoading(false);
+      setResearchId(null);
+      setIsCancelling(false);
+      setIsInputVisible(true);
+      setTimeout(() => inputRef.current?.focus(), 300);
+    }
+  };
+
+  // Re-run the finished report's research for content published since it
+  // was written; the refresh streams in as a new run
+  const handleRefresh = async () => {
+    if (!reportId || isLoading) return;
+
+    const priorId = reportId;
+    setIsInputVisible(false);
+    setIsLoading(true);
+    setUpdates([]);
+    setStages([]);
+    setFinalReport(null);
+    setPartialReportNotice(null);
+    setCitationVerification(null);
+    setReportId(null);
+    setAutoScroll(true);
+
+    try {
+      const response = await fetch(`/api/deep-research/${priorId}/refresh`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        console.error("Failed to refresh research:", response.status);
         return;
       }
 
-      let buffer = '';
-      const decoder = new TextDecoder();
-      console.log("Starting to read stream...");
+      const researchId = response.headers.get("X-Research-Id");
+      if (researchId) {
+        setResearchId(researchId);
+        setReportId(researchId);
+        saveActiveResearch({ uuid: researchId, topic: userQuery, configuration });
+      }
+
+      await processResearchStream(response);
+    } catch (error) {
+      console.error("Error refreshing research:", error);
+    } finally {
+      setIsLoading(false);
+      setResearchId(null);
+      setIsCancelling(false);
+      setIsInputVisible(true);
+    }
+  };
+
+  // Re-attach to a run that was still in progress when the page was reloaded
+  useEffect(() => {
+    const activeResearch = loadActiveResearch();
+    if (!activeResearch) return;
+
+    const resumeResearch = async () => {
+      console.log("Resuming research:", activeResearch.uuid);
+      setUserQuery(activeResearch.topic);
+      setConfiguration(activeResearch.configuration);
+      setResearchId(activeResearch.uuid);
+      setReportId(activeResearch.uuid);
+      setIsInputVisible(false);
+      setIsLoading(true);
+      setIsInitializing(true);
 
       try {
-        while (true) {
-          console.log("Reading chunk...");
-          const { done, value } = await reader.read();
-          
-          if (done) {
-            console.log("Stream complete");
-            break;
-          }
+        const response = await fetch(`/api/deep-research/${activeResearch.uuid}/stream`);
 
-          // Decode the chunk and add to buffer
-          const newText = decoder.decode(value, { stream: true });
-          console.log("Decoded text:", newText);
-          
-          buffer += newText;
-          
-          // Process complete messages from buffer
-          const lines = buffer.split('\n');
-          console.log("Split lines:", lines);
-          
-          // Keep the last potentially incomplete line in buffer
-          buffer = lines.pop() || '';
-          console.log("Remaining buffer:", buffer);
-
-          for (const line of lines) {
-            if (line.trim() === '') {
-              console.log("Skipping empty line");
-              continue;
-            }
-            
-            try {
-              console.log("Processing line:", line);
-              const event = JSON.parse(line);
-              console.log("Successfully parsed JSON:", event);
-
-              if (event.data) {
-                const updateData = event.data as ResearchUpdate;
-                console.log("Processing update:", {
-                  message: updateData.message,
-                  progress: updateData.progress,
-                  stage: updateData.stage,
-                  agent: updateData.agent,
-                  tree: updateData.tree,
-                  stages: updateData.stages
-                });
+        if (!response.ok) {
+          console.error("Unable to resume research:", response.status);
+          clearActiveResearch();
+          return;
+        }
 
-                // Check if this is the initial event
-                if (updateData.eventType === "progress" && 
-                    updateData.progress?.percent === 5 && 
-                    updateData.progress?.currentStep === "Initializing") {
-                  setIsInitializing(true);
-                }
+        await processResearchStream(response);
+      } catch (error) {
+        console.error("Error resuming research:", error);
+      } finally {
+        setIsLoading(false);
+        setResearchId(null);
+        setIsCancelling(false);
+        setIsInitializing(false);
+        setIsInputVisible(true);
+      }
+    };
 
-                // If we receive stages, we're past initialization
-                if (updateData.stages && updateData.stages.length > 0) {
-                  setIsInitializing(false);
-                }
+    resumeResearch();
+    // Only attempt to resume once, on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-                // Update state
-                setUpdates(prev => {
-                  console.log("Current updates:", prev);
-                  // Only add the update if it's not already present
-                  if (!prev.some(u => 
-                    u.timestamp === updateData.timestamp && 
-                    u.message === updateData.message
-                  )) {
-                    const newUpdates = [...prev, updateData];
-                    console.log("New updates:", newUpdates);
-                    return newUpdates;
-                  }
-                  return prev;
-                });
+  // Stop the running research job; the stream ends once the cancellation is published
+  const handleCancel = async () => {
+    if (!researchId || isCancelling) return;
 
-                // Handle stages array first if present
-                if (updateData.stages && updateData.stages.length > 0) {
-                  console.log("Received stages update:", updateData.stages);
-                  setStages(prev => {
-                    // Create a map of existing stages for quick lookup
-                    const existingStagesMap = new Map(prev.map(s => [s.id, s]));
-                    
-                    // Process each stage from the update
-                    const updatedStages = updateData.stages!.map(newStage => {
-                      const existing = existingStagesMap.get(newStage.id);
-                      return {
-                        id: newStage.id,
-                        name: newStage.name,
-                        description: newStage.description,
-                        completed: existing?.completed || false,
-                        reasoningTree: newStage.reasoningTree || existing?.reasoningTree,
-                        analysis: newStage.analysis || existing?.analysis,
-                        reasoningComplete: newStage.reasoningComplete ?? existing?.reasoningComplete ?? false,
-                        analysisComplete: newStage.analysisComplete ?? existing?.analysisComplete ?? false
-                      };
-                    });
-
-                    console.log("Updated stages:", updatedStages);
-                    return updatedStages;
-                  });
-                }
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/deep-research/${researchId}`, {
+        method: "DELETE",
+      });
 
-                // Then handle individual stage updates
-                if (updateData.stage) {
-                  const newStage: ResearchStage = {
-                    id: updateData.stage.index,
-                    name: updateData.stage.name,
-                    description: updateData.stage.description,
-                    completed: false,
-                    reasoningTree: updateData.stage.reasoningTree,
-                    reasoningComplete: false,
-                    analysisComplete: false
-                  };
-
-                  setStages(prev => {
-                    // Find if this stage already exists
-                    const existingIndex = prev.findIndex(s => s.id === newStage.id);
-                    
-                    if (existingIndex === -1) {
-                      // If it's a new stage, add it
-                      return [...prev, newStage];
-                    } else {
-                      // If it exists, update it while preserving existing properties
-                      return prev.map((stage, index) => 
-                        index === existingIndex ? {
-                          ...stage,
-                          ...newStage,
-                          // Preserve completion states unless explicitly provided
-                          reasoningComplete: newStage.reasoningComplete ?? stage.reasoningComplete,
-                          analysisComplete: newStage.analysisComplete ?? stage.analysisComplete,
-                          // Properly merge reasoning trees using a Map for deduplication by query
-                          reasoningTree: {
-                            nodes: (() => {
-                              // Create a Map using query as the key for deduplication
-                              const nodeMap = new Map(
-                                (stage.reasoningTree?.nodes || []).map(node => [node.query, node])
-                              );
-                              
-                              // Update or add new nodes, preferring newer nodes for the same query
-                              (newStage.reasoningTree?.nodes || []).forEach(node => {
-                                // If we have an existing node with this query
-                                const existingNode = nodeMap.get(node.query);
-                                if (existingNode) {
-                                  // Only update if the new node has more information
-                                  if (node.findings.length > existingNode.findings.length ||
-                                      node.children.length > existingNode.children.length ||
-                                      node.reflection !== undefined) {
-                                    nodeMap.set(node.query, node);
-                                  }
-                                } else {
-                                  // No existing node with this query, add the new one
-                                  nodeMap.set(node.query, node);
-                                }
-                              });
-                              
-                              // Convert back to array
-                              return Array.from(nodeMap.values());
-                            })()
-                          }
-                        } : stage
-                      );
-                    }
-                  });
+      if (!response.ok) {
+        console.error("Failed to cancel research:", response.status);
+        setIsCancelling(false);
+      }
+    } catch (error) {
+      console.error("Error cancelling research:", error);
+      setIsCancelling(false);
+    }
+  };
 
-                  // Only update selected stage if it's not already selected
-                  if (selectedStage !== updateData.stage.index) {
-                    setSelectedStage(updateData.stage.index);
-                  }
-                }
+  const handleApprovePlan = async (plan: ResearchPlanStage[]) => {
+    if (!researchId || isApprovingPlan) return;
 
-                // Handle completion
-                if (updateData.eventType === 'complete' && updateData.completed) {
-                  console.log("Research complete, setting final report");
-                  console.log("Final analysis:", updateData.analysis);
-                  setFinalReport(updateData.analysis || null);
-                  setIsLoading(false);
-                  reader.cancel();
-                  break;
-                }
-              } else {
-                console.log("Event has no data property:", event);
-              }
-            } catch (error) {
-              console.error("Error processing line:", error);
-              console.log("Problematic line:", line);
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Error in stream reading:", error);
+    setIsApprovingPlan(true);
+    try {
+      const response = await fetch(`/api/deep-research/${researchId}/plan`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ stages: plan }),
+      });
+
+      if (!response.ok) {
+        console.error("Failed to approve research plan:", response.status);
+        setIsApprovingPlan(false);
       }
     } catch (error) {
-      console.error("Error in research:", error);
+      console.error("Error approving research plan:", error);
+      setIsApprovingPlan(false);
+    }
+  };
+
+  // Send a steering instruction to the running job, resolving with whether
+  // it was accepted
+  const handleSteer = async (instruction: SteeringInstruction) => {
+    if (!researchId) return false;
+
+    setIsSteering(true);
+    try {
+      const response = await fetch(`/api/deep-research/${researchId}/steer`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(instruction),
+      });
+
+      if (!response.ok) {
+        console.error("Failed to steer research:", response.status);
+      }
+      return response.ok;
+    } catch (error) {
+      console.error("Error steering research:", error);
+      return false;
     } finally {
-      console.log("Request complete");
-      setIsLoading(false);
-      setIsInputVisible(true);
-      setTimeout(() => inputRef.current?.focus(), 300);
+      setIsSteering(false);
     }
   };
 
@@ -548,10 +767,14 @@ export function DeepResearchChat() {
   };
 
   const handleNewChat = () => {
+    clearActiveResearch();
     setUserQuery("");
     setUpdates([]);
     setStages([]);
     setFinalReport(null);
+    setPartialReportNotice(null);
+    setCitationVerification(null);
+    setReportId(null);
     setIsLoading(false);
   };
 
@@ -673,11 +896,38 @@ export function DeepResearchChat() {
                       selectedStage={selectedStage}
                       onStageSelect={setSelectedStage}
                       configuration={configuration}
+                      onApprovePlan={handleApprovePlan}
+                      isApprovingPlan={isApprovingPlan}
+                      onSteer={isLoading && researchId ? handleSteer : undefined}
+                      isSteering={isSteering}
                     />
                   </div>
                 </div>
               )}
 
+              {/* Partial report notice */}
+              {finalReport && partialReportNotice && (
+                <div className="px-4 py-2 rounded-lg text-sm bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 border border-amber-300 dark:border-amber-800">
+                  Partial report: {partialReportNotice}
+                </div>
+              )}
+
+              {/* Report export */}
+              {finalReport && reportId && (
+                <div className="flex justify-end gap-2 max-w-3xl">
+                  <button
+                    onClick={handleRefresh}
+                    disabled={isLoading}
+                    title="Research again for content published since this report"
+                    className="flex items-center gap-2 py-2 px-3 rounded-full text-xs font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-200 dark:hover:bg-zinc-700/50 transition-colors disabled:opacity-50"
+                  >
+                    <RefreshCw size={14} />
+                    <span>Refresh Report</span>
+                  </button>
+                  <ReportExportMenu researchId={reportId} />
+                </div>
+              )}
+
               {/* Final report */}
               {finalReport && (
                 <DeepResearchMessage 
@@ -685,6 +935,17 @@ export function DeepResearchChat() {
                   content={finalReport}
                 />
               )}
+
+              {/* Sources with their archived text */}
+              {finalReport && <ReportSources stages={stages} />}
+
+              {/* Citation verification */}
+              {finalReport && citationVerification && (
+                <CitationVerificationPanel verification={citationVerification} />
+              )}
+
+              {/* Follow-up questions on the report */}
+              {finalReport && reportId && <ReportChat researchId={reportId} />}
             </>
           )}
 
@@ -753,6 +1014,9 @@ export function DeepResearchChat() {
                     isExpanded={isConfigExpanded}
                     onToggleExpand={() => setIsConfigExpanded(!isConfigExpanded)}
                   />
+
+                  {/* Research schedules */}
+                  <ResearchSchedules topic={userQuery} configuration={configuration} />
                   
                   {/* Deep Research status indicator - only show if deep research is enabled */}
                   {isDeepResearchEnabled() && (
@@ -831,18 +1095,34 @@ export function DeepResearchChat() {
                     )}
                   </div>
                   
-                  {/* Submit button */}
-                  <button 
-                    type="submit"
-                    className="p-2 ml-1 rounded-full bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none"
-                    disabled={!userQuery.trim() || isLoading}
-                  >
-                    {isLoading ? (
-                      <div className="h-5 w-5 border-t-2 border-current rounded-full animate-spin"></div>
-                    ) : (
-                      <ArrowUp size={20} />
-                    )}
-                  </button>
+                  {/* Stop button - replaces submit while a run is in progress */}
+                  {isLoading && researchId ? (
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="p-2 ml-1 rounded-full bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none"
+                      disabled={isCancelling}
+                      title="Stop research"
+                    >
+                      {isCancelling ? (
+                        <Loader2 size={20} className="animate-spin" />
+                      ) : (
+                        <Square size={20} className="fill-current" />
+                      )}
+                    </button>
+                  ) : (
+                    <button 
+                      type="submit"
+                      className="p-2 ml-1 rounded-full bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none"
+                      disabled={!userQuery.trim() || isLoading}
+                    >
+                      {isLoading ? (
+                        <div className="h-5 w-5 border-t-2 border-current rounded-full animate-spin"></div>
+                      ) : (
+                        <ArrowUp size={20} />
+                      )}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
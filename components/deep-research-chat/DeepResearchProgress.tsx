@@ -2,6 +2,14 @@
 
 import { cn } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { TokenSummary } from "./types";
+import { formatCost, formatTokenCount } from "./utils";
 
 interface DeepResearchProgressProps {
   percent: number;
@@ -13,6 +21,7 @@ interface DeepResearchProgressProps {
     maxDepth?: number;
     nodesWithFindings?: number;
   };
+  tokenUsage?: TokenSummary | null;
 }
 
 export function DeepResearchProgress({ 
@@ -20,7 +29,8 @@ export function DeepResearchProgress({
   currentStep = "Researching...", 
   agent,
   className,
-  tree
+  tree,
+  tokenUsage
 }: DeepResearchProgressProps) {
   // Ensure percent is a number and clamp it between 0 and 100
   const normalizedPercent = Math.min(Math.max(Number(percent) || 0, 0), 100);
@@ -41,6 +51,41 @@ export function DeepResearchProgress({
           <span>{normalizedPercent.toFixed(0)}% complete</span>
           {agent && <span>{agent}</span>}
         </div>
+
+        {/* Running token usage and cost */}
+        {tokenUsage && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <p className="text-xs text-white/60 cursor-default">
+                  {formatTokenCount(tokenUsage.totalTokens)} tokens • {formatCost(tokenUsage.cost)}
+                </p>
+              </TooltipTrigger>
+              <TooltipContent side="right" className="bg-zinc-800 text-white border-zinc-700">
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-white/80 p-1">
+                  <span>Prompt</span>
+                  <span>{tokenUsage.promptTokens.toLocaleString()}</span>
+                  <span>Completion</span>
+                  <span>{tokenUsage.completionTokens.toLocaleString()}</span>
+                  {tokenUsage.cachedPromptTokens > 0 && (
+                    <>
+                      <span>Cached prompt</span>
+                      <span>{tokenUsage.cachedPromptTokens.toLocaleString()}</span>
+                    </>
+                  )}
+                  {tokenUsage.reasoningTokens > 0 && (
+                    <>
+                      <span>Reasoning</span>
+                      <span>{tokenUsage.reasoningTokens.toLocaleString()}</span>
+                    </>
+                  )}
+                  <span>Cost</span>
+                  <span>${tokenUsage.cost.toFixed(4)}</span>
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
       </div>
     </div>
   );
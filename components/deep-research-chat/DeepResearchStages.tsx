@@ -2,6 +2,9 @@
 
 import { cn } from "@/lib/utils";
 import { Check, ChevronRight, Info } from "lucide-react";
+import { getExpectedNodesPerStage } from "./utils";
+import { ResearchPlanEditor } from "./ResearchPlanEditor";
+import { ResearchPlanStage, ResearchStage } from "./types";
 
 interface ResearchConfiguration {
   maxDepth: number;
@@ -10,33 +13,25 @@ interface ResearchConfiguration {
   queriesPerStage: number;
 }
 
-interface ResearchStage {
-  id: number;
-  name: string;
-  description: string;
-  completed: boolean;
-  reasoningComplete?: boolean;
-  analysisComplete?: boolean;
-  reasoningTree?: {
-    nodes: Array<{
-      depth: number;
-      findings: any[];
-    }>;
-  };
-}
-
 interface DeepResearchStagesProps {
   stages: ResearchStage[];
   selectedStage: number;
   onStageSelect: (index: number) => void;
   configuration?: ResearchConfiguration;
+  // The run is paused for the plan to be reviewed
+  awaitingApproval?: boolean;
+  onApprovePlan?: (plan: ResearchPlanStage[]) => void;
+  isApprovingPlan?: boolean;
 }
 
 export function DeepResearchStages({ 
   stages, 
   selectedStage, 
   onStageSelect,
-  configuration
+  configuration,
+  awaitingApproval = false,
+  onApprovePlan,
+  isApprovingPlan = false
 }: DeepResearchStagesProps) {
   // Calculate stage progress
   const getStageProgress = (stage: ResearchStage) => {
@@ -60,10 +55,24 @@ export function DeepResearchStages({
   // Get expected nodes for a stage based on configuration
   const getExpectedNodes = (configuration?: ResearchConfiguration) => {
     if (!configuration) return 0;
-    return configuration.queriesPerStage + 
-           (configuration.maxDepth > 1 ? configuration.maxBreadth : 0);
+    return getExpectedNodesPerStage(configuration);
   };
 
+  if (awaitingApproval && onApprovePlan) {
+    return (
+      <div className="p-4 space-y-4">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+          Research Plan
+        </h2>
+        <ResearchPlanEditor
+          stages={stages}
+          onApprove={onApprovePlan}
+          isApproving={isApprovingPlan}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="p-4 space-y-4">
       <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { Brain, ChevronDown, ChevronUp } from "lucide-react";
+import { ReasoningModuleCatalogName, ResearchStage } from "./types";
+
+interface ReasoningStrategiesProps {
+  strategies: NonNullable<ResearchStage["reasoningStrategies"]>;
+}
+
+const CATALOG_LABELS: Record<ReasoningModuleCatalogName, string> = {
+  planning: "Planning",
+  followUp: "Follow-up queries",
+  analysis: "Analysis",
+};
+
+export function ReasoningStrategies({ strategies }: ReasoningStrategiesProps) {
+  const [expanded, setExpanded] = useState(false);
+  const entries = (Object.keys(CATALOG_LABELS) as ReasoningModuleCatalogName[])
+    .map((catalog) => ({ catalog, strategy: strategies[catalog] }))
+    .filter(({ strategy }) => strategy && strategy.modules.length > 0);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-zinc-700/50 bg-zinc-800/50 text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2 text-left text-white/80"
+      >
+        <div className="flex items-center gap-2">
+          <Brain size={16} className="text-zinc-400" />
+          <span className="font-medium">Reasoning strategy</span>
+          <span className="text-xs text-white/50">
+            {entries.map(({ catalog }) => CATALOG_LABELS[catalog]).join(", ")}
+          </span>
+        </div>
+        {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-zinc-700/50 px-4 py-3 space-y-3">
+          {entries.map(({ catalog, strategy }) => (
+            <div key={catalog}>
+              <div className="text-xs font-medium text-white/60 mb-1">
+                {CATALOG_LABELS[catalog]}
+              </div>
+              <ol className="space-y-1">
+                {strategy!.modules.map((module) => (
+                  <li key={module.id} className="flex items-start gap-2">
+                    <span
+                      className="px-1.5 py-0.5 rounded bg-zinc-700/60 text-[10px] font-mono text-zinc-300 flex-shrink-0"
+                      title={module.description}
+                    >
+                      {module.id}
+                    </span>
+                    <span className="text-white/70">{module.adapted}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowUp, Loader2, MessageSquare, Search } from "lucide-react";
+import { DeepResearchMessage } from "./DeepResearchMessage";
+import { ReportAnswer } from "./types";
+
+interface ReportChatProps {
+  researchId: string;
+}
+
+/**
+ * Read the answer stream until the event that finishes the given question
+ */
+async function readAnswer(
+  response: Response,
+  questionId: string,
+  onProgress: (message: string) => void
+): Promise<ReportAnswer> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No reader available");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const data = JSON.parse(line).data;
+        if (data?.questionId !== questionId) continue;
+
+        if (data.eventType === "complete" && data.answer) return data.answer;
+        if (data.eventType === "error") throw new Error(data.message);
+        onProgress(data.message);
+      }
+    }
+  } finally {
+    await reader.cancel();
+  }
+
+  throw new Error("The answer stream ended before the question was answered");
+}
+
+/**
+ * Ask follow-up questions about a finished report, answered from the
+ * research behind it
+ */
+export function ReportChat({ researchId }: ReportChatProps) {
+  const [answers, setAnswers] = useState<ReportAnswer[]>([]);
+  const [question, setQuestion] = useState("");
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the questions already asked about this report
+  useEffect(() => {
+    fetch(`/api/deep-research/${researchId}/ask`)
+      .then((response) => (response.ok ? response.json() : { answers: [] }))
+      .then((data) => setAnswers(data.answers || []))
+      .catch((err) => console.error("Error loading follow-up answers:", err));
+  }, [researchId]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked || pendingQuestion) return;
+
+    setPendingQuestion(asked);
+    setQuestion("");
+    setStatus(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/deep-research/${researchId}/ask`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ question: asked }),
+      });
+
+      const questionId = response.headers.get("X-Question-Id");
+      if (!response.ok || !questionId) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed with ${response.status}`);
+      }
+
+      const answer = await readAnswer(response, questionId, setStatus);
+      setAnswers((previous) => [...previous, answer]);
+    } catch (err) {
+      console.error("Error asking follow-up question:", err);
+      setError(err instanceof Error ? err.message : "Failed to answer the question");
+      setQuestion(asked);
+    } finally {
+      setPendingQuestion(null);
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex items-center gap-2 text-sm font-medium text-zinc-800 dark:text-zinc-200">
+        <MessageSquare size={16} className="text-zinc-500" />
+        Ask about this report
+      </div>
+
+      {answers.map((answer) => (
+        <div key={answer.id} className="space-y-2">
+          <DeepResearchMessage role="user" content={answer.question} />
+          {answer.searchQuery && (
+            <div className="flex items-center gap-1 text-xs text-zinc-500">
+              <Search size={12} />
+              Not covered by the report, searched for: {answer.searchQuery}
+            </div>
+          )}
+          <DeepResearchMessage role="assistant" content={answer.answer} />
+          {answer.sources.length > 0 && (
+            <ol className="ml-4 space-y-1 text-xs">
+              {answer.sources.map((source) => (
+                <li key={source.url} className="flex items-center gap-2">
+                  <span className="font-mono text-zinc-500 flex-shrink-0">{source.marker}</span>
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate text-blue-600 dark:text-blue-400 hover:underline"
+                    title={source.url}
+                  >
+                    {source.title || source.url}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+
+      {pendingQuestion && (
+        <div className="space-y-2">
+          <DeepResearchMessage role="user" content={pendingQuestion} />
+          <div className="flex items-center gap-2 text-sm text-zinc-500">
+            <Loader2 size={14} className="animate-spin" />
+            {status || "Answering..."}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="px-3 py-2 rounded-lg text-sm bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border border-red-300 dark:border-red-800">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAsk} className="flex items-end gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk(e as unknown as React.FormEvent);
+            }
+          }}
+          placeholder="Ask a follow-up question about the report"
+          rows={2}
+          className="flex-1 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-white resize-none focus:outline-none focus:border-zinc-500"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || Boolean(pendingQuestion)}
+          className="p-2 rounded-full bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900 hover:opacity-90 disabled:opacity-50"
+          title="Ask"
+        >
+          {pendingQuestion ? <Loader2 size={16} className="animate-spin" /> : <ArrowUp size={16} />}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ReportExportMenuProps {
+  researchId: string;
+}
+
+const EXPORT_OPTIONS = [
+  { format: "pdf", label: "PDF document" },
+  { format: "docx", label: "Word document" },
+  { format: "html", label: "Web page (HTML)" },
+  { format: "md", label: "Markdown" },
+  { format: "bibtex", label: "References (BibTeX)" },
+  { format: "csl-json", label: "References (CSL-JSON)" },
+];
+
+export function ReportExportMenu({ researchId }: ReportExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex items-center gap-2 py-2 px-3 rounded-full text-xs font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-200 dark:hover:bg-zinc-700/50 transition-colors"
+        >
+          <Download size={14} />
+          <span>Export Report</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        {EXPORT_OPTIONS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a
+              href={`/api/deep-research/${researchId}/export?format=${format}`}
+              download
+            >
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { BookOpen, ChevronDown, ChevronUp, FileText } from "lucide-react";
+import { Finding, ResearchStage } from "./types";
+
+interface ReportSourcesProps {
+  stages: ResearchStage[];
+}
+
+/**
+ * Unique sources in order of first appearance, which is the order the
+ * report numbers its references in
+ */
+function collectSources(stages: ResearchStage[]): Finding[] {
+  const seen = new Set<string>();
+  const sources: Finding[] = [];
+
+  stages.forEach((stage) =>
+    stage.reasoningTree?.nodes.forEach((node) =>
+      node.findings.forEach((finding) => {
+        if (seen.has(finding.source)) return;
+        seen.add(finding.source);
+        sources.push(finding);
+      })
+    )
+  );
+
+  return sources;
+}
+
+export function ReportSources({ stages }: ReportSourcesProps) {
+  const [expanded, setExpanded] = useState(false);
+  const sources = collectSources(stages);
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="max-w-3xl rounded-lg border border-zinc-300 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-900 text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <BookOpen size={16} className="text-zinc-500" />
+          <span className="font-medium text-zinc-800 dark:text-zinc-200">
+            Sources ({sources.length})
+          </span>
+        </div>
+        {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {expanded && (
+        <ol className="border-t border-zinc-300 dark:border-zinc-700 divide-y divide-zinc-200 dark:divide-zinc-800">
+          {sources.map((source, index) => (
+            <li key={source.source} className="px-4 py-2 flex items-center gap-3">
+              <span className="font-mono text-xs text-zinc-500 flex-shrink-0">
+                [{index + 1}]
+              </span>
+              <a
+                href={source.source}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 min-w-0 truncate text-blue-600 dark:text-blue-400 hover:underline"
+                title={source.source}
+              >
+                {source.title || source.source}
+              </a>
+              {source.sourceRef && (
+                <a
+                  href={`/api/deep-research/sources/${source.sourceRef.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 flex-shrink-0"
+                  title={`Full text as fetched on ${new Date(source.sourceRef.fetchedAt).toLocaleString()}`}
+                >
+                  <FileText size={14} />
+                  Archived text
+                </a>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,22 @@
 "use client";
 
 import { Sliders } from "lucide-react";
+import { cn } from "@/lib/utils";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { SearchFilters } from "./types";
 
 interface ResearchConfiguration {
   maxDepth: number;
   maxBreadth: number;
   stageCount: number;
   queriesPerStage: number;
+  citationStyle?: string;
+  requirePlanApproval?: boolean;
+  searchFilters?: SearchFilters;
 }
 
 interface ResearchConfigurationProps {
@@ -28,13 +33,41 @@ const CONFIG_LIMITS = {
   queriesPerStage: { min: 1, max: 5, default: 3, label: "Queries per Stage" }
 };
 
+const CITATION_STYLE_OPTIONS = [
+  { value: "ieee", label: "IEEE" },
+  { value: "apa", label: "APA" },
+  { value: "mla", label: "MLA" },
+  { value: "chicago", label: "Chicago" }
+];
+
+const SEARCH_CATEGORY_OPTIONS: { value?: SearchFilters["category"]; label: string }[] = [
+  { value: undefined, label: "Any" },
+  { value: "news", label: "News" },
+  { value: "research paper", label: "Papers" },
+  { value: "company", label: "Company" }
+];
+
+const SEARCH_LANGUAGE_OPTIONS = [
+  { value: "", label: "Any language" },
+  { value: "en", label: "English" },
+  { value: "de", label: "German" },
+  { value: "fr", label: "French" },
+  { value: "es", label: "Spanish" },
+  { value: "it", label: "Italian" },
+  { value: "pt", label: "Portuguese" },
+  { value: "nl", label: "Dutch" }
+];
+
+const FILTER_INPUT_CLASS =
+  "w-full rounded border border-zinc-300 dark:border-zinc-700 bg-transparent px-2 py-1 text-xs text-zinc-800 dark:text-zinc-200";
+
 export function ResearchConfiguration({
   configuration,
   onConfigurationChange,
   isExpanded,
   onToggleExpand
 }: ResearchConfigurationProps) {
-  const handleChange = (key: keyof ResearchConfiguration, value: number) => {
+  const handleChange = (key: keyof typeof CONFIG_LIMITS, value: number) => {
     const limits = CONFIG_LIMITS[key];
     const clampedValue = Math.min(Math.max(value, limits.min), limits.max);
     onConfigurationChange({
@@ -43,6 +76,25 @@ export function ResearchConfiguration({
     });
   };
 
+  const filters = configuration.searchFilters || {};
+  const handleFilterChange = (changes: Partial<SearchFilters>) => {
+    const searchFilters = Object.fromEntries(
+      Object.entries({ ...filters, ...changes }).filter(
+        ([, value]) => value !== undefined && value !== ""
+      )
+    ) as SearchFilters;
+    onConfigurationChange({
+      ...configuration,
+      searchFilters: Object.keys(searchFilters).length > 0 ? searchFilters : undefined
+    });
+  };
+  // Domains are typed comma separated; empty entries are kept while typing
+  // and dropped by the server
+  const handleDomainsChange = (key: "includeDomains" | "excludeDomains", value: string) =>
+    handleFilterChange({
+      [key]: value.trim() ? value.split(",").map((domain) => domain.trim()) : undefined
+    });
+
   return (
     <DropdownMenu open={isExpanded} onOpenChange={onToggleExpand}>
       <DropdownMenuTrigger asChild>
@@ -81,6 +133,99 @@ export function ResearchConfiguration({
             </div>
           </div>
         ))}
+        <label className="flex items-center gap-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={configuration.requirePlanApproval || false}
+            onChange={(e) => onConfigurationChange({ ...configuration, requirePlanApproval: e.target.checked })}
+          />
+          Review plan before research
+        </label>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Citation Style
+          </label>
+          <div className="grid grid-cols-4 gap-1">
+            {CITATION_STYLE_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onConfigurationChange({ ...configuration, citationStyle: value })}
+                className={cn(
+                  "py-1 rounded text-xs border transition-colors",
+                  (configuration.citationStyle || "ieee") === value
+                    ? "bg-zinc-800 text-white border-zinc-800 dark:bg-zinc-200 dark:text-zinc-900 dark:border-zinc-200"
+                    : "text-zinc-600 dark:text-zinc-400 border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Search Filters
+          </label>
+          <input
+            value={filters.includeDomains?.join(", ") || ""}
+            onChange={(e) => handleDomainsChange("includeDomains", e.target.value)}
+            placeholder="Only these domains, e.g. nature.com"
+            className={FILTER_INPUT_CLASS}
+          />
+          <input
+            value={filters.excludeDomains?.join(", ") || ""}
+            onChange={(e) => handleDomainsChange("excludeDomains", e.target.value)}
+            placeholder="Never these domains"
+            className={FILTER_INPUT_CLASS}
+          />
+          <div className="grid grid-cols-2 gap-1">
+            <input
+              type="date"
+              title="Published on or after"
+              value={filters.startPublishedDate || ""}
+              max={filters.endPublishedDate}
+              onChange={(e) => handleFilterChange({ startPublishedDate: e.target.value })}
+              className={FILTER_INPUT_CLASS}
+            />
+            <input
+              type="date"
+              title="Published on or before"
+              value={filters.endPublishedDate || ""}
+              min={filters.startPublishedDate}
+              onChange={(e) => handleFilterChange({ endPublishedDate: e.target.value })}
+              className={FILTER_INPUT_CLASS}
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {SEARCH_CATEGORY_OPTIONS.map(({ value, label }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => handleFilterChange({ category: value })}
+                className={cn(
+                  "py-1 rounded text-xs border transition-colors",
+                  filters.category === value
+                    ? "bg-zinc-800 text-white border-zinc-800 dark:bg-zinc-200 dark:text-zinc-900 dark:border-zinc-200"
+                    : "text-zinc-600 dark:text-zinc-400 border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={filters.language || ""}
+            onChange={(e) => handleFilterChange({ language: e.target.value })}
+            className={FILTER_INPUT_CLASS}
+          >
+            {SEARCH_LANGUAGE_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Check, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ResearchPlanStage, ResearchStage } from "./types";
+
+const PLAN_LIMITS = {
+  maxStages: 5,
+  maxQueriesPerStage: 5,
+};
+
+interface ResearchPlanEditorProps {
+  stages: ResearchStage[];
+  onApprove: (plan: ResearchPlanStage[]) => void;
+  isApproving?: boolean;
+}
+
+function toPlan(stages: ResearchStage[]): ResearchPlanStage[] {
+  return stages.map((stage) => ({
+    id: stage.id,
+    name: stage.name,
+    description: stage.description,
+    queries: (stage.reasoningTree?.nodes || [])
+      .filter((node) => node.depth === 0)
+      .map((node) => ({ id: node.id, query: node.query })),
+  }));
+}
+
+/**
+ * Move an item one place up or down in a list
+ */
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+const inputClassName =
+  "w-full rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-2 py-1 text-sm text-zinc-900 dark:text-white focus:outline-none focus:border-zinc-500";
+
+const iconButtonClassName =
+  "p-1 rounded text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+/**
+ * Lets the user edit, delete, reorder and add stages and initial queries
+ * before the research starts
+ */
+export function ResearchPlanEditor({ stages, onApprove, isApproving = false }: ResearchPlanEditorProps) {
+  const [plan, setPlan] = useState<ResearchPlanStage[]>(() => toPlan(stages));
+
+  const updateStage = (index: number, changes: Partial<ResearchPlanStage>) => {
+    setPlan(plan.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const updateQuery = (stageIndex: number, queryIndex: number, query: string) => {
+    updateStage(stageIndex, {
+      queries: plan[stageIndex].queries.map((q, i) => (i === queryIndex ? { ...q, query } : q)),
+    });
+  };
+
+  const isValid =
+    plan.length > 0 &&
+    plan.every(
+      (stage) =>
+        stage.name.trim() &&
+        stage.queries.length > 0 &&
+        stage.queries.every((q) => q.query.trim())
+    );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        Review the plan before research begins. Edit, remove, reorder or add stages and queries, then approve it.
+      </p>
+
+      {plan.map((stage, stageIndex) => (
+        <div
+          key={stage.id ?? `new-${stageIndex}`}
+          className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-2 space-y-2"
+        >
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-mono text-zinc-500 flex-shrink-0">{stageIndex + 1}.</span>
+            <input
+              value={stage.name}
+              onChange={(e) => updateStage(stageIndex, { name: e.target.value })}
+              placeholder="Stage name"
+              className={cn(inputClassName, "font-medium")}
+            />
+            <button
+              type="button"
+              onClick={() => setPlan(move(plan, stageIndex, -1))}
+              disabled={stageIndex === 0}
+              className={iconButtonClassName}
+              title="Move stage up"
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setPlan(move(plan, stageIndex, 1))}
+              disabled={stageIndex === plan.length - 1}
+              className={iconButtonClassName}
+              title="Move stage down"
+            >
+              <ArrowDown size={14} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setPlan(plan.filter((_, i) => i !== stageIndex))}
+              disabled={plan.length === 1}
+              className={iconButtonClassName}
+              title="Remove stage"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <textarea
+            value={stage.description}
+            onChange={(e) => updateStage(stageIndex, { description: e.target.value })}
+            placeholder="What this stage explores"
+            rows={2}
+            className={cn(inputClassName, "text-xs resize-y")}
+          />
+
+          <div className="space-y-1">
+            {stage.queries.map((query, queryIndex) => (
+              <div key={query.id ?? `new-${queryIndex}`} className="flex items-center gap-1">
+                <input
+                  value={query.query}
+                  onChange={(e) => updateQuery(stageIndex, queryIndex, e.target.value)}
+                  placeholder="Research query"
+                  className={cn(inputClassName, "text-xs")}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateStage(stageIndex, { queries: move(stage.queries, queryIndex, -1) })}
+                  disabled={queryIndex === 0}
+                  className={iconButtonClassName}
+                  title="Move query up"
+                >
+                  <ArrowUp size={12} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateStage(stageIndex, {
+                      queries: stage.queries.filter((_, i) => i !== queryIndex),
+                    })
+                  }
+                  disabled={stage.queries.length === 1}
+                  className={iconButtonClassName}
+                  title="Remove query"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            {stage.queries.length < PLAN_LIMITS.maxQueriesPerStage && (
+              <button
+                type="button"
+                onClick={() => updateStage(stageIndex, { queries: [...stage.queries, { query: "" }] })}
+                className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200"
+              >
+                <Plus size={12} />
+                Add query
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setPlan([...plan, { name: "", description: "", queries: [{ query: "" }] }])}
+          disabled={plan.length >= PLAN_LIMITS.maxStages}
+          className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 disabled:opacity-30"
+        >
+          <Plus size={14} />
+          Add stage
+        </button>
+        <button
+          type="button"
+          onClick={() => onApprove(plan)}
+          disabled={!isValid || isApproving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-medium bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900 hover:opacity-90 disabled:opacity-50"
+        >
+          {isApproving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+          Approve plan
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarClock, ChevronDown, ChevronRight, Loader2, Pause, Play, Trash2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ResearchRunSummary, ResearchSchedule } from "./types";
+
+interface ResearchSchedulesProps {
+  // The topic and configuration a new schedule is created with
+  topic: string;
+  configuration: object;
+}
+
+const CRON_PRESETS = [
+  { cron: "0 8 * * 1", label: "Mondays 08:00" },
+  { cron: "0 8 * * *", label: "Daily 08:00" },
+  { cron: "0 8 1 * *", label: "Monthly, 1st 08:00" },
+];
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+/**
+ * The runs a schedule started, each linking to its report
+ */
+function ScheduleRuns({ scheduleId }: { scheduleId: string }) {
+  const [runs, setRuns] = useState<ResearchRunSummary[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/deep-research/schedules/${scheduleId}/runs`)
+      .then((response) => (response.ok ? response.json() : { runs: [] }))
+      .then((data) => setRuns(data.runs || []))
+      .catch((err) => {
+        console.error("Error loading scheduled runs:", err);
+        setRuns([]);
+      });
+  }, [scheduleId]);
+
+  if (!runs) return <Loader2 className="h-3 w-3 animate-spin text-zinc-400" />;
+  if (runs.length === 0) return <p className="text-xs text-zinc-500">No runs yet</p>;
+
+  return (
+    <ul className="space-y-1">
+      {runs.map((run) => (
+        <li key={run.uuid} className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+          <span>{formatTime(run.createdAt)}</span>
+          {run.status === "completed" ? (
+            <a
+              href={`/api/deep-research/${run.uuid}/export?format=html`}
+              target="_blank"
+              rel="noreferrer"
+              className="text-zinc-700 dark:text-zinc-300 underline"
+            >
+              Report
+            </a>
+          ) : (
+            <span>{run.status}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Schedule the current topic to be researched on a cron schedule, and
+ * manage existing schedules and their reports
+ */
+export function ResearchSchedules({ topic, configuration }: ResearchSchedulesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [schedules, setSchedules] = useState<ResearchSchedule[]>([]);
+  const [cron, setCron] = useState(CRON_PRESETS[0].cron);
+  const [recipients, setRecipients] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch("/api/deep-research/schedules")
+      .then((response) => (response.ok ? response.json() : { schedules: [] }))
+      .then((data) => setSchedules(data.schedules || []))
+      .catch((err) => console.error("Error loading schedules:", err));
+  }, [isOpen]);
+
+  // Send a change to the schedules API, resolving with the response body or
+  // null after showing the error
+  const send = async (url: string, method: string, body?: object) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body && JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "The schedule could not be saved");
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error("Error saving schedule:", err);
+      setError("The schedule could not be saved");
+      return null;
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const schedule = await send("/api/deep-research/schedules", "POST", {
+      topic,
+      configuration,
+      cron,
+      recipients: recipients.split(",").map((recipient) => recipient.trim()).filter(Boolean),
+    });
+    if (schedule) {
+      setSchedules([schedule, ...schedules]);
+      setRecipients("");
+    }
+    setIsSaving(false);
+  };
+
+  const handleToggle = async (schedule: ResearchSchedule) => {
+    const updated = await send(`/api/deep-research/schedules/${schedule.id}`, "PATCH", {
+      enabled: !schedule.enabled,
+    });
+    if (updated) {
+      setSchedules(schedules.map((s) => (s.id === updated.id ? updated : s)));
+    }
+  };
+
+  const handleDelete = async (schedule: ResearchSchedule) => {
+    if (await send(`/api/deep-research/schedules/${schedule.id}`, "DELETE")) {
+      setSchedules(schedules.filter((s) => s.id !== schedule.id));
+    }
+  };
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-2 py-2 px-3 rounded-full text-xs font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-200 dark:hover:bg-zinc-700/50 transition-colors"
+        >
+          <CalendarClock size={14} />
+          <span>Schedules</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-80 p-4 space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Schedule this topic
+          </label>
+          <div className="grid grid-cols-3 gap-1">
+            {CRON_PRESETS.map((preset) => (
+              <button
+                key={preset.cron}
+                type="button"
+                onClick={() => setCron(preset.cron)}
+                className="py-1 rounded text-xs border text-zinc-600 dark:text-zinc-400 border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <input
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            placeholder="Cron expression (UTC), e.g. 0 8 * * 1"
+            className="w-full rounded border border-zinc-300 dark:border-zinc-700 bg-transparent px-2 py-1 text-xs font-mono text-zinc-800 dark:text-zinc-200"
+          />
+          <input
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            placeholder="Email reports to (comma separated)"
+            className="w-full rounded border border-zinc-300 dark:border-zinc-700 bg-transparent px-2 py-1 text-xs text-zinc-800 dark:text-zinc-200"
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!topic.trim() || !cron.trim() || isSaving}
+            className="w-full py-1.5 rounded text-xs font-medium bg-zinc-800 text-white dark:bg-zinc-200 dark:text-zinc-900 disabled:opacity-50"
+          >
+            {topic.trim() ? "Schedule" : "Enter a topic to schedule it"}
+          </button>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        {schedules.length > 0 && (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="rounded border border-zinc-200 dark:border-zinc-700 p-2 space-y-1">
+                <div className="flex items-start gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                    className="mt-0.5 text-zinc-500"
+                    aria-label="Show runs"
+                  >
+                    {expandedId === schedule.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-zinc-800 dark:text-zinc-200 truncate">{schedule.topic}</p>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      <span className="font-mono">{schedule.cron}</span> · next {schedule.enabled ? formatTime(schedule.nextRunAt) : "paused"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(schedule)}
+                    className="p-1 text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200"
+                    aria-label={schedule.enabled ? "Pause schedule" : "Resume schedule"}
+                  >
+                    {schedule.enabled ? <Pause size={14} /> : <Play size={14} />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(schedule)}
+                    className="p-1 text-zinc-500 hover:text-red-500"
+                    aria-label="Delete schedule"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {expandedId === schedule.id && (
+                  <div className="pl-5">
+                    <ScheduleRuns scheduleId={schedule.id} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
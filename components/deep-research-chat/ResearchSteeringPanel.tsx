@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Compass, Loader2, Plus } from "lucide-react";
+import { SteeringInstruction } from "./types";
+
+interface ResearchSteeringPanelProps {
+  onSteer: (instruction: SteeringInstruction) => Promise<boolean>;
+  isSteering?: boolean;
+}
+
+/**
+ * Lets the user add a query to the current stage or give the run guidance
+ * while it is in progress
+ */
+export function ResearchSteeringPanel({ onSteer, isSteering = false }: ResearchSteeringPanelProps) {
+  const [text, setText] = useState("");
+
+  const send = async (instruction: SteeringInstruction) => {
+    if (await onSteer(instruction)) setText("");
+  };
+
+  const value = text.trim();
+
+  return (
+    <div className="rounded-lg border border-zinc-700/50 bg-zinc-800/50 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-white/90">
+        <Compass className="h-4 w-4 text-zinc-400" />
+        Steer the research
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="A query to research next, or guidance for the rest of the run"
+        rows={2}
+        className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm text-white resize-y focus:outline-none focus:border-zinc-500"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {isSteering && <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />}
+        <button
+          type="button"
+          onClick={() => send({ type: "add-guidance", guidance: value })}
+          disabled={!value || isSteering}
+          className="px-3 py-1.5 rounded text-xs font-medium text-zinc-300 hover:bg-zinc-700/50 disabled:opacity-50"
+        >
+          Add guidance
+        </button>
+        <button
+          type="button"
+          onClick={() => send({ type: "add-query", query: value })}
+          disabled={!value || isSteering}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-medium bg-zinc-100 text-zinc-900 hover:opacity-90 disabled:opacity-50"
+        >
+          <Plus size={14} />
+          Add query
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500">
+        Changes are picked up before the next research step. Use the <span className="whitespace-nowrap">mark irrelevant</span> button on a query to stop it being expanded.
+      </p>
+    </div>
+  );
+}
@@ -1,8 +1,25 @@
+export interface SourceRef {
+  hash: string;
+  fetchedAt: string;
+  length: number;
+}
+
+export interface SourcePassage {
+  start: number;
+  end: number;
+  score: number;
+}
+
 export interface Finding {
   source: string;
   content: string;
   relevanceScore?: number;
   analysis?: string;
+  title?: string | null;
+  // Archived full text; `content` only holds a preview
+  sourceRef?: SourceRef | null;
+  // Passages of the archived text the analysis was made from
+  passages?: SourcePassage[];
 }
 
 export interface ReasoningNode {
@@ -14,9 +31,26 @@ export interface ReasoningNode {
   findings: Finding[];
   reflection?: string;
   relevanceScore?: number;
+  // Scored too low to be expanded further
+  pruned?: boolean;
+  // Added by the user while the run was in progress
+  addedByUser?: boolean;
+  // Marked irrelevant by the user, so never expanded
+  irrelevant?: boolean;
   children: string[];
 }
 
+export type ReasoningModuleCatalogName = "planning" | "followUp" | "analysis";
+
+export interface ReasoningStrategy {
+  catalog: ReasoningModuleCatalogName;
+  modules: {
+    id: string;
+    description: string;
+    adapted: string;
+  }[];
+}
+
 export interface ResearchStage {
   id: number;
   name: string;
@@ -29,11 +63,108 @@ export interface ResearchStage {
   analysis?: string;
   reasoningComplete?: boolean;
   analysisComplete?: boolean;
+  // Reasoning modules selected and adapted for each kind of task
+  reasoningStrategies?: Partial<Record<ReasoningModuleCatalogName, ReasoningStrategy>>;
+}
+
+export interface TokenSummary {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+export type CitationVerdict = "supported" | "weak" | "unsupported";
+
+export interface CitationCheck {
+  sentence: string;
+  marker: string;
+  source: string | null;
+  title: string | null;
+  verdict: CitationVerdict;
+  explanation: string;
+}
+
+export interface CitationVerification {
+  checks: CitationCheck[];
+  summary: Record<CitationVerdict, number>;
+}
+
+export interface ResearchPlanQuery {
+  id?: string;
+  query: string;
+}
+
+// A stage of the plan as edited before research begins; stages and queries
+// without an id were added by the user
+export interface ResearchPlanStage {
+  id?: number;
+  name: string;
+  description: string;
+  queries: ResearchPlanQuery[];
+}
+
+// Sent to a running research job to steer it
+export type SteeringInstruction =
+  | { type: "add-query"; query: string }
+  | { type: "mark-irrelevant"; nodeId: string }
+  | { type: "add-guidance"; guidance: string };
+
+// A source found by the search behind an answer, numbered after the
+// report's references
+export interface ReportAnswerSource {
+  index: number;
+  marker: string;
+  url: string;
+  title: string | null;
+}
+
+// A follow-up question on a finished report and its answer
+export interface ReportAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  searchQuery: string | null;
+  sources: ReportAnswerSource[];
+  createdAt: string;
+}
+
+// Restrictions applied to every search in a run
+export interface SearchFilters {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  startPublishedDate?: string;
+  endPublishedDate?: string;
+  category?: "news" | "research paper" | "company";
+  language?: string;
+}
+
+// A research topic run on a cron schedule (UTC)
+export interface ResearchSchedule {
+  id: string;
+  topic: string;
+  cron: string;
+  recipients: string[];
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+// A run as listed in run history
+export interface ResearchRunSummary {
+  uuid: string;
+  topic: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  createdAt: string;
+  completedAt: string | null;
 }
 
 export interface ResearchUpdate {
   type: string;
-  eventType?: "progress" | "complete" | "error";
+  eventType?: "progress" | "complete" | "error" | "cancelled";
   message: string;
   timestamp?: string;
   stage?: {
@@ -65,9 +196,22 @@ export interface ResearchUpdate {
     analysis?: string;
     reasoningComplete?: boolean;
     analysisComplete?: boolean;
+    reasoningStrategies?: ResearchStage["reasoningStrategies"];
     reasoningTree?: {
       nodes: ReasoningNode[];
     };
   }>;
   completed?: boolean;
+  partial?: boolean;
+  citationVerification?: CitationVerification | null;
+  // The run is paused until the plan is approved
+  awaitingApproval?: boolean;
+  tokenUsage?: {
+    stage?: {
+      stageId: number;
+      stageName: string;
+      total: TokenSummary;
+    };
+    total: TokenSummary;
+  } | null;
 }
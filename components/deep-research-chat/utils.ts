@@ -7,6 +7,19 @@ interface ResearchConfiguration {
   queriesPerStage: number;
 }
 
+/**
+ * Nodes a stage's tree will have once fully built: the initial queries, then
+ * maxBreadth follow-ups at each deeper level
+ */
+export function getExpectedNodesPerStage(
+  configuration: ResearchConfiguration
+): number {
+  return (
+    configuration.queriesPerStage +
+    Math.max(configuration.maxDepth - 1, 0) * configuration.maxBreadth
+  );
+}
+
 interface ProgressInfo {
   percent: number;
   currentStep: string;
@@ -62,8 +75,7 @@ export function calculateProgress(
   if (currentStage.reasoningTree?.nodes) {
     // Calculate expected total nodes for this stage based on configuration
     const expectedNodesPerStage = configuration
-      ? configuration.queriesPerStage + // Initial queries
-        (configuration.maxDepth > 1 ? configuration.maxBreadth : 0) // Follow-up queries if depth > 1
+      ? getExpectedNodesPerStage(configuration)
       : currentStage.reasoningTree.nodes.length;
 
     const totalQueries = currentStage.reasoningTree.nodes.length;
@@ -123,3 +135,56 @@ export function calculateProgress(
     currentStep,
   };
 }
+
+/**
+ * Format a token count with k/M notation, e.g. 15.2k
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Format a cost in USD, e.g. $0.23
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+const ACTIVE_RESEARCH_KEY = "deep-research:active";
+
+export interface ActiveResearch {
+  uuid: string;
+  topic: string;
+  configuration: ResearchConfiguration;
+}
+
+/**
+ * Remember the in-flight run so it can be resumed after a reload
+ */
+export function saveActiveResearch(research: ActiveResearch) {
+  try {
+    localStorage.setItem(ACTIVE_RESEARCH_KEY, JSON.stringify(research));
+  } catch (error) {
+    console.error("Failed to save active research:", error);
+  }
+}
+
+export function loadActiveResearch(): ActiveResearch | null {
+  try {
+    const stored = localStorage.getItem(ACTIVE_RESEARCH_KEY);
+    return stored ? (JSON.parse(stored) as ActiveResearch) : null;
+  } catch (error) {
+    console.error("Failed to load active research:", error);
+    return null;
+  }
+}
+
+export function clearActiveResearch() {
+  try {
+    localStorage.removeItem(ACTIVE_RESEARCH_KEY);
+  } catch (error) {
+    console.error("Failed to clear active research:", error);
+  }
+}
@@ -1,4 +1,5 @@
-import { createState, createNetwork, openai } from "@inngest/agent-kit";
+import crypto from "crypto";
+import { createState, createNetwork, Network } from "@inngest/agent-kit";
 import { inngest } from "../client";
 import { z } from "zod";
 
@@ -6,6 +7,74 @@ import { z } from "zod";
 import { stagingAgent } from "./deep-research/staging-agent";
 import { reasoningAgent } from "./deep-research/reasoning-agent";
 import { reportingAgent } from "./deep-research/reporting-agent";
+import {
+  cancelRun,
+  claimDueSchedules,
+  createRun,
+  DeepResearchRun,
+  failRun,
+  getRun,
+  getSchedule,
+  listReportAnswers,
+  queueSteering,
+  recordRunEvent,
+  saveReportAnswer,
+  saveRunState,
+  takeSteering,
+} from "./deep-research/runs";
+import { getAgentModel, ModelConfiguration } from "./deep-research/models";
+import {
+  createTokenUsage,
+  getTokenUsageSnapshot,
+  TokenUsage,
+  TokenUsageSnapshot,
+} from "./deep-research/token-tracking";
+import {
+  BudgetExceeded,
+  checkBudget,
+  ResearchBudget,
+} from "./deep-research/budget";
+import { collectUniqueSources } from "./deep-research/citations";
+import { CitationStyleName } from "./deep-research/citation-styles";
+import { CitationVerification } from "./deep-research/citation-verification";
+import { SourceRef } from "./deep-research/source-store";
+import { SourcePassage } from "./deep-research/chunking";
+import { SearchFilters } from "./deep-research/search";
+import {
+  ReasoningModuleCatalogName,
+  ReasoningStrategy,
+} from "./deep-research/self-discover";
+import {
+  applyResearchPlan,
+  PLAN_APPROVAL_TIMEOUT,
+  PlanApproval,
+} from "./deep-research/plan";
+import {
+  applySteering,
+  SteeringEvent,
+  SteeringInstruction,
+} from "./deep-research/steering";
+import {
+  createRunNotification,
+  deliverWebhook,
+  formatNotificationEmail,
+  getEmailTransport,
+  getNotifyEmails,
+  getWebhookUrls,
+} from "./deep-research/notifications";
+import {
+  createRefreshContext,
+  createRefreshStages,
+  RefreshContext,
+  startRefresh,
+  validateRefreshSource,
+} from "./deep-research/refresh";
+import {
+  answerReportQuestion,
+  ReportAnswer,
+  ReportAnswerEvent,
+  ReportQuestion,
+} from "./deep-research/report-chat";
 
 // Reasoning tree related interfaces
 export interface ReasoningStage {
@@ -16,6 +85,13 @@ export interface ReasoningStage {
   reasoningComplete: boolean;
   analysisComplete: boolean;
   analysis?: string;
+  researchedDepth?: number; // Deepest tree level researched so far
+  initialQueriesRefined?: boolean; // Depth 0 queries revised after earlier stages
+  // Reasoning modules selected and adapted for planning, follow-up queries
+  // and analysis of this stage
+  reasoningStrategies?: Partial<
+    Record<ReasoningModuleCatalogName, ReasoningStrategy>
+  >;
 }
 
 export interface ReasoningTree {
@@ -30,6 +106,10 @@ export interface ReasoningNode {
   reasoning: string;
   findings: Finding[];
   reflection?: string;
+  relevanceScore?: number; // 0-1, how much the branch advances the stage goal
+  pruned?: boolean; // Scored too low to be expanded further
+  addedByUser?: boolean; // Added by the user while the run was in progress
+  irrelevant?: boolean; // Marked irrelevant by the user, so never expanded
   children: string[];
 }
 
@@ -37,11 +117,16 @@ export interface Finding {
   source: string;
   content: string;
   analysis?: string;
+  relevanceScore?: number; // 0-1, how much the finding advances the stage goal
   title?: string | null;
   author?: string | null;
   publishedDate?: string | null;
   favicon?: string | null;
   image?: string | null;
+  // Archived full text; `content` only holds a short snippet
+  sourceRef?: SourceRef | null;
+  // Passages of the archived text the analysis was made from
+  passages?: SourcePassage[];
 }
 
 // Define the NetworkState
@@ -56,26 +141,45 @@ export interface NetworkState {
     maxBreadth: number; // Maximum breadth (nodes per level)
     stageCount: number; // Number of research stages
     queriesPerStage: number; // Initial queries per stage
+    models?: ModelConfiguration; // Model used for each role
+    budget?: ResearchBudget; // Hard limits for the run
+    citationStyle?: CitationStyleName; // Reference and inline citation format
+    requirePlanApproval?: boolean; // Pause after staging for the user to review the plan
+    searchFilters?: SearchFilters; // Constraints applied to every search in the run
   };
 
   // Research stages and progress tracking
   reasoningStages?: ReasoningStage[];
   stagingComplete?: boolean;
+  planApproved?: boolean; // The user has reviewed the plan, if required
   currentStageIndex?: number;
   finalAnalysis?: string;
   draftReport?: string; // Initial draft before editing
   finalReport?: string; // Final polished version
+  citationVerification?: CitationVerification; // Verdict for every citation
+  refresh?: RefreshContext; // Set when re-running an earlier run for new content
 
   // Flow control
   networkComplete?: boolean; // Set when the network is complete
+  error?: string; // Set when the research stopped without a report
 
   // Deduplication tracking
   searchedUrls?: Set<string>; // URLs that have already been searched
   analysisCache?: Map<string, string>; // Cache of URL to analysis mapping for reuse
+  passageCache?: Map<string, SourcePassage[]>; // Passages behind each cached analysis
 
   // Citation numbering map (url -> number) generated during reporting
   citations?: Map<string, number>;
 
+  // Token usage and cost per call, node, stage and run
+  tokenUsage?: TokenUsage;
+
+  // Budget tracking
+  startedAt?: number; // Epoch ms when the run started
+  pausedMs?: number; // Time spent waiting on the user, not counted as run time
+  searchCount?: number; // Search provider calls made so far
+  budgetExceeded?: BudgetExceeded; // Set once a budget is hit
+
   // Session tracking
   "session-uuid"?: string;
 }
@@ -85,11 +189,14 @@ interface ProgressEventFinding {
   source: string;
   content: string;
   analysis?: string;
+  relevanceScore?: number;
   title?: string | null;
   author?: string | null;
   publishedDate?: string | null;
   favicon?: string | null;
   image?: string | null;
+  sourceRef?: SourceRef | null;
+  passages?: SourcePassage[];
 }
 
 interface ProgressEventNode {
@@ -100,6 +207,10 @@ interface ProgressEventNode {
   reasoning: string;
   findings: ProgressEventFinding[];
   reflection?: string;
+  relevanceScore?: number;
+  pruned?: boolean;
+  addedByUser?: boolean;
+  irrelevant?: boolean;
   children: string[];
 }
 
@@ -110,14 +221,15 @@ interface ProgressEventStage {
   analysis?: string;
   reasoningComplete: boolean;
   analysisComplete: boolean;
+  reasoningStrategies?: ReasoningStage["reasoningStrategies"];
   reasoningTree?: {
     nodes: ProgressEventNode[];
   };
 }
 
-interface ProgressEvent {
+export interface ProgressEvent {
   type: "deep-research";
-  eventType: "progress" | "complete" | "error";
+  eventType: "progress" | "complete" | "error" | "cancelled";
   message: string;
   timestamp: string;
   stage?: {
@@ -144,28 +256,14 @@ interface ProgressEvent {
   completed?: boolean;
   findings?: ProgressEventFinding[] | null;
   stages?: ProgressEventStage[] | null;
+  tokenUsage?: TokenUsageSnapshot | null;
+  partial?: boolean; // The report was generated after a budget was hit
+  citationVerification?: CitationVerification | null;
+  awaitingApproval?: boolean; // The run is paused until the plan is approved
 }
 
-/**
- * Helper function to publish standardized progress events
- */
-function publishProgressEvent({
-  publish,
-  uuid,
-  type = "progress",
-  message,
-  stage = null,
-  agent = null,
-  progress = null,
-  tree = null,
-  analysis = null,
-  completed = false,
-  findings = null,
-  stages = null,
-}: {
-  publish: any;
-  uuid: string;
-  type?: "progress" | "complete" | "error";
+type ProgressEventArgs = {
+  type?: "progress" | "complete" | "error" | "cancelled";
   message: string;
   stage?: {
     index: number;
@@ -189,93 +287,723 @@ function publishProgressEvent({
   completed?: boolean;
   findings?: Finding[] | null;
   stages?: ReasoningStage[] | null;
+  tokenUsage?: TokenUsageSnapshot | null;
+  partial?: boolean;
+  citationVerification?: CitationVerification | null;
+  awaitingApproval?: boolean;
+};
+
+/**
+ * Build a standardized progress event payload
+ */
+export function buildProgressEvent({
+  type = "progress",
+  message,
+  stage = null,
+  agent = null,
+  progress = null,
+  tree = null,
+  analysis = null,
+  completed = false,
+  findings = null,
+  stages = null,
+  tokenUsage = null,
+  partial = false,
+  citationVerification = null,
+  awaitingApproval = false,
+}: ProgressEventArgs): ProgressEvent {
+  return {
+    type: "deep-research",
+    eventType: type,
+    message,
+    timestamp: new Date().toISOString(),
+    stage: stage && {
+      ...stage,
+      reasoningTree: stage.reasoningTree && {
+        nodes: stage.reasoningTree.nodes.map((node) => ({
+          id: node.id,
+          parentId: node.parentId,
+          depth: node.depth,
+          query: node.query,
+          reasoning: node.reasoning,
+          findings: node.findings.map((finding) => ({
+            source: finding.source,
+            content: finding.content,
+            analysis: finding.analysis,
+            relevanceScore: finding.relevanceScore,
+            title: finding.title ?? null,
+            author: finding.author ?? null,
+            publishedDate: finding.publishedDate ?? null,
+            favicon: finding.favicon ?? null,
+            image: finding.image ?? null,
+            sourceRef: finding.sourceRef ?? null,
+            passages: finding.passages,
+          })),
+          reflection: node.reflection,
+          relevanceScore: node.relevanceScore,
+          pruned: node.pruned,
+          addedByUser: node.addedByUser,
+          irrelevant: node.irrelevant,
+          children: node.children,
+        })),
+      },
+    },
+    agent,
+    progress,
+    tree,
+    analysis,
+    completed,
+    findings: findings?.map((finding) => ({
+      source: finding.source,
+      content: finding.content,
+      analysis: finding.analysis,
+      relevanceScore: finding.relevanceScore,
+      title: finding.title ?? null,
+      author: finding.author ?? null,
+      publishedDate: finding.publishedDate ?? null,
+      favicon: finding.favicon ?? null,
+      image: finding.image ?? null,
+      sourceRef: finding.sourceRef ?? null,
+      passages: finding.passages,
+    })),
+    stages: stages?.map((stage) => ({
+      id: stage.id,
+      name: stage.name,
+      description: stage.description,
+      analysis: stage.analysis,
+      reasoningComplete: stage.reasoningComplete,
+      analysisComplete: stage.analysisComplete,
+      reasoningStrategies: stage.reasoningStrategies,
+      reasoningTree: stage.reasoningTree && {
+        nodes: stage.reasoningTree.nodes.map((node) => ({
+          id: node.id,
+          parentId: node.parentId,
+          depth: node.depth,
+          query: node.query,
+          reasoning: node.reasoning,
+          findings: node.findings.map((finding) => ({
+            source: finding.source,
+            content: finding.content,
+            analysis: finding.analysis,
+            relevanceScore: finding.relevanceScore,
+            sourceRef: finding.sourceRef ?? null,
+            passages: finding.passages,
+          })),
+          reflection: node.reflection,
+          relevanceScore: node.relevanceScore,
+          pruned: node.pruned,
+          addedByUser: node.addedByUser,
+          irrelevant: node.irrelevant,
+          children: node.children,
+        })),
+      },
+    })),
+    tokenUsage,
+    partial,
+    citationVerification,
+    awaitingApproval,
+  } as ProgressEvent;
+}
+
+/**
+ * Helper function to publish standardized progress events
+ */
+async function publishProgressEvent({
+  publish,
+  uuid,
+  ...event
+}: ProgressEventArgs & {
+  publish: any;
+  uuid: string;
 }) {
-  return publish({
+  await publish({
     channel: `deep-research.${uuid}`,
     topic: "updates",
-    data: {
-      type: "deep-research",
-      eventType: type,
-      message,
-      timestamp: new Date().toISOString(),
-      stage: stage && {
-        ...stage,
-        reasoningTree: stage.reasoningTree && {
-          nodes: stage.reasoningTree.nodes.map((node) => ({
-            id: node.id,
-            parentId: node.parentId,
-            depth: node.depth,
-            query: node.query,
-            reasoning: node.reasoning,
-            findings: node.findings.map((finding) => ({
-              source: finding.source,
-              content: finding.content,
-              analysis: finding.analysis,
-              title: finding.title ?? null,
-              author: finding.author ?? null,
-              publishedDate: finding.publishedDate ?? null,
-              favicon: finding.favicon ?? null,
-              image: finding.image ?? null,
-            })),
-            reflection: node.reflection,
-            children: node.children,
-          })),
+    data: buildProgressEvent(event),
+  });
+}
+
+/**
+ * Create the function router for the deep research network. It decides which
+ * agent runs next from the network state and publishes progress as it goes.
+ * `onState` is called with the state before every routing decision and
+ * `now` supplies the wall-clock time used for time budgets.
+ * `waitForPlanApproval` pauses the run until the user approves the plan,
+ * resolving with null if they never do; runs that require approval continue
+ * without it when it isn't given. `takeSteering` returns the instructions
+ * the user has sent since it was last called, which are applied before
+ * each routing decision once the plan is settled.
+ */
+export function createResearchRouter({
+  publish,
+  uuid,
+  topic,
+  onState,
+  now = async () => Date.now(),
+  waitForPlanApproval,
+  takeSteering,
+}: {
+  publish: any;
+  uuid: string;
+  topic: string;
+  onState?: (state: NetworkState) => Promise<void>;
+  now?: () => Promise<number>;
+  waitForPlanApproval?: (state: NetworkState) => Promise<PlanApproval | null>;
+  takeSteering?: (state: NetworkState) => Promise<SteeringInstruction[]>;
+}): Network.Router.FnRouter<NetworkState> {
+  return async ({ network }) => {
+    const state = network.state.data;
+
+    if (onState) {
+      await onState(state);
+    }
+
+    // Router logic
+    console.log(
+      "ROUTER STATE:",
+      JSON.stringify(
+        {
+          topic: state.topic,
+          stagingComplete: state.stagingComplete,
+          currentStageIndex: state.currentStageIndex,
+          stageCount: state.reasoningStages?.length || 0,
+          networkComplete: state.networkComplete,
         },
-      },
-      agent,
-      progress,
-      tree,
-      analysis,
-      completed,
-      findings: findings?.map((finding) => ({
-        source: finding.source,
-        content: finding.content,
-        analysis: finding.analysis,
-        title: finding.title ?? null,
-        author: finding.author ?? null,
-        publishedDate: finding.publishedDate ?? null,
-        favicon: finding.favicon ?? null,
-        image: finding.image ?? null,
-      })),
-      stages: stages?.map((stage) => ({
-        id: stage.id,
-        name: stage.name,
-        description: stage.description,
-        analysis: stage.analysis,
-        reasoningTree: stage.reasoningTree && {
-          nodes: stage.reasoningTree.nodes.map((node) => ({
-            id: node.id,
-            parentId: node.parentId,
-            depth: node.depth,
-            query: node.query,
-            reasoning: node.reasoning,
-            findings: node.findings.map((finding) => ({
-              source: finding.source,
-              content: finding.content,
-              analysis: finding.analysis,
+        null,
+        2
+      )
+    );
+
+    // If network is complete, stop
+    if (state.networkComplete) {
+      console.log("ROUTER: Network completed. Stopping.");
+      await publishProgressEvent({
+        publish,
+        uuid,
+        type: "complete",
+        message: `Research completed`,
+        analysis: state.finalAnalysis,
+        completed: true,
+        progress: {
+          percent: 100,
+          currentStep: "Complete",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return undefined;
+    }
+
+    // If staging is not complete, route to StagingAgent
+    if (!state.stagingComplete) {
+      console.log("ROUTER: Staging not complete. Routing to StagingAgent.");
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `Creating reasoning stages for ${topic}`,
+        agent: "StagingAgent",
+        progress: {
+          percent: 10,
+          currentStep: "Planning research stages",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return stagingAgent;
+    }
+
+    // Pause for the user to review, and possibly edit, the plan before any
+    // research is done
+    if (
+      state.configuration?.requirePlanApproval &&
+      !state.planApproved &&
+      waitForPlanApproval
+    ) {
+      console.log("ROUTER: Waiting for the research plan to be approved.");
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: "Research plan ready for review",
+        agent: "StagingAgent",
+        stages: state.reasoningStages,
+        awaitingApproval: true,
+        progress: {
+          percent: 15,
+          currentStep: "Waiting for plan approval",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+
+      const pausedAt = await now();
+      const approval = await waitForPlanApproval(state);
+      state.pausedMs = (state.pausedMs || 0) + (await now()) - pausedAt;
+
+      if (approval?.stages) {
+        state.reasoningStages = applyResearchPlan(
+          state.reasoningStages || [],
+          approval.stages
+        );
+        if (state.configuration) {
+          state.configuration.stageCount = state.reasoningStages.length;
+        }
+      }
+      state.planApproved = true;
+
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: approval
+          ? "Research plan approved"
+          : "Research plan was not reviewed in time, continuing as planned",
+        agent: "StagingAgent",
+        stages: state.reasoningStages,
+        progress: {
+          percent: 15,
+          currentStep: "Research plan approved",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+    }
+
+    // Apply whatever the user has sent to steer the run since the last
+    // routing decision
+    if (takeSteering) {
+      const instructions = await takeSteering(state);
+      if (instructions.length > 0) {
+        const applied = applySteering(state, instructions);
+        console.log("ROUTER: Applied steering:", applied);
+        await publishProgressEvent({
+          publish,
+          uuid,
+          message: applied.join(". "),
+          stages: state.reasoningStages,
+          tokenUsage: getTokenUsageSnapshot(
+            state.tokenUsage,
+            state.currentStageIndex
+          ),
+        });
+      }
+    }
+
+    // Check the budget before doing any more research
+    const stagesRemaining = state.reasoningStages?.some(
+      (stage) => !stage.reasoningComplete
+    );
+    if (!state.budgetExceeded && stagesRemaining) {
+      const currentTime =
+        state.configuration?.budget?.maxDurationSeconds !== undefined
+          ? await now()
+          : Date.now();
+      state.budgetExceeded = checkBudget(state, currentTime) ?? undefined;
+    }
+
+    // Once a budget is hit, skip the remaining research and report on what
+    // has been found so far
+    if (state.budgetExceeded) {
+      const { message } = state.budgetExceeded;
+
+      if (state.finalReport) {
+        console.log(
+          "ROUTER: Partial report complete. Marking network complete."
+        );
+        state.networkComplete = true;
+        await publishProgressEvent({
+          publish,
+          uuid,
+          type: "complete",
+          message: `${message}. Partial research report generated.`,
+          partial: true,
+          progress: {
+            percent: 99,
+            currentStep: "Finalizing",
+          },
+          tokenUsage: getTokenUsageSnapshot(
+            state.tokenUsage,
+            state.currentStageIndex
+          ),
+        });
+        return undefined;
+      }
+
+      if (collectUniqueSources(state.reasoningStages || []).length === 0) {
+        console.log("ROUTER: Budget reached before any findings. Stopping.");
+        state.networkComplete = true;
+        state.error = `${message} before any findings were collected`;
+        await publishProgressEvent({
+          publish,
+          uuid,
+          type: "error",
+          message: state.error,
+          progress: {
+            percent: 100,
+            currentStep: "Error",
+          },
+          tokenUsage: getTokenUsageSnapshot(
+            state.tokenUsage,
+            state.currentStageIndex
+          ),
+        });
+        return undefined;
+      }
+
+      console.log(`ROUTER: ${message}. Routing to ReportingAgent.`);
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `${message}. Generating report from findings so far`,
+        agent: "ReportingAgent",
+        progress: {
+          percent: 97,
+          currentStep: "Generating partial report",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return reportingAgent;
+    }
+
+    // If we just completed staging, publish all stages
+    if (
+      state.stagingComplete &&
+      state.reasoningStages &&
+      state.reasoningStages.length > 0
+    ) {
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `Research stages created`,
+        agent: "StagingAgent",
+        stages: state.reasoningStages,
+        progress: {
+          percent: 15,
+          currentStep: "Research stages defined",
+          totalSteps: (state.reasoningStages?.length || 0) * 2, // Each stage has reasoning and analysis
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+
+      // After publishing stages, immediately start with the first stage
+      // Don't fall through to the next logic - route to reasoning agent
+      const firstStage = state.reasoningStages[0];
+      if (firstStage && !firstStage.reasoningComplete) {
+        console.log(
+          "ROUTER: Staging complete. Starting first stage with ReasoningAgent."
+        );
+        return reasoningAgent;
+      }
+    }
+
+    // Get current stage
+    const currentStageIndex = state.currentStageIndex || 0;
+    const currentStage = state.reasoningStages?.[currentStageIndex];
+    const totalStages = state.reasoningStages?.length || 1;
+
+    if (!currentStage) {
+      console.error(
+        "ROUTER: No current stage found. This should not happen."
+      );
+      state.networkComplete = true;
+      state.error = `No stage found at index ${currentStageIndex}`;
+      await publishProgressEvent({
+        publish,
+        uuid,
+        type: "error",
+        message: state.error,
+        progress: {
+          percent: 100,
+          currentStep: "Error",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return undefined;
+    }
+
+    // Calculate overall progress based on stage and completion status
+    const stageProgress = (currentStageIndex / totalStages) * 100;
+    const stageWeight = 100 / totalStages;
+    let currentProgress = stageProgress;
+
+    // If current stage reasoning is not complete, route to ReasoningAgent
+    if (!currentStage.reasoningComplete) {
+      console.log(
+        `ROUTER: Reasoning for stage "${currentStage.name}" not complete. Routing to ReasoningAgent.`
+      );
+
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `Building reasoning tree for stage: ${currentStage.name}`,
+        stage: {
+          index: currentStageIndex,
+          name: currentStage.name,
+          description: currentStage.description,
+          totalStages,
+          reasoningTree: currentStage.reasoningTree && {
+            nodes: currentStage.reasoningTree.nodes.map((node) => ({
+              id: node.id,
+              parentId: node.parentId,
+              depth: node.depth,
+              query: node.query,
+              reasoning: node.reasoning,
+              findings: node.findings.map((finding) => ({
+                source: finding.source,
+                content:
+                  finding.content.substring(0, 200) +
+                  (finding.content.length > 200 ? "..." : ""),
+                analysis: finding.analysis || "Analysis pending...",
+                relevanceScore: finding.relevanceScore,
+                title: finding.title ?? null,
+                author: finding.author ?? null,
+                publishedDate: finding.publishedDate ?? null,
+                favicon: finding.favicon ?? null,
+                image: finding.image ?? null,
+                sourceRef: finding.sourceRef ?? null,
+                passages: finding.passages,
+              })),
+              reflection: node.reflection,
+              relevanceScore: node.relevanceScore,
+              pruned: node.pruned,
+              addedByUser: node.addedByUser,
+              irrelevant: node.irrelevant,
+              children: node.children,
             })),
-            reflection: node.reflection,
-            children: node.children,
-          })),
+          },
         },
-      })),
-    } as ProgressEvent,
-  });
+        agent: "ReasoningAgent",
+        progress: {
+          percent: Math.min(Math.round(currentProgress), 95),
+          currentStep: `Stage ${currentStageIndex + 1}/${totalStages}: ${
+            currentStage.reasoningTree?.nodes.length
+              ? `Exploring ${
+                  currentStage.reasoningTree.nodes[
+                    currentStage.reasoningTree.nodes.length - 1
+                  ].query
+                }`
+              : "Starting research"
+          }`,
+          totalSteps: totalStages * 2,
+        },
+        tree: currentStage.reasoningTree?.nodes
+          ? {
+              nodeCount: currentStage.reasoningTree.nodes.length,
+              maxDepth: Math.max(
+                ...currentStage.reasoningTree.nodes.map((n) => n.depth)
+              ),
+              nodesWithFindings: currentStage.reasoningTree.nodes.filter(
+                (n) => n.findings.length > 0
+              ).length,
+            }
+          : null,
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return reasoningAgent;
+    }
+
+    // Move to next stage if available
+    if (currentStageIndex < (state.reasoningStages?.length || 0) - 1) {
+      state.currentStageIndex = currentStageIndex + 1;
+      console.log(
+        `ROUTER: Moving to next stage ${state.currentStageIndex}`
+      );
+
+      // Stage complete, update progress
+      currentProgress += stageWeight; // Full stage weight
+
+      const nextStage = state.reasoningStages?.[state.currentStageIndex];
+
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `Completed stage: ${currentStage.name}, moving to: ${nextStage?.name}`,
+        stage: {
+          index: state.currentStageIndex,
+          name: nextStage?.name || "Unknown",
+          description: nextStage?.description || "",
+          totalStages,
+        },
+        progress: {
+          percent: Math.min(Math.round(currentProgress), 95),
+          currentStep: `Stage ${
+            state.currentStageIndex + 1
+          }/${totalStages}: Starting`,
+          totalSteps: totalStages * 2,
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return reasoningAgent; // Start the next stage with reasoning
+    }
+
+    // Check if we need to generate the final report
+    if (!state.finalReport) {
+      console.log("ROUTER: All stages complete. Generating final report.");
+      await publishProgressEvent({
+        publish,
+        uuid,
+        message: `Generating comprehensive research report`,
+        agent: "ReportingAgent",
+        progress: {
+          percent: 97,
+          currentStep: "Generating final report",
+        },
+        tokenUsage: getTokenUsageSnapshot(
+          state.tokenUsage,
+          state.currentStageIndex
+        ),
+      });
+      return reportingAgent;
+    }
+
+    // If the report is complete, mark the network as complete
+    console.log("ROUTER: Report complete. Marking network complete.");
+    state.networkComplete = true;
+
+    await publishProgressEvent({
+      publish,
+      uuid,
+      type: "complete",
+      message: `All stages complete. Research report generated.`,
+      progress: {
+        percent: 99,
+        currentStep: "Finalizing",
+      },
+      tokenUsage: getTokenUsageSnapshot(
+        state.tokenUsage,
+        state.currentStageIndex
+      ),
+    });
+    return undefined;
+  };
 }
 
 export const deepResearchAgent = inngest.createFunction(
   {
     id: "deep-research-agent-workflow",
+    // Stop the run (and any further Exa/OpenAI calls) when it is cancelled
+    cancelOn: [{ event: "deep-research/cancel", match: "data.uuid" }],
+    onFailure: async ({ event, error, step, publish }) => {
+      // Keep the run history accurate when the function gives up, and let
+      // whoever is waiting on the run know, including a client still
+      // following its stream
+      const { uuid } = event.data.event.data;
+      await step.run("fail-run-record", () => failRun(uuid, error.message));
+      await publishProgressEvent({
+        publish,
+        uuid,
+        type: "error",
+        message: `Research failed: ${error.message}`,
+        progress: {
+          percent: 100,
+          currentStep: "Error",
+        },
+      });
+      await step.sendEvent("notify-run-finished", {
+        name: "deep-research/notify",
+        data: { uuid },
+      });
+    },
   },
   {
     event: "deep-research/run",
   },
   async ({ step, event, publish }) => {
-    const { topic, context, uuid, configuration: eventConfig } = event.data;
+    const {
+      topic,
+      context,
+      uuid,
+      configuration: eventConfig,
+      refreshOf,
+      scheduleId,
+    } = event.data;
+
+    // Record the latest event on the run so that a reconnecting client can
+    // be brought up to date. Both happen in the step publish would run
+    // anyway, so a replay neither publishes nor records an event again.
+    const publishAndRecord = (message: {
+      channel: string;
+      topic: string;
+      data: ProgressEvent;
+    }) =>
+      step.run(`publish:${message.channel}`, async () => {
+        await publish(message);
+        await recordRunEvent(uuid, message.data).catch((error) =>
+          console.error("Failed to record progress event:", error)
+        );
+      });
+
+    // Record the run so it can be found again after the stream closes. The
+    // start time is returned from the step so it stays fixed across replays.
+    const startedAt = await step.run("create-run-record", async () => {
+      await createRun({
+        uuid,
+        topic,
+        context,
+        configuration: eventConfig,
+        refreshOf,
+        scheduleId,
+      });
+      return Date.now();
+    });
+
+    // A refresh copies what it needs from the prior run up front, so the
+    // prior run can change or be deleted while it is in progress
+    const prior = refreshOf
+      ? await step.run("load-prior-run", async () => {
+          const run = await getRun(refreshOf);
+          if (!run || validateRefreshSource(run)) return null;
+          return {
+            refresh: createRefreshContext(run),
+            stages: createRefreshStages(run),
+          };
+        })
+      : null;
+
+    if (refreshOf && !prior) {
+      const message = `Run ${refreshOf} can't be refreshed`;
+      await publishProgressEvent({
+        publish: publishAndRecord,
+        uuid,
+        type: "error",
+        message,
+        progress: {
+          percent: 100,
+          currentStep: "Error",
+        },
+      });
+      await step.run("fail-run-record", () => failRun(uuid, message));
+      await step.sendEvent("notify-run-finished", {
+        name: "deep-research/notify",
+        data: { uuid },
+      });
+      return { response: null, finalReport: null };
+    }
 
     // Send initial starting event
     await publishProgressEvent({
-      publish,
+      publish: publishAndRecord,
       uuid,
       type: "progress",
       message: "Starting deep research analysis",
@@ -287,12 +1015,19 @@ export const deepResearchAgent = inngest.createFunction(
       },
     });
 
-    // Create the network with our agents
+    // Create the network with our agents, each using its configured model.
+    // The router still returns the shared agents; the network looks them up
+    // by name.
+    const models = eventConfig?.models;
     const researchNetwork = createNetwork({
       name: "Deep Research Network",
-      agents: [stagingAgent, reasoningAgent, reportingAgent],
+      agents: [
+        stagingAgent.withModel(getAgentModel("planner", models)),
+        reasoningAgent.withModel(getAgentModel("synthesizer", models)),
+        reportingAgent.withModel(getAgentModel("editor", models)),
+      ],
       maxIter: 25,
-      defaultModel: openai({ model: "gpt-4o" }),
+      defaultModel: getAgentModel("planner", models),
       defaultState: createState<NetworkState>({
         topic: undefined,
         context: null,
@@ -302,252 +1037,35 @@ export const deepResearchAgent = inngest.createFunction(
         currentStageIndex: 0,
         searchedUrls: new Set<string>(),
         analysisCache: new Map<string, string>(),
+        passageCache: new Map<string, SourcePassage[]>(),
         "session-uuid": undefined,
       }),
-      router: async ({ network }) => {
-        const state = network.state.data;
-
-        // Router logic
-        console.log(
-          "ROUTER STATE:",
-          JSON.stringify(
-            {
-              topic: state.topic,
-              stagingComplete: state.stagingComplete,
-              currentStageIndex: state.currentStageIndex,
-              stageCount: state.reasoningStages?.length || 0,
-              networkComplete: state.networkComplete,
-            },
-            null,
-            2
-          )
-        );
-
-        // If network is complete, stop
-        if (state.networkComplete) {
-          console.log("ROUTER: Network completed. Stopping.");
-          await publishProgressEvent({
-            publish,
-            uuid,
-            type: "complete",
-            message: `Research completed`,
-            analysis: state.finalAnalysis,
-            completed: true,
-            progress: {
-              percent: 100,
-              currentStep: "Complete",
-            },
-          });
-          return undefined;
-        }
-
-        // If staging is not complete, route to StagingAgent
-        if (!state.stagingComplete) {
-          console.log("ROUTER: Staging not complete. Routing to StagingAgent.");
-          await publishProgressEvent({
-            publish,
-            uuid,
-            message: `Creating reasoning stages for ${topic}`,
-            agent: "StagingAgent",
-            progress: {
-              percent: 10,
-              currentStep: "Planning research stages",
-            },
-          });
-          return stagingAgent;
-        }
-
-        // If we just completed staging, publish all stages
-        if (
-          state.stagingComplete &&
-          state.reasoningStages &&
-          state.reasoningStages.length > 0
-        ) {
-          await publishProgressEvent({
-            publish,
-            uuid,
-            message: `Research stages created`,
-            agent: "StagingAgent",
-            stages: state.reasoningStages,
-            progress: {
-              percent: 15,
-              currentStep: "Research stages defined",
-              totalSteps: (state.reasoningStages?.length || 0) * 2, // Each stage has reasoning and analysis
-            },
-          });
-
-          // After publishing stages, immediately start with the first stage
-          // Don't fall through to the next logic - route to reasoning agent
-          const firstStage = state.reasoningStages[0];
-          if (firstStage && !firstStage.reasoningComplete) {
-            console.log(
-              "ROUTER: Staging complete. Starting first stage with ReasoningAgent."
-            );
-            return reasoningAgent;
-          }
-        }
-
-        // Get current stage
-        const currentStageIndex = state.currentStageIndex || 0;
-        const currentStage = state.reasoningStages?.[currentStageIndex];
-        const totalStages = state.reasoningStages?.length || 1;
-
-        if (!currentStage) {
-          console.error(
-            "ROUTER: No current stage found. This should not happen."
+      router: createResearchRouter({
+        publish: publishAndRecord,
+        uuid,
+        topic,
+        // Snapshot the latest state so a reloaded client can rebuild its
+        // view. Inside a step so a replay doesn't write an older snapshot.
+        onState: async (state) => {
+          await step.run("save-run-state", () =>
+            saveRunState(uuid, state).catch((error) =>
+              console.error("Failed to save run state:", error)
+            )
           );
-          state.networkComplete = true;
-          await publishProgressEvent({
-            publish,
-            uuid,
-            type: "error",
-            message: `No stage found at index ${currentStageIndex}`,
-            progress: {
-              percent: 100,
-              currentStep: "Error",
-            },
-          });
-          return undefined;
-        }
-
-        // Calculate overall progress based on stage and completion status
-        const stageProgress = (currentStageIndex / totalStages) * 100;
-        const stageWeight = 100 / totalStages;
-        let currentProgress = stageProgress;
-
-        // If current stage reasoning is not complete, route to ReasoningAgent
-        if (!currentStage.reasoningComplete) {
-          console.log(
-            `ROUTER: Reasoning for stage "${currentStage.name}" not complete. Routing to ReasoningAgent.`
-          );
-
-          await publishProgressEvent({
-            publish,
-            uuid,
-            message: `Building reasoning tree for stage: ${currentStage.name}`,
-            stage: {
-              index: currentStageIndex,
-              name: currentStage.name,
-              description: currentStage.description,
-              totalStages,
-              reasoningTree: currentStage.reasoningTree && {
-                nodes: currentStage.reasoningTree.nodes.map((node) => ({
-                  id: node.id,
-                  parentId: node.parentId,
-                  depth: node.depth,
-                  query: node.query,
-                  reasoning: node.reasoning,
-                  findings: node.findings.map((finding) => ({
-                    source: finding.source,
-                    content:
-                      finding.content.substring(0, 200) +
-                      (finding.content.length > 200 ? "..." : ""),
-                    analysis: finding.analysis || "Analysis pending...",
-                    title: finding.title ?? null,
-                    author: finding.author ?? null,
-                    publishedDate: finding.publishedDate ?? null,
-                    favicon: finding.favicon ?? null,
-                    image: finding.image ?? null,
-                  })),
-                  reflection: node.reflection,
-                  children: node.children,
-                })),
-              },
-            },
-            agent: "ReasoningAgent",
-            progress: {
-              percent: Math.min(Math.round(currentProgress), 95),
-              currentStep: `Stage ${currentStageIndex + 1}/${totalStages}: ${
-                currentStage.reasoningTree?.nodes.length
-                  ? `Exploring ${
-                      currentStage.reasoningTree.nodes[
-                        currentStage.reasoningTree.nodes.length - 1
-                      ].query
-                    }`
-                  : "Starting research"
-              }`,
-              totalSteps: totalStages * 2,
-            },
-            tree: currentStage.reasoningTree?.nodes
-              ? {
-                  nodeCount: currentStage.reasoningTree.nodes.length,
-                  maxDepth: Math.max(
-                    ...currentStage.reasoningTree.nodes.map((n) => n.depth)
-                  ),
-                  nodesWithFindings: currentStage.reasoningTree.nodes.filter(
-                    (n) => n.findings.length > 0
-                  ).length,
-                }
-              : null,
-          });
-          return reasoningAgent;
-        }
-
-        // Move to next stage if available
-        if (currentStageIndex < (state.reasoningStages?.length || 0) - 1) {
-          state.currentStageIndex = currentStageIndex + 1;
-          console.log(
-            `ROUTER: Moving to next stage ${state.currentStageIndex}`
-          );
-
-          // Stage complete, update progress
-          currentProgress += stageWeight; // Full stage weight
-
-          const nextStage = state.reasoningStages?.[state.currentStageIndex];
-
-          await publishProgressEvent({
-            publish,
-            uuid,
-            message: `Completed stage: ${currentStage.name}, moving to: ${nextStage?.name}`,
-            stage: {
-              index: state.currentStageIndex,
-              name: nextStage?.name || "Unknown",
-              description: nextStage?.description || "",
-              totalStages,
-            },
-            progress: {
-              percent: Math.min(Math.round(currentProgress), 95),
-              currentStep: `Stage ${
-                state.currentStageIndex + 1
-              }/${totalStages}: Starting`,
-              totalSteps: totalStages * 2,
-            },
-          });
-          return reasoningAgent; // Start the next stage with reasoning
-        }
-
-        // Check if we need to generate the final report
-        if (!state.finalReport) {
-          console.log("ROUTER: All stages complete. Generating final report.");
-          await publishProgressEvent({
-            publish,
-            uuid,
-            message: `Generating comprehensive research report`,
-            agent: "ReportingAgent",
-            progress: {
-              percent: 97,
-              currentStep: "Generating final report",
-            },
+        },
+        // Read the clock inside a step so replays make the same decision
+        now: () => step.run("read-clock", () => Date.now()),
+        waitForPlanApproval: async () => {
+          const approval = await step.waitForEvent("wait-for-plan-approval", {
+            event: "deep-research/plan-approve",
+            match: "data.uuid",
+            timeout: PLAN_APPROVAL_TIMEOUT,
           });
-          return reportingAgent;
-        }
-
-        // If the report is complete, mark the network as complete
-        console.log("ROUTER: Report complete. Marking network complete.");
-        state.networkComplete = true;
-
-        await publishProgressEvent({
-          publish,
-          uuid,
-          type: "complete",
-          message: `All stages complete. Research report generated.`,
-          progress: {
-            percent: 99,
-            currentStep: "Finalizing",
-          },
-        });
-        return undefined;
-      },
+          return approval ? (approval.data as PlanApproval) : null;
+        },
+        takeSteering: () =>
+          step.run("take-steering", () => takeSteering(uuid)),
+      }),
     });
 
     // Create a properly typed state for this run
@@ -560,12 +1078,23 @@ export const deepResearchAgent = inngest.createFunction(
       currentStageIndex: 0,
       searchedUrls: new Set<string>(),
       analysisCache: new Map<string, string>(),
+      passageCache: new Map<string, SourcePassage[]>(),
+      tokenUsage: createTokenUsage(),
+      startedAt,
+      searchCount: 0,
       "session-uuid": uuid,
     });
+    if (prior) {
+      startRefresh(
+        state.data,
+        prior.refresh,
+        prior.stages as ReasoningStage[]
+      );
+    }
 
     // Initial progress event
     await publishProgressEvent({
-      publish,
+      publish: publishAndRecord,
       uuid,
       message: `Starting research on topic: ${topic}`,
       progress: {
@@ -579,6 +1108,26 @@ export const deepResearchAgent = inngest.createFunction(
 
     await step.sleep("sleep", "1s");
 
+    // The router has already published the error; keep what was spent and
+    // found, and record the run as failed rather than completed
+    const { error } = response.state.data;
+    if (error) {
+      await step.run("fail-run-record", async () => {
+        await saveRunState(uuid, response.state.data);
+        await failRun(uuid, error);
+      });
+      await step.sendEvent("notify-run-finished", {
+        name: "deep-research/notify",
+        data: { uuid },
+      });
+      return { response, finalReport: null };
+    }
+
+    // Persist the final state of the run
+    await step.run("save-run-record", async () => {
+      await saveRunState(uuid, response.state.data, { status: "completed" });
+    });
+
     // Get all findings with their analyses
     const allFindings =
       response.state.data.reasoningStages?.flatMap(
@@ -597,21 +1146,35 @@ export const deepResearchAgent = inngest.createFunction(
 
     // Final analysis
     const finalReport = response.state.data.finalReport;
+    const budgetExceeded = response.state.data.budgetExceeded;
+    const completedLabel = budgetExceeded
+      ? `${budgetExceeded.message}. Partial research`
+      : "Research";
 
     // Final complete event with full data
     await publishProgressEvent({
-      publish,
+      publish: publishAndRecord,
       uuid,
       type: "complete",
-      message: `Research completed with ${allFindings.length} findings across ${
+      message: `${completedLabel} completed with ${
+        allFindings.length
+      } findings across ${
         response.state.data.reasoningStages?.length || 0
       } stages`,
       analysis: finalReport,
       completed: true,
+      partial: Boolean(budgetExceeded),
       progress: {
         percent: 100,
         currentStep: "Complete",
       },
+      tokenUsage: getTokenUsageSnapshot(response.state.data.tokenUsage),
+      citationVerification: response.state.data.citationVerification,
+    });
+
+    await step.sendEvent("notify-run-finished", {
+      name: "deep-research/notify",
+      data: { uuid },
     });
 
     return {
@@ -620,3 +1183,247 @@ export const deepResearchAgent = inngest.createFunction(
     };
   }
 );
+
+/**
+ * Handles a cancelled run. The research function itself stops as soon as
+ * the cancel event arrives, so this records the cancellation and lets any
+ * connected client know that no further updates are coming.
+ */
+export const deepResearchCancelled = inngest.createFunction(
+  {
+    id: "deep-research-cancelled",
+  },
+  {
+    event: "deep-research/cancel",
+  },
+  async ({ step, event, publish }) => {
+    const { uuid } = event.data;
+
+    await step.run("mark-run-cancelled", async () => {
+      await cancelRun(uuid);
+    });
+
+    await publishProgressEvent({
+      publish,
+      uuid,
+      type: "cancelled",
+      message: "Research cancelled",
+      progress: {
+        percent: 100,
+        currentStep: "Cancelled",
+      },
+    });
+  }
+);
+
+/**
+ * Tells webhooks and email recipients that a run completed or failed. Each
+ * delivery is its own step, so a failing one is retried on its own and
+ * doesn't hold up the others.
+ */
+export const deepResearchNotify = inngest.createFunction(
+  {
+    id: "deep-research-notify",
+  },
+  {
+    event: "deep-research/notify",
+  },
+  async ({ step, event }) => {
+    const { uuid } = event.data;
+
+    const loaded = await step.run("load-run", async () => {
+      const run = await getRun(uuid);
+      if (!run) return null;
+
+      // Scheduled runs are also sent to the schedule's recipients
+      const schedule = run.scheduleId
+        ? await getSchedule(run.scheduleId)
+        : null;
+      return {
+        notification: createRunNotification(run),
+        recipients: Array.from(
+          new Set([...getNotifyEmails(), ...(schedule?.recipients || [])])
+        ),
+      };
+    });
+    if (!loaded) return { delivered: [], failed: [] };
+
+    const { notification, recipients } = loaded;
+    const delivered: string[] = [];
+    const failed: string[] = [];
+
+    const webhookUrls = getWebhookUrls();
+    for (let i = 0; i < webhookUrls.length; i++) {
+      const url = webhookUrls[i];
+      try {
+        await step.run(`deliver-webhook-${i + 1}`, () =>
+          deliverWebhook(url, notification)
+        );
+        delivered.push(url);
+      } catch (error) {
+        console.error(`Failed to deliver webhook to ${url}:`, error);
+        failed.push(url);
+      }
+    }
+
+    const transport = getEmailTransport();
+    if (transport && recipients.length > 0) {
+      try {
+        await step.run("send-email", () =>
+          transport.send(formatNotificationEmail(notification, recipients))
+        );
+        delivered.push(`email:${transport.name}`);
+      } catch (error) {
+        console.error("Failed to send notification email:", error);
+        failed.push(`email:${transport.name}`);
+      }
+    }
+
+    return { delivered, failed };
+  }
+);
+
+/**
+ * Starts a run for every schedule that is due. Checked every minute; each
+ * schedule is claimed before its run is started, so overlapping checks
+ * never start a schedule twice.
+ */
+export const deepResearchScheduler = inngest.createFunction(
+  {
+    id: "deep-research-scheduler",
+  },
+  {
+    cron: "* * * * *",
+  },
+  async ({ step }) => {
+    // Run ids are assigned in the step so they stay fixed across replays
+    const due = await step.run("claim-due-schedules", async () => {
+      const schedules = await claimDueSchedules(new Date());
+      return schedules.map((schedule) => ({
+        schedule,
+        uuid: crypto.randomUUID(),
+      }));
+    });
+
+    if (due.length > 0) {
+      await step.sendEvent(
+        "start-scheduled-runs",
+        due.map(({ schedule, uuid }) => ({
+          name: "deep-research/run",
+          data: {
+            uuid,
+            topic: schedule.topic,
+            context: schedule.context || "",
+            // Nobody is there to approve the plan of a scheduled run
+            configuration: schedule.configuration && {
+              ...schedule.configuration,
+              requirePlanApproval: false,
+            },
+            scheduleId: schedule.id,
+          },
+        }))
+      );
+    }
+
+    return { started: due.map(({ uuid }) => uuid) };
+  }
+);
+
+/**
+ * Queues an instruction that steers a run in progress. The research
+ * function can't receive events while it runs, so the instruction is stored
+ * until its router next checks for steering.
+ */
+export const deepResearchSteered = inngest.createFunction(
+  {
+    id: "deep-research-steered",
+  },
+  {
+    event: "deep-research/steer",
+  },
+  async ({ step, event }) => {
+    const { uuid, instruction } = event.data as SteeringEvent;
+
+    const queued = await step.run("queue-steering", () =>
+      queueSteering(uuid, instruction)
+    );
+    if (!queued) {
+      console.warn(`Steering for ${uuid} was dropped, the run isn't running`);
+    }
+
+    return { queued };
+  }
+);
+
+/**
+ * Answers a follow-up question on a finished report from the run's
+ * research, searching briefly when the report doesn't cover it. Progress
+ * and the answer are published on the run's channel under the "answers"
+ * topic.
+ */
+export const deepResearchAsk = inngest.createFunction(
+  {
+    id: "deep-research-ask",
+  },
+  {
+    event: "deep-research/ask",
+  },
+  async ({ step, event, publish }) => {
+    const { uuid, questionId, question } = event.data as ReportQuestion;
+
+    const publishAnswerEvent = async (
+      data: Omit<ReportAnswerEvent, "type" | "questionId">
+    ) => {
+      await publish({
+        channel: `deep-research.${uuid}`,
+        topic: "answers",
+        data: { type: "deep-research-answer", questionId, ...data },
+      });
+    };
+
+    const report = await step.run("load-report", async () => {
+      const run = await getRun(uuid);
+      return run && { run, history: await listReportAnswers(uuid) };
+    });
+
+    if (!report?.run.finalReport) {
+      await publishAnswerEvent({
+        eventType: "error",
+        message: "Research run has no final report to ask about",
+      });
+      return { answer: null };
+    }
+
+    await publishAnswerEvent({
+      eventType: "progress",
+      message: "Answering from the research",
+    });
+
+    const answered = await answerReportQuestion({
+      run: report.run as DeepResearchRun,
+      question,
+      history: report.history as ReportAnswer[],
+      step,
+    });
+
+    const answer = (await step.run("save-answer", async () => {
+      const saved: ReportAnswer = {
+        ...answered,
+        id: questionId,
+        createdAt: new Date().toISOString(),
+      };
+      await saveReportAnswer(uuid, saved);
+      return saved;
+    })) as ReportAnswer;
+
+    await publishAnswerEvent({
+      eventType: "complete",
+      message: answer.searchQuery
+        ? `Answered with a search for: ${answer.searchQuery}`
+        : "Answered from the research",
+      answer,
+    });
+
+    return { answer };
+  }
+);
@@ -0,0 +1,82 @@
+import { NetworkState } from "../deep-research";
+
+/**
+ * Hard limits for a research run. Any limit left unset is not enforced.
+ */
+export interface ResearchBudget {
+  maxTokens?: number; // Total prompt + completion tokens
+  maxCost?: number; // Estimated cost in USD
+  maxSearches?: number; // Search provider calls
+  maxDurationSeconds?: number; // Wall-clock time since the run started, less pauses
+}
+
+export type BudgetLimit = keyof ResearchBudget;
+
+/**
+ * Recorded when a run stops researching because a budget was hit
+ */
+export interface BudgetExceeded {
+  limit: BudgetLimit;
+  message: string;
+}
+
+/**
+ * How many more searches the budget allows, Infinity without a search limit
+ */
+export function remainingSearches(state: NetworkState): number {
+  const maxSearches = state.configuration?.budget?.maxSearches;
+  if (maxSearches === undefined) return Infinity;
+  return Math.max(0, maxSearches - (state.searchCount || 0));
+}
+
+/**
+ * Check the state against the configured budget. `now` is passed in so the
+ * caller controls where the wall-clock time comes from.
+ */
+export function checkBudget(
+  state: NetworkState,
+  now: number
+): BudgetExceeded | null {
+  const budget = state.configuration?.budget;
+  if (!budget) return null;
+
+  const usage = state.tokenUsage?.total;
+  const tokens = usage?.totalTokens || 0;
+  const cost = usage?.cost || 0;
+  const searches = state.searchCount || 0;
+
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return {
+      limit: "maxTokens",
+      message: `Token budget of ${budget.maxTokens.toLocaleString()} reached`,
+    };
+  }
+
+  if (budget.maxCost !== undefined && cost >= budget.maxCost) {
+    return {
+      limit: "maxCost",
+      message: `Cost budget of $${budget.maxCost.toFixed(2)} reached`,
+    };
+  }
+
+  if (budget.maxSearches !== undefined && searches >= budget.maxSearches) {
+    return {
+      limit: "maxSearches",
+      message: `Search budget of ${budget.maxSearches} searches reached`,
+    };
+  }
+
+  if (
+    budget.maxDurationSeconds !== undefined &&
+    state.startedAt !== undefined &&
+    (now - state.startedAt - (state.pausedMs || 0)) / 1000 >=
+      budget.maxDurationSeconds
+  ) {
+    return {
+      limit: "maxDurationSeconds",
+      message: `Time budget of ${budget.maxDurationSeconds}s reached`,
+    };
+  }
+
+  return null;
+}
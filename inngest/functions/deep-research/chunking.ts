@@ -0,0 +1,230 @@
+/**
+ * A span of a source's full text, as character offsets into the archived
+ * text. `score` is the relevance of the span to the query it was picked for.
+ */
+export interface SourcePassage {
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface SourceChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const CHUNK_CONFIG = {
+  CHUNK_SIZE: 1200,
+  CHUNK_OVERLAP: 200,
+  // BM25 parameters
+  K1: 1.2,
+  B: 0.75,
+  // Weight of terms from the query's reasoning relative to the query itself
+  REASONING_WEIGHT: 0.4,
+} as const;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by for from has have how in into is it its " +
+    "of on or our that the their this to was were what when where which " +
+    "who why will with about we you they these those than then there can"
+  ).split(" ")
+);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(
+    (term) => term.length > 1 && !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Find the best place to end a chunk at or before `end`, preferring a
+ * paragraph break, then a sentence end, then any whitespace
+ */
+function findBreak(text: string, start: number, end: number): number {
+  if (end >= text.length) return text.length;
+
+  const minimum = start + Math.floor((end - start) / 2);
+  const window = text.slice(minimum, end);
+  const patterns = [/\n\s*\n/g, /[.!?]["')\]]?\s/g, /\s/g];
+
+  for (const pattern of patterns) {
+    const matches = Array.from(window.matchAll(pattern));
+    const last = matches[matches.length - 1];
+    if (last?.index !== undefined) {
+      return minimum + last.index + last[0].length;
+    }
+  }
+  return end;
+}
+
+/**
+ * Split text into overlapping chunks that end on natural boundaries
+ */
+export function chunkText(
+  text: string,
+  size: number = CHUNK_CONFIG.CHUNK_SIZE,
+  overlap: number = CHUNK_CONFIG.CHUNK_OVERLAP
+): SourceChunk[] {
+  const chunks: SourceChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = findBreak(text, start, start + size);
+    chunks.push({
+      index: chunks.length,
+      start,
+      end,
+      text: text.slice(start, end),
+    });
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the start of a word
+    let next = Math.max(end - overlap, start + 1);
+    while (next < end && !/\s/.test(text[next - 1])) next++;
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Score chunks against weighted query terms with BM25
+ */
+function scoreChunks(
+  chunks: SourceChunk[],
+  terms: Map<string, number>
+): number[] {
+  const { K1, B } = CHUNK_CONFIG;
+  const chunkTerms = chunks.map((chunk) => tokenize(chunk.text));
+  const averageLength =
+    chunkTerms.reduce((sum, t) => sum + t.length, 0) / chunks.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach((tokens) =>
+    new Set(tokens).forEach((term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    )
+  );
+
+  return chunkTerms.map((tokens) => {
+    const frequency = new Map<string, number>();
+    tokens.forEach((term) =>
+      frequency.set(term, (frequency.get(term) || 0) + 1)
+    );
+
+    let score = 0;
+    terms.forEach((weight, term) => {
+      const tf = frequency.get(term);
+      if (!tf) return;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      const norm = K1 * (1 - B + (B * tokens.length) / averageLength);
+      score += weight * idf * ((tf * (K1 + 1)) / (tf + norm));
+    });
+    return score;
+  });
+}
+
+/**
+ * Pick the chunks of a source most relevant to a query and its reasoning,
+ * up to `maxChars` of text. Text that fits within the limit is kept whole.
+ *
+ * The picked chunks are returned in document order, with overlapping chunks
+ * merged, alongside the passages they cover.
+ */
+export function selectRelevantChunks({
+  text,
+  query,
+  reasoning,
+  maxChars,
+}: {
+  text: string;
+  query: string;
+  reasoning?: string;
+  maxChars: number;
+}): { chunks: SourceChunk[]; passages: SourcePassage[] } {
+  if (text.length <= maxChars) {
+    return {
+      chunks: [{ index: 0, start: 0, end: text.length, text }],
+      passages: [{ start: 0, end: text.length, score: 1 }],
+    };
+  }
+
+  const terms = new Map<string, number>();
+  tokenize(reasoning || "").forEach((term) =>
+    terms.set(term, CHUNK_CONFIG.REASONING_WEIGHT)
+  );
+  tokenize(query).forEach((term) => terms.set(term, 1));
+
+  const chunks = chunkText(text);
+  const scores = scoreChunks(chunks, terms);
+
+  // Highest scoring first. Chunks that match nothing are left out, unless
+  // nothing matches at all, in which case the source's opening is used.
+  const hasMatches = scores.some((score) => score > 0);
+  const ranked = chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .filter(({ score }) => !hasMatches || score > 0)
+    .sort((a, b) => b.score - a.score || a.chunk.start - b.chunk.start);
+
+  const picked: { chunk: SourceChunk; score: number }[] = [];
+  let total = 0;
+  for (const entry of ranked) {
+    const length = entry.chunk.end - entry.chunk.start;
+    if (total + length > maxChars) continue;
+    picked.push(entry);
+    total += length;
+  }
+
+  // Merge overlapping or touching chunks into passages
+  const merged: { chunk: SourceChunk; score: number }[] = [];
+  picked
+    .sort((a, b) => a.chunk.start - b.chunk.start)
+    .forEach(({ chunk, score }) => {
+      const last = merged[merged.length - 1];
+      if (last && chunk.start <= last.chunk.end) {
+        const end = Math.max(last.chunk.end, chunk.end);
+        last.chunk = {
+          ...last.chunk,
+          end,
+          text: text.slice(last.chunk.start, end),
+        };
+        last.score = Math.max(last.score, score);
+      } else {
+        merged.push({ chunk: { ...chunk }, score });
+      }
+    });
+
+  return {
+    chunks: merged.map(({ chunk }) => chunk),
+    passages: merged.map(({ chunk, score }) => ({
+      start: chunk.start,
+      end: chunk.end,
+      score: Math.round(score * 1000) / 1000,
+    })),
+  };
+}
+
+/**
+ * Format picked chunks for a prompt, marking where text was left out
+ */
+export function formatChunks(chunks: SourceChunk[], textLength: number) {
+  if (
+    chunks.length === 1 &&
+    chunks[0].start === 0 &&
+    chunks[0].end === textLength
+  ) {
+    return chunks[0].text;
+  }
+
+  return chunks
+    .map(
+      (chunk) =>
+        `[Passage at characters ${chunk.start}-${chunk.end}]\n` +
+        chunk.text.trim()
+    )
+    .join("\n\n[...]\n\n");
+}
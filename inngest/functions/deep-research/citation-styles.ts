@@ -0,0 +1,370 @@
+import { Finding } from "../deep-research";
+import { formatCitationIEEE } from "./citations";
+
+export type CitationStyleName = "ieee" | "apa" | "mla" | "chicago";
+
+/**
+ * A citation style controls how sources are listed in the references and
+ * cited inline. Numeric styles cite by reference number in the order sources
+ * were found; author-date styles cite by author (and year) and list the
+ * references alphabetically.
+ *
+ * `suffix` is a letter used to tell apart sources that would otherwise get
+ * the same inline marker, e.g. (Smith, 2023a) and (Smith, 2023b).
+ */
+export interface CitationStyle {
+  name: CitationStyleName;
+  label: string;
+  inline: "numeric" | "author-date";
+  // How inline citations look, for use in prompts
+  inlineExample: string;
+  formatReference: (finding: Finding, index: number, suffix: string) => string;
+  formatInline: (finding: Finding, index: number, suffix: string) => string;
+}
+
+/**
+ * A source with the number and inline marker it is cited with
+ */
+export interface CitedSource {
+  finding: Finding;
+  index: number;
+  marker: string;
+  suffix: string;
+}
+
+/**
+ * Split an author field into individual names
+ */
+function authorNames(finding: Finding): string[] {
+  if (!finding.author) return [];
+  return finding.author
+    .split(/\s*(?:;|&|\band\b)\s*|,\s+(?=\S+\s+\S+)/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+function lastName(name: string): string {
+  const parts = name.split(/\s+/);
+  return parts[parts.length - 1];
+}
+
+function firstNames(name: string): string[] {
+  return name.split(/\s+/).slice(0, -1);
+}
+
+function siteName(finding: Finding): string {
+  try {
+    return new URL(finding.source).hostname.replace(/^www\./, "");
+  } catch {
+    return finding.source;
+  }
+}
+
+function year(finding: Finding): string {
+  return finding.publishedDate?.match(/\d{4}/)?.[0] || "n.d.";
+}
+
+function title(finding: Finding): string {
+  return finding.title || "Untitled";
+}
+
+function linkedTitle(finding: Finding): string {
+  return `[${title(finding)}](${finding.source})`;
+}
+
+/**
+ * Name used for inline citations: the author's last name, "A and B" for two
+ * authors, "A et al." for more, and the site name when there is no author
+ */
+function inlineAuthor(finding: Finding, joiner: string): string {
+  const names = authorNames(finding);
+  if (names.length === 0) return siteName(finding);
+  if (names.length === 1) return lastName(names[0]);
+  if (names.length === 2) {
+    return `${lastName(names[0])} ${joiner} ${lastName(names[1])}`;
+  }
+  return `${lastName(names[0])} et al.`;
+}
+
+/**
+ * Smith, J. A., & Doe, J.
+ */
+function apaAuthors(finding: Finding): string {
+  const names = authorNames(finding).map((name) => {
+    const initials = firstNames(name)
+      .map((part) => `${part[0]}.`)
+      .join(" ");
+    return initials ? `${lastName(name)}, ${initials}` : name;
+  });
+  if (names.length === 0) return siteName(finding);
+  if (names.length === 1) return names[0];
+  return `${names.slice(0, -1).join(", ")}, & ${names[names.length - 1]}`;
+}
+
+/**
+ * Smith, John, and Jane Doe. Only the first author is inverted.
+ */
+function invertedAuthors(finding: Finding): string {
+  const names = authorNames(finding);
+  if (names.length === 0) return siteName(finding);
+
+  const first = names[0].includes(" ")
+    ? `${lastName(names[0])}, ${firstNames(names[0]).join(" ")}`
+    : names[0];
+  if (names.length === 1) return first;
+  if (names.length === 2) return `${first}, and ${names[1]}`;
+  return `${first}, et al.`;
+}
+
+function withPeriod(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+export const CITATION_STYLES: Record<CitationStyleName, CitationStyle> = {
+  ieee: {
+    name: "ieee",
+    label: "IEEE",
+    inline: "numeric",
+    inlineExample: "[n], where n is the source number",
+    formatReference: (finding, index) => formatCitationIEEE(finding, index),
+    formatInline: (_finding, index) => `[${index}]`,
+  },
+  apa: {
+    name: "apa",
+    label: "APA",
+    inline: "author-date",
+    inlineExample: "(Author, Year)",
+    formatReference: (finding, _index, suffix) =>
+      `${withPeriod(apaAuthors(finding))} (${year(finding)}${suffix}). ` +
+      `*${linkedTitle(finding)}*. ${siteName(finding)}.`,
+    formatInline: (finding, _index, suffix) =>
+      `(${inlineAuthor(finding, "&")}, ${year(finding)}${suffix})`,
+  },
+  mla: {
+    name: "mla",
+    label: "MLA",
+    inline: "author-date",
+    inlineExample: "(Author)",
+    formatReference: (finding) =>
+      `${withPeriod(invertedAuthors(finding))} "${withPeriod(
+        linkedTitle(finding)
+      )}" *${siteName(finding)}*${
+        finding.publishedDate ? `, ${finding.publishedDate}` : ""
+      }.`,
+    // MLA tells apart works by the same author with a short title
+    formatInline: (finding, _index, suffix) =>
+      suffix
+        ? `(${inlineAuthor(finding, "and")}, "${title(finding)
+            .split(/\s+/)
+            .slice(0, 4)
+            .join(" ")}")`
+        : `(${inlineAuthor(finding, "and")})`,
+  },
+  chicago: {
+    name: "chicago",
+    label: "Chicago (author-date)",
+    inline: "author-date",
+    inlineExample: "(Author Year)",
+    formatReference: (finding, _index, suffix) =>
+      `${withPeriod(invertedAuthors(finding))} ${year(finding)}${suffix}. ` +
+      `"${withPeriod(linkedTitle(finding))}" ${siteName(finding)}.`,
+    formatInline: (finding, _index, suffix) =>
+      `(${inlineAuthor(finding, "and")} ${year(finding)}${suffix})`,
+  },
+};
+
+export const DEFAULT_CITATION_STYLE: CitationStyleName = "ieee";
+
+export function isCitationStyleName(name: string): name is CitationStyleName {
+  return Object.keys(CITATION_STYLES).includes(name);
+}
+
+/**
+ * Get a citation style by name, falling back to IEEE
+ */
+export function getCitationStyle(name?: string | null): CitationStyle {
+  return name && isCitationStyleName(name)
+    ? CITATION_STYLES[name]
+    : CITATION_STYLES[DEFAULT_CITATION_STYLE];
+}
+
+/**
+ * Number the given unique sources in order and give each its inline marker.
+ * Sources that would share a marker get letter suffixes in order of
+ * appearance.
+ */
+export function citeSources(
+  style: CitationStyle,
+  findings: Finding[]
+): CitedSource[] {
+  const baseMarkers = findings.map((finding, i) =>
+    style.formatInline(finding, i + 1, "")
+  );
+  const seen = new Map<string, number>();
+
+  return findings.map((finding, i) => {
+    const base = baseMarkers[i];
+    const shared = baseMarkers.filter((marker) => marker === base).length > 1;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+
+    const suffix = shared ? String.fromCharCode(97 + (count % 26)) : "";
+    return {
+      finding,
+      index: i + 1,
+      marker: style.formatInline(finding, i + 1, suffix),
+      suffix,
+    };
+  });
+}
+
+/**
+ * Reference list lines for the report. Author-date styles are sorted
+ * alphabetically, numeric styles keep their numbering order.
+ */
+export function formatReferenceList(
+  style: CitationStyle,
+  sources: CitedSource[]
+): string[] {
+  const lines = sources.map(({ finding, index, suffix }) =>
+    style.formatReference(finding, index, suffix)
+  );
+  return style.inline === "numeric"
+    ? lines
+    : lines.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Source list for prompts: each reference prefixed with the inline marker
+ * the model should cite it with
+ */
+export function formatSourceList(
+  style: CitationStyle,
+  sources: CitedSource[]
+): string[] {
+  return sources.map(({ finding, index, marker, suffix }) =>
+    style.inline === "numeric"
+      ? style.formatReference(finding, index, suffix)
+      : `${marker} ${style.formatReference(finding, index, suffix)}`
+  );
+}
+
+/**
+ * Prompt instruction describing how to cite inline in the given style
+ */
+export function describeInlineCitations(style: CitationStyle): string {
+  return style.inline === "numeric"
+    ? `inline ${style.label} citations ${style.inlineExample}`
+    : `inline ${style.label} author-date citations ${style.inlineExample}, ` +
+        "copying the exact marker shown before each source";
+}
+
+/**
+ * Citation keys for BibTeX and CSL-JSON, e.g. smith2023. Sources that would
+ * share a key, such as two pages of one site from the same year, get letter
+ * suffixes in order (smith2023a, smith2023b) whatever the inline style, so
+ * every key is unique within an export.
+ */
+function bibtexKeys(sources: CitedSource[]): string[] {
+  const baseKeys = sources.map(({ finding, index }) => {
+    const names = authorNames(finding);
+    const base = (names.length > 0 ? lastName(names[0]) : siteName(finding))
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "");
+    const y = year(finding);
+    return `${base || "source"}${y === "n.d." ? index : y}`;
+  });
+
+  const used = new Set<string>();
+  const seen = new Map<string, number>();
+  return baseKeys.map((base) => {
+    const shared = baseKeys.filter((key) => key === base).length > 1;
+    let key = base;
+    if (shared || used.has(key)) {
+      let count = seen.get(base) || 0;
+      do {
+        key = `${base}${letterSuffix(count++)}`;
+      } while (used.has(key));
+      seen.set(base, count);
+    }
+    used.add(key);
+    return key;
+  });
+}
+
+// a, b, ..., z, aa, ab, ...
+function letterSuffix(count: number): string {
+  const letter = String.fromCharCode(97 + (count % 26));
+  return count < 26
+    ? letter
+    : `${letterSuffix(Math.floor(count / 26) - 1)}${letter}`;
+}
+
+function escapeBibtex(text: string): string {
+  return text.replace(/([{}%&$#_])/g, "\\$1");
+}
+
+/**
+ * Export the sources as BibTeX @online entries
+ */
+export function formatBibTeX(sources: CitedSource[]): string {
+  const keys = bibtexKeys(sources);
+  return sources
+    .map((source, i) => {
+      const { finding } = source;
+      const fields: [string, string | null][] = [
+        ["author", authorNames(finding).join(" and ") || null],
+        ["title", title(finding)],
+        ["year", year(finding) === "n.d." ? null : year(finding)],
+        ["date", finding.publishedDate ?? null],
+        ["url", finding.source],
+        ["organization", siteName(finding)],
+      ];
+      const body = fields
+        .filter(([, value]) => value)
+        .map(([key, value]) =>
+          key === "url"
+            ? `  ${key} = {${value}}`
+            : `  ${key} = {${escapeBibtex(value!)}}`
+        )
+        .join(",\n");
+      return `@online{${keys[i]},\n${body}\n}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Export the sources as CSL-JSON, the format read by Zotero, Pandoc and
+ * most reference managers
+ */
+export function formatCslJson(sources: CitedSource[]): string {
+  const keys = bibtexKeys(sources);
+  const items = sources.map((source, i) => {
+    const { finding } = source;
+    const issued = finding.publishedDate?.match(
+      /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/
+    );
+
+    return {
+      id: keys[i],
+      type: "webpage",
+      title: title(finding),
+      URL: finding.source,
+      "container-title": siteName(finding),
+      ...(authorNames(finding).length > 0 && {
+        author: authorNames(finding).map((name) =>
+          name.includes(" ")
+            ? { family: lastName(name), given: firstNames(name).join(" ") }
+            : { literal: name }
+        ),
+      }),
+      ...(issued && {
+        issued: {
+          "date-parts": [issued.slice(1).filter(Boolean).map(Number)],
+        },
+      }),
+    };
+  });
+
+  return JSON.stringify(items, null, 2);
+}
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import { generateObject, LanguageModelV1 } from "ai";
+import { NetworkState } from "../deep-research";
+import { CitationStyle, CitedSource } from "./citation-styles";
+import { recordTokenUsage } from "./token-tracking";
+import { getSourceStore } from "./source-store";
+import { formatChunks, selectRelevantChunks } from "./chunking";
+
+export type CitationVerdict = "supported" | "weak" | "unsupported";
+
+/**
+ * A sentence of the report together with the sources it cites
+ */
+export interface CitedClaim {
+  sentence: string;
+  // Markers as written in the report, e.g. [3] or (Smith, 2023)
+  markers: string[];
+  // Sources the markers resolve to; markers that resolve to nothing are
+  // reported as unsupported
+  sources: CitedSource[];
+}
+
+/**
+ * The verdict for one citation of one sentence
+ */
+export interface CitationCheck {
+  sentence: string;
+  marker: string;
+  source: string | null;
+  title: string | null;
+  verdict: CitationVerdict;
+  explanation: string;
+}
+
+export interface CitationVerification {
+  checks: CitationCheck[];
+  summary: Record<CitationVerdict, number>;
+}
+
+// Claims sent to the model in a single verification call
+const CLAIMS_PER_CALL = 20;
+
+// Source text included in the verification prompt
+const MAX_SOURCE_CHARS = 12000;
+
+const REFERENCES_HEADING = /^#{1,6}\s*\**references\**\s*$/im;
+
+/**
+ * Split the body of a report into sentences, skipping headings, tables and
+ * the references section
+ */
+function splitSentences(report: string): string[] {
+  const body = report.split(REFERENCES_HEADING)[0];
+
+  return body
+    .split(/\n{2,}|\n(?=\s*(?:[-*+]|\d+\.)\s)/)
+    .map((block) => block.replace(/\s+/g, " ").trim())
+    .filter((block) => block && !/^(#|\|)/.test(block))
+    .flatMap((block) => block.split(/(?<=[.!?])\s+(?=[A-Z*"'(\[])/))
+    .map((sentence) => sentence.replace(/^(?:[-*+]|\d+\.)\s+/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find the numeric citations in a sentence, expanding groups such as
+ * [1, 3] and ranges such as [2-4]
+ */
+function findNumericMarkers(sentence: string): { marker: string; n: number }[] {
+  return Array.from(
+    sentence.matchAll(/\[(\d+(?:\s*[,–-]\s*\d+)*)\]/g)
+  ).flatMap((match) =>
+    match[1].split(/\s*,\s*/).flatMap((part) => {
+      const [start, end] = part.split(/\s*[–-]\s*/).map(Number);
+      const last = end && end > start && end - start < 50 ? end : start;
+      return Array.from({ length: last - start + 1 }, (_, i) => ({
+        marker: `[${start + i}]`,
+        n: start + i,
+      }));
+    })
+  );
+}
+
+/**
+ * Extract every sentence of the report that cites at least one source
+ */
+export function extractCitedClaims(
+  report: string,
+  style: CitationStyle,
+  sources: CitedSource[]
+): CitedClaim[] {
+  const byIndex = new Map(sources.map((source) => [source.index, source]));
+
+  return splitSentences(report)
+    .map((sentence): CitedClaim => {
+      if (style.inline === "numeric") {
+        const found = findNumericMarkers(sentence);
+        return {
+          sentence,
+          markers: found.map(({ marker }) => marker),
+          sources: found
+            .map(({ n }) => byIndex.get(n))
+            .filter((source): source is CitedSource => Boolean(source)),
+        };
+      }
+
+      // Author-date markers may be combined, e.g. (Smith, 2023; Doe, 2022),
+      // so match on the text inside the parentheses
+      const cited = sources.filter((source) =>
+        sentence.includes(source.marker.slice(1, -1))
+      );
+      return {
+        sentence,
+        markers: cited.map((source) => source.marker),
+        sources: cited,
+      };
+    })
+    .filter((claim) => claim.markers.length > 0);
+}
+
+function createVerdictSchema(count: number) {
+  return z.object({
+    verdicts: z
+      .array(
+        z.object({
+          verdict: z
+            .enum(["supported", "weak", "unsupported"])
+            .describe(
+              "supported: the source states the claim; weak: the source is related but only partly or indirectly backs it; unsupported: the source does not make the claim or contradicts it"
+            ),
+          explanation: z
+            .string()
+            .describe("One sentence explaining the verdict"),
+        })
+      )
+      .length(count)
+      .describe(`Exactly ${count} verdicts, one per claim, in the given order`),
+  });
+}
+
+/**
+ * Full text of a source from the archive, falling back to the snippet kept
+ * on the finding
+ */
+async function loadSourceText({ finding }: CitedSource): Promise<string> {
+  if (!finding.sourceRef) return finding.content;
+  try {
+    const archived = await getSourceStore().get(finding.sourceRef.hash);
+    return archived?.content || finding.content;
+  } catch (error) {
+    console.warn(`Could not load archived text for ${finding.source}`, error);
+    return finding.content;
+  }
+}
+
+/**
+ * The passages of a source closest to the claims that cite it, formatted for
+ * the prompt. Long sources are cut down to `MAX_SOURCE_CHARS`.
+ */
+async function loadSourceExcerpt(
+  source: CitedSource,
+  claims: string[]
+): Promise<string> {
+  const content = await loadSourceText(source);
+  const { chunks } = selectRelevantChunks({
+    text: content,
+    query: claims.join(" "),
+    maxChars: MAX_SOURCE_CHARS,
+  });
+  return formatChunks(chunks, content.length);
+}
+
+/**
+ * Ask the model whether a single source supports each of the given claims
+ */
+async function verifyClaimsAgainstSource({
+  source,
+  excerpt,
+  claims,
+  step,
+  model,
+  state,
+}: {
+  source: CitedSource;
+  excerpt: string;
+  claims: string[];
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<{ verdict: CitationVerdict; explanation: string }[]> {
+  const { finding } = source;
+
+  const result = await step?.ai.wrap("verify-citations", async () => {
+    return await generateObject({
+      model,
+      schema: createVerdictSchema(claims.length),
+      prompt: `
+        You are a meticulous fact checker verifying citations in a research report.
+
+        SOURCE: ${finding.title || finding.source}
+        URL: ${finding.source}
+
+        SOURCE CONTENT:
+        ${excerpt}
+
+        ${finding.analysis ? `ANALYSIS OF THE SOURCE:\n${finding.analysis}` : ""}
+
+        Each of the following sentences from the report cites this source:
+        ${claims.map((claim, i) => `${i + 1}. ${claim}`).join("\n")}
+
+        For each sentence, judge only whether THIS source backs the claim it
+        makes. Rely on the source content; the analysis is a summary that may
+        itself be wrong. Do not use outside knowledge.
+      `,
+    });
+  });
+
+  recordTokenUsage(state, result, {
+    agent: "ReportingAgent",
+    operation: "verify-citations",
+    model: model.modelId,
+  });
+
+  return result?.object?.verdicts || [];
+}
+
+/**
+ * Check every cited sentence of a report against the sources it cites.
+ * Sources are checked one at a time so each prompt only carries a single
+ * source's content.
+ */
+export async function verifyCitations({
+  report,
+  style,
+  sources,
+  step,
+  model,
+  state,
+}: {
+  report: string;
+  style: CitationStyle;
+  sources: CitedSource[];
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<CitationVerification> {
+  const claims = extractCitedClaims(report, style, sources);
+  const checks: CitationCheck[] = [];
+
+  // Markers that don't resolve to any source can't be supported
+  claims.forEach((claim) => {
+    const resolved = new Set(claim.sources.map((source) => source.marker));
+    claim.markers
+      .filter((marker) => !resolved.has(marker))
+      .forEach((marker) =>
+        checks.push({
+          sentence: claim.sentence,
+          marker,
+          source: null,
+          title: null,
+          verdict: "unsupported",
+          explanation:
+            "The citation does not match any source in the references",
+        })
+      );
+  });
+
+  // Group the claims by the source they cite
+  const claimsBySource = new Map<number, string[]>();
+  claims.forEach((claim) => {
+    new Set(claim.sources).forEach((source) => {
+      const list = claimsBySource.get(source.index) || [];
+      list.push(claim.sentence);
+      claimsBySource.set(source.index, list);
+    });
+  });
+
+  for (const source of sources) {
+    const sentences = claimsBySource.get(source.index);
+    if (!sentences) continue;
+
+    // Excerpted in a step so replays neither load the archive again nor
+    // keep the whole document in the step's saved output
+    const excerpt: string =
+      (await step?.run("load-source-excerpt", () =>
+        loadSourceExcerpt(source, sentences)
+      )) ?? (await loadSourceExcerpt(source, sentences));
+    for (let i = 0; i < sentences.length; i += CLAIMS_PER_CALL) {
+      const batch = sentences.slice(i, i + CLAIMS_PER_CALL);
+      const verdicts = await verifyClaimsAgainstSource({
+        source,
+        excerpt,
+        claims: batch,
+        step,
+        model,
+        state,
+      });
+
+      batch.forEach((sentence, j) => {
+        checks.push({
+          sentence,
+          marker: source.marker,
+          source: source.finding.source,
+          title: source.finding.title ?? null,
+          verdict: verdicts[j]?.verdict || "weak",
+          explanation:
+            verdicts[j]?.explanation ||
+            "No verdict was returned for this claim",
+        });
+      });
+    }
+  }
+
+  const summary: Record<CitationVerdict, number> = {
+    supported: 0,
+    weak: 0,
+    unsupported: 0,
+  };
+  checks.forEach((check) => summary[check.verdict]++);
+
+  return { checks, summary };
+}
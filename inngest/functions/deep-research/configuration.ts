@@ -0,0 +1,199 @@
+import {
+  DEFAULT_MODELS,
+  MODEL_ROLES,
+  ModelConfiguration,
+  ModelRole,
+  SUPPORTED_MODELS,
+} from "./models";
+import { ResearchBudget } from "./budget";
+import {
+  CitationStyleName,
+  DEFAULT_CITATION_STYLE,
+  isCitationStyleName,
+} from "./citation-styles";
+import {
+  SEARCH_CATEGORIES,
+  SEARCH_LANGUAGES,
+  SearchCategory,
+  SearchFilters,
+} from "./search";
+
+/**
+ * Configuration of a run as requested by a client, before it is validated
+ */
+export interface ResearchConfigurationRequest {
+  maxDepth?: number; // Maximum depth of the reasoning tree
+  maxBreadth?: number; // Maximum breadth (nodes per level)
+  stageCount?: number; // Number of research stages
+  queriesPerStage?: number; // Initial queries per stage
+  models?: Partial<Record<ModelRole, string>>; // Model to use for each role
+  budget?: ResearchBudget; // Hard limits for the run
+  citationStyle?: string; // "ieee", "apa", "mla" or "chicago"
+  requirePlanApproval?: boolean; // Pause after planning for the plan to be approved
+  searchFilters?: SearchFilters; // Domains, dates, category and language for every search
+}
+
+// Define configuration limits
+const CONFIG_LIMITS = {
+  maxDepth: { min: 1, max: 3, default: 2 },
+  maxBreadth: { min: 2, max: 5, default: 3 },
+  stageCount: { min: 1, max: 5, default: 3 },
+  queriesPerStage: { min: 1, max: 5, default: 3 },
+};
+
+// Keep only budget limits that are positive numbers
+function validateBudget(
+  budget?: ResearchBudget
+): ResearchBudget | undefined {
+  if (!budget) return undefined;
+
+  const validated = Object.fromEntries(
+    Object.entries(budget).filter(
+      ([key, value]) =>
+        ["maxTokens", "maxCost", "maxSearches", "maxDurationSeconds"].includes(
+          key
+        ) &&
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        value > 0
+    )
+  ) as ResearchBudget;
+
+  return Object.keys(validated).length > 0 ? validated : undefined;
+}
+
+const MAX_FILTER_DOMAINS = 20;
+
+// Reduce each entry to a bare lowercase domain, dropping anything that
+// isn't one
+function validateDomains(domains?: unknown): string[] | undefined {
+  if (!Array.isArray(domains)) return undefined;
+
+  const validated = Array.from(
+    new Set(
+      domains
+        .filter((domain): domain is string => typeof domain === "string")
+        .map((domain) =>
+          domain
+            .trim()
+            .toLowerCase()
+            .replace(/^[a-z]+:\/\//, "")
+            .replace(/[/?#:].*$/, "")
+            .replace(/^www\./, "")
+        )
+        .filter((domain) =>
+          /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/.test(domain)
+        )
+    )
+  ).slice(0, MAX_FILTER_DOMAINS);
+
+  return validated.length > 0 ? validated : undefined;
+}
+
+// Keep only dates written as YYYY-MM-DD that exist
+function validateDate(date?: unknown): string | undefined {
+  if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return undefined;
+  }
+  // Rolled over dates such as 2023-02-30 don't survive the round trip
+  const parsed = new Date(date);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : undefined;
+}
+
+// Keep only valid search filters; an end date before the start date is
+// dropped
+function validateSearchFilters(
+  filters?: SearchFilters
+): SearchFilters | undefined {
+  if (!filters) return undefined;
+
+  const startPublishedDate = validateDate(filters.startPublishedDate);
+  let endPublishedDate = validateDate(filters.endPublishedDate);
+  if (
+    startPublishedDate &&
+    endPublishedDate &&
+    endPublishedDate < startPublishedDate
+  ) {
+    endPublishedDate = undefined;
+  }
+
+  const validated: SearchFilters = {
+    includeDomains: validateDomains(filters.includeDomains),
+    excludeDomains: validateDomains(filters.excludeDomains),
+    startPublishedDate,
+    endPublishedDate,
+    category: SEARCH_CATEGORIES.includes(filters.category as SearchCategory)
+      ? filters.category
+      : undefined,
+    // Only languages the results can be checked for are kept
+    language:
+      typeof filters.language === "string" &&
+      SEARCH_LANGUAGES.includes(filters.language.toLowerCase())
+        ? filters.language.toLowerCase()
+        : undefined,
+  };
+
+  const set = Object.fromEntries(
+    Object.entries(validated).filter(([, value]) => value !== undefined)
+  ) as SearchFilters;
+  return Object.keys(set).length > 0 ? set : undefined;
+}
+
+// Validate and normalize configuration
+export function validateConfig(config?: ResearchConfigurationRequest) {
+  const validated = {
+    maxDepth: config?.maxDepth ?? CONFIG_LIMITS.maxDepth.default,
+    maxBreadth: config?.maxBreadth ?? CONFIG_LIMITS.maxBreadth.default,
+    stageCount: config?.stageCount ?? CONFIG_LIMITS.stageCount.default,
+    queriesPerStage:
+      config?.queriesPerStage ?? CONFIG_LIMITS.queriesPerStage.default,
+  };
+
+  // Clamp values to their limits
+  validated.maxDepth = Math.min(
+    Math.max(validated.maxDepth, CONFIG_LIMITS.maxDepth.min),
+    CONFIG_LIMITS.maxDepth.max
+  );
+  validated.maxBreadth = Math.min(
+    Math.max(validated.maxBreadth, CONFIG_LIMITS.maxBreadth.min),
+    CONFIG_LIMITS.maxBreadth.max
+  );
+  validated.stageCount = Math.min(
+    Math.max(validated.stageCount, CONFIG_LIMITS.stageCount.min),
+    CONFIG_LIMITS.stageCount.max
+  );
+  validated.queriesPerStage = Math.min(
+    Math.max(validated.queriesPerStage, CONFIG_LIMITS.queriesPerStage.min),
+    CONFIG_LIMITS.queriesPerStage.max
+  );
+
+  // Fall back to the default model for roles that are unset or unsupported
+  const models = Object.fromEntries(
+    MODEL_ROLES.map((role) => {
+      const model = config?.models?.[role];
+      return [
+        role,
+        model && SUPPORTED_MODELS.includes(model)
+          ? model
+          : DEFAULT_MODELS[role],
+      ];
+    })
+  ) as ModelConfiguration;
+
+  // Fall back to IEEE for unknown citation styles
+  const citationStyle: CitationStyleName =
+    config?.citationStyle && isCitationStyleName(config.citationStyle)
+      ? config.citationStyle
+      : DEFAULT_CITATION_STYLE;
+
+  return {
+    ...validated,
+    models,
+    budget: validateBudget(config?.budget),
+    citationStyle,
+    requirePlanApproval: config?.requirePlanApproval === true,
+    searchFilters: validateSearchFilters(config?.searchFilters),
+  };
+}
@@ -0,0 +1,363 @@
+import { format } from "date-fns";
+import { lexer, Token, Tokens } from "marked";
+import { DeepResearchRun } from "../runs";
+import {
+  ReportBlock,
+  ReportDocument,
+  ReportInline,
+  ReportListItem,
+  ReportMetadata,
+} from "./types";
+
+interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+interface ParseContext {
+  // Reference numbers that have an entry in the references section
+  references: Set<number>;
+  // Whether citations should be linked to their reference entry
+  linkCitations: boolean;
+}
+
+const REFERENCES_HEADING = /^references$/i;
+const REFERENCE_ENTRY = /^\[(\d+)\]/;
+
+/**
+ * Anchor used for the reference entry with the given number
+ */
+export function referenceAnchor(n: number): string {
+  return `ref-${n}`;
+}
+
+/**
+ * Clean up the generated markdown before parsing. Reference entries are
+ * joined with <br/> tags and prefixed with favicons, which don't survive
+ * outside the app, so each entry becomes its own paragraph without an icon.
+ */
+function normalizeReport(markdown: string): string {
+  return markdown
+    .replace(/<br\s*\/?>[ \t]*\n?/gi, "\n\n")
+    .replace(/^(\[\d+\])\s*(?:!\[icon\]\([^)]*\)|📄)\s*/gm, "$1 ");
+}
+
+function inlineText(content: ReportInline[]): string {
+  return content.map((inline) => inline.text).join("");
+}
+
+/**
+ * Split plain text into runs, linking inline citations such as [3] to
+ * their reference entry
+ */
+function textToInlines(
+  text: string,
+  style: InlineStyle,
+  context: ParseContext
+): ReportInline[] {
+  if (!context.linkCitations || style.href) {
+    return text ? [{ text, ...style }] : [];
+  }
+
+  const inlines: ReportInline[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(/\[(\d+)\]/g))) {
+    const n = Number(match[1]);
+    if (!context.references.has(n)) continue;
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      inlines.push({ text: text.slice(lastIndex, index), ...style });
+    }
+    inlines.push({ text: match[0], ...style, href: `#${referenceAnchor(n)}` });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    inlines.push({ text: text.slice(lastIndex), ...style });
+  }
+  return inlines;
+}
+
+function parseInlines(
+  tokens: Token[],
+  context: ParseContext,
+  style: InlineStyle = {}
+): ReportInline[] {
+  return tokens.flatMap((token): ReportInline[] => {
+    switch (token.type) {
+      case "strong":
+        return parseInlines(token.tokens || [], context, {
+          ...style,
+          bold: true,
+        });
+      case "em":
+        return parseInlines(token.tokens || [], context, {
+          ...style,
+          italic: true,
+        });
+      case "del":
+        return parseInlines(token.tokens || [], context, style);
+      case "link":
+        return parseInlines(token.tokens || [], context, {
+          ...style,
+          href: (token as Tokens.Link).href,
+        });
+      case "codespan":
+        return [{ text: token.text, ...style, code: true }];
+      case "br":
+        return [{ text: "\n", ...style }];
+      case "image":
+        // Images are not embedded, keep the alt text instead
+        return textToInlines(token.text || "", style, context);
+      case "html":
+        return [];
+      case "text":
+        return token.tokens
+          ? parseInlines(token.tokens, context, style)
+          : textToInlines(token.text, style, context);
+      default:
+        return "text" in token
+          ? textToInlines(token.text, style, context)
+          : [];
+    }
+  });
+}
+
+function parseListItems(
+  list: Tokens.List,
+  context: ParseContext,
+  level = 0
+): ReportListItem[] {
+  return list.items.flatMap((item) => {
+    const content: ReportInline[] = [];
+    const nested: ReportListItem[] = [];
+
+    item.tokens.forEach((token) => {
+      if (token.type === "list") {
+        nested.push(
+          ...parseListItems(token as Tokens.List, context, level + 1)
+        );
+      } else if (token.type !== "space") {
+        const block = token as Tokens.Generic;
+        if (content.length > 0) content.push({ text: " " });
+        content.push(
+          ...(block.tokens
+            ? parseInlines(block.tokens, context)
+            : textToInlines(block.text || "", {}, context))
+        );
+      }
+    });
+
+    return [{ content, level }, ...nested];
+  });
+}
+
+function parseBlocks(tokens: Token[], context: ParseContext): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  // Depth of the references heading while inside that section
+  let referencesLevel: number | null = null;
+
+  tokens.forEach((token) => {
+    switch (token.type) {
+      case "heading": {
+        const heading = token as Tokens.Heading;
+        if (referencesLevel !== null && heading.depth <= referencesLevel) {
+          referencesLevel = null;
+        }
+        if (REFERENCES_HEADING.test(heading.text.trim())) {
+          referencesLevel = heading.depth;
+        }
+        blocks.push({
+          type: "heading",
+          level: heading.depth,
+          content: parseInlines(heading.tokens, context),
+        });
+        break;
+      }
+      case "paragraph": {
+        const entry =
+          referencesLevel !== null ? token.text.match(REFERENCE_ENTRY) : null;
+        blocks.push({
+          type: "paragraph",
+          content: parseInlines(token.tokens || [], {
+            ...context,
+            linkCitations: !entry,
+          }),
+          anchor: entry ? referenceAnchor(Number(entry[1])) : undefined,
+        });
+        break;
+      }
+      case "list":
+        blocks.push({
+          type: "list",
+          ordered: (token as Tokens.List).ordered,
+          items: parseListItems(token as Tokens.List, context),
+        });
+        break;
+      case "blockquote":
+        parseBlocks(token.tokens || [], context).forEach((block) => {
+          if ("content" in block && block.type !== "heading") {
+            blocks.push({ type: "quote", content: block.content });
+          } else {
+            blocks.push(block);
+          }
+        });
+        break;
+      case "code":
+        blocks.push({ type: "code", text: token.text });
+        break;
+      case "table": {
+        const table = token as Tokens.Table;
+        blocks.push({
+          type: "table",
+          header: table.header.map((cell) =>
+            parseInlines(cell.tokens, context)
+          ),
+          rows: table.rows.map((row) =>
+            row.map((cell) => parseInlines(cell.tokens, context))
+          ),
+        });
+        break;
+      }
+      case "hr":
+        blocks.push({ type: "rule" });
+        break;
+      case "text":
+        blocks.push({
+          type: "paragraph",
+          content: token.tokens
+            ? parseInlines(token.tokens, context)
+            : textToInlines(token.text, {}, context),
+        });
+        break;
+      default:
+        // Spaces, link definitions and raw HTML blocks carry no content
+        break;
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Parse a markdown report into blocks. Inline citations are linked to the
+ * matching entry in the references section.
+ */
+export function parseReport(markdown: string): ReportBlock[] {
+  const normalized = normalizeReport(markdown);
+  const tokens = lexer(normalized);
+
+  // Collect the reference numbers first so only citations that resolve
+  // are turned into links
+  const references = new Set<number>();
+  let inReferences = false;
+  tokens.forEach((token) => {
+    if (token.type === "heading") {
+      inReferences = REFERENCES_HEADING.test(token.text.trim());
+    } else if (inReferences && token.type === "paragraph") {
+      const entry = token.text.match(REFERENCE_ENTRY);
+      if (entry) references.add(Number(entry[1]));
+    }
+  });
+
+  return parseBlocks(tokens, { references, linkCitations: true });
+}
+
+/**
+ * Describe the run configuration as label and value pairs
+ */
+function describeConfiguration(
+  run: DeepResearchRun
+): ReportMetadata["configuration"] {
+  const configuration = run.configuration;
+  if (!configuration) return [];
+
+  const rows: ReportMetadata["configuration"] = [
+    ["Research stages", String(configuration.stageCount)],
+    ["Queries per stage", String(configuration.queriesPerStage)],
+    ["Tree depth", String(configuration.maxDepth)],
+    ["Nodes per level", String(configuration.maxBreadth)],
+  ];
+
+  if (configuration.models) {
+    rows.push([
+      "Models",
+      Object.entries(configuration.models)
+        .map(([role, model]) => `${role}: ${model}`)
+        .join(", "),
+    ]);
+  }
+
+  const budget = configuration.budget;
+  if (budget && Object.keys(budget).length > 0) {
+    const limits = [
+      budget.maxTokens !== undefined &&
+        `${budget.maxTokens.toLocaleString()} tokens`,
+      budget.maxCost !== undefined && `$${budget.maxCost.toFixed(2)}`,
+      budget.maxSearches !== undefined && `${budget.maxSearches} searches`,
+      budget.maxDurationSeconds !== undefined &&
+        `${budget.maxDurationSeconds}s`,
+    ].filter(Boolean);
+    rows.push(["Budget", limits.join(", ")]);
+  }
+
+  rows.push(["Sources", String(run.findings.length)]);
+  return rows;
+}
+
+/**
+ * Notice shown on reports that were cut short by a budget
+ */
+export function describePartialReport(metadata: ReportMetadata): string | null {
+  if (!metadata.partial) return null;
+  return `Partial report: ${
+    metadata.partialReason || "research was stopped early"
+  }`;
+}
+
+/**
+ * Label and value pairs shown at the top of every export
+ */
+export function describeMetadata(metadata: ReportMetadata): [string, string][] {
+  return [
+    ["Topic", metadata.topic],
+    ...(metadata.context
+      ? [["Context", metadata.context] as [string, string]]
+      : []),
+    ["Date", format(new Date(metadata.date), "MMMM d, yyyy")],
+    ...metadata.configuration,
+    ["Run", metadata.uuid],
+  ];
+}
+
+/**
+ * Build the document for a run that has a final report. The report's
+ * leading title heading becomes the document title.
+ */
+export function buildReportDocument(
+  run: DeepResearchRun & { finalReport: string }
+): ReportDocument {
+  const blocks = parseReport(run.finalReport);
+
+  let title = run.topic;
+  const first = blocks[0];
+  if (first?.type === "heading" && first.level === 1) {
+    title = inlineText(first.content).trim() || title;
+    blocks.shift();
+  }
+
+  return {
+    metadata: {
+      uuid: run.uuid,
+      title,
+      topic: run.topic,
+      context: run.context,
+      date: run.completedAt || run.updatedAt,
+      partial: Boolean(run.budgetExceeded),
+      partialReason: run.budgetExceeded?.message ?? null,
+      configuration: describeConfiguration(run),
+    },
+    blocks,
+  };
+}
@@ -0,0 +1,274 @@
+import {
+  AlignmentType,
+  Bookmark,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  InternalHyperlink,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { describeMetadata, describePartialReport } from "./document";
+import { ReportBlock, ReportDocument, ReportInline } from "./types";
+
+const ORDERED_LIST = "ordered-list";
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+/**
+ * Word bookmark names may only contain letters, digits and underscores
+ */
+function bookmarkName(anchor: string): string {
+  return anchor.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function renderInline(inline: ReportInline): ParagraphChild {
+  const run = new TextRun({
+    text: inline.text,
+    bold: inline.bold,
+    italics: inline.italic,
+    font: inline.code ? "Courier New" : undefined,
+    style: inline.href ? "Hyperlink" : undefined,
+  });
+
+  if (!inline.href) return run;
+  return inline.href.startsWith("#")
+    ? new InternalHyperlink({
+        anchor: bookmarkName(inline.href.slice(1)),
+        children: [run],
+      })
+    : new ExternalHyperlink({ link: inline.href, children: [run] });
+}
+
+function renderInlines(content: ReportInline[]): ParagraphChild[] {
+  // Line breaks inside a run are written as separate runs with a break
+  return content.flatMap((inline) =>
+    inline.text.split("\n").map((text, index) =>
+      index === 0
+        ? renderInline({ ...inline, text })
+        : new TextRun({ text, break: 1 })
+    )
+  );
+}
+
+function renderTable(block: Extract<ReportBlock, { type: "table" }>): Table {
+  const row = (cells: ReportInline[][], header: boolean) =>
+    new TableRow({
+      tableHeader: header,
+      children: cells.map(
+        (cell) =>
+          new TableCell({
+            shading: header
+              ? { type: ShadingType.CLEAR, fill: "F4F4F5", color: "auto" }
+              : undefined,
+            children: [
+              new Paragraph({
+                children: renderInlines(
+                  header
+                    ? cell.map((inline) => ({ ...inline, bold: true }))
+                    : cell
+                ),
+              }),
+            ],
+          })
+      ),
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [row(block.header, true), ...block.rows.map((r) => row(r, false))],
+  });
+}
+
+function renderBlock(
+  block: ReportBlock,
+  listInstance: () => number
+): (Paragraph | Table)[] {
+  switch (block.type) {
+    case "heading":
+      return [
+        new Paragraph({
+          heading: HEADING_LEVELS[Math.min(block.level, 6) - 1],
+          children: renderInlines(block.content),
+        }),
+      ];
+    case "paragraph": {
+      const children = renderInlines(block.content);
+      return [
+        new Paragraph({
+          children: block.anchor
+            ? [new Bookmark({ id: bookmarkName(block.anchor), children })]
+            : children,
+        }),
+      ];
+    }
+    case "list": {
+      // Each ordered list restarts its numbering
+      const instance = listInstance();
+      return block.items.map(
+        (item) =>
+          new Paragraph({
+            children: renderInlines(item.content),
+            ...(block.ordered
+              ? {
+                  numbering: {
+                    reference: ORDERED_LIST,
+                    level: Math.min(item.level, 8),
+                    instance,
+                  },
+                }
+              : { bullet: { level: Math.min(item.level, 8) } }),
+          })
+      );
+    }
+    case "quote":
+      return [
+        new Paragraph({
+          indent: { left: 480 },
+          border: {
+            left: { style: BorderStyle.SINGLE, size: 12, color: "D4D4D8" },
+          },
+          children: renderInlines(
+            block.content.map((inline) => ({ ...inline, italic: true }))
+          ),
+        }),
+      ];
+    case "code":
+      return block.text.split("\n").map(
+        (line) =>
+          new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: "F4F4F5", color: "auto" },
+            children: [new TextRun({ text: line, font: "Courier New" })],
+          })
+      );
+    case "table":
+      return [renderTable(block), new Paragraph({})];
+    case "rule":
+      return [
+        new Paragraph({
+          border: {
+            bottom: { style: BorderStyle.SINGLE, size: 6, color: "D4D4D8" },
+          },
+        }),
+      ];
+  }
+}
+
+/**
+ * Render the run metadata as a two column table
+ */
+function renderMetadata({ metadata }: ReportDocument): (Paragraph | Table)[] {
+  const rows = describeMetadata(metadata);
+
+  const notice = describePartialReport(metadata);
+
+  return [
+    ...(notice
+      ? [
+          new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: "FEF3C7", color: "auto" },
+            children: [new TextRun({ text: notice, color: "92400E" })],
+          }),
+        ]
+      : []),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: rows.map(
+        ([label, value]) =>
+          new TableRow({
+            children: [
+              new TableCell({
+                width: { size: 25, type: WidthType.PERCENTAGE },
+                shading: {
+                  type: ShadingType.CLEAR,
+                  fill: "F4F4F5",
+                  color: "auto",
+                },
+                children: [
+                  new Paragraph({
+                    children: [
+                      new TextRun({ text: label, bold: true, size: 18 }),
+                    ],
+                  }),
+                ],
+              }),
+              new TableCell({
+                children: [
+                  new Paragraph({
+                    children: [new TextRun({ text: value, size: 18 })],
+                  }),
+                ],
+              }),
+            ],
+          })
+      ),
+    }),
+    new Paragraph({}),
+  ];
+}
+
+/**
+ * Render a report as a Word document
+ */
+export async function renderReportDocx(
+  document: ReportDocument
+): Promise<Buffer> {
+  const { metadata, blocks } = document;
+
+  let instance = 0;
+  const nextInstance = () => ++instance;
+
+  const doc = new Document({
+    title: metadata.title,
+    subject: metadata.topic,
+    description: `Deep research report on ${metadata.topic}`,
+    numbering: {
+      config: [
+        {
+          reference: ORDERED_LIST,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: {
+              paragraph: {
+                indent: { left: 720 * (level + 1), hanging: 360 },
+              },
+            },
+          })),
+        },
+      ],
+    },
+    sections: [
+      {
+        children: [
+          new Paragraph({
+            heading: HeadingLevel.TITLE,
+            children: [new TextRun(metadata.title)],
+          }),
+          ...renderMetadata(document),
+          ...blocks.flatMap((block) => renderBlock(block, nextInstance)),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBuffer(doc);
+}
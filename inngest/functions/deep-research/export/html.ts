@@ -0,0 +1,147 @@
+import { describeMetadata, describePartialReport } from "./document";
+import { ReportBlock, ReportDocument, ReportInline } from "./types";
+
+const STYLES = `
+  body {
+    max-width: 760px;
+    margin: 40px auto;
+    padding: 0 24px;
+    font-family: Georgia, "Times New Roman", serif;
+    line-height: 1.6;
+    color: #18181b;
+  }
+  h1, h2, h3, h4 { font-family: Helvetica, Arial, sans-serif; line-height: 1.3; }
+  a { color: #1d4ed8; }
+  a.citation { text-decoration: none; }
+  code, pre { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  pre { background: #f4f4f5; padding: 12px; overflow-x: auto; }
+  blockquote { border-left: 3px solid #d4d4d8; margin-left: 0; padding-left: 16px; color: #52525b; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d4d4d8; padding: 6px 10px; text-align: left; vertical-align: top; }
+  .metadata { font-family: Helvetica, Arial, sans-serif; font-size: 0.85em; color: #52525b; margin-bottom: 32px; }
+  .metadata th { width: 160px; background: #f4f4f5; }
+  .partial { background: #fef3c7; border: 1px solid #fcd34d; color: #92400e; padding: 8px 12px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Links the report may point to: web pages, email addresses and its own
+// reference entries
+const SAFE_HREF = /^(https?:|mailto:|#ref-)/i;
+
+function renderInline(inline: ReportInline): string {
+  let html = escapeHtml(inline.text).replace(/\n/g, "<br/>");
+  if (inline.code) html = `<code>${html}</code>`;
+  if (inline.italic) html = `<em>${html}</em>`;
+  if (inline.bold) html = `<strong>${html}</strong>`;
+  // Any other link, e.g. a javascript: URL, is dropped and keeps its text
+  if (inline.href && SAFE_HREF.test(inline.href.trim())) {
+    html = inline.href.startsWith("#")
+      ? `<a class="citation" href="${escapeHtml(inline.href)}">${html}</a>`
+      : `<a href="${escapeHtml(inline.href)}">${html}</a>`;
+  }
+  return html;
+}
+
+function renderInlines(content: ReportInline[]): string {
+  return content.map(renderInline).join("");
+}
+
+function renderList(block: Extract<ReportBlock, { type: "list" }>): string {
+  const tag = block.ordered ? "ol" : "ul";
+  let html = "";
+  let depth = -1;
+
+  // Items are flattened with a nesting level, rebuild the nested lists
+  block.items.forEach((item) => {
+    while (depth < item.level) {
+      html += `<${tag}>`;
+      depth++;
+    }
+    while (depth > item.level) {
+      html += `</${tag}>`;
+      depth--;
+    }
+    html += `<li>${renderInlines(item.content)}</li>`;
+  });
+  while (depth >= 0) {
+    html += `</${tag}>`;
+    depth--;
+  }
+  return html;
+}
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `<h${block.level}>${renderInlines(
+        block.content
+      )}</h${block.level}>`;
+    case "paragraph":
+      return block.anchor
+        ? `<p id="${block.anchor}">${renderInlines(block.content)}</p>`
+        : `<p>${renderInlines(block.content)}</p>`;
+    case "list":
+      return renderList(block);
+    case "quote":
+      return `<blockquote><p>${renderInlines(block.content)}</p></blockquote>`;
+    case "code":
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case "table":
+      return `<table><thead><tr>${block.header
+        .map((cell) => `<th>${renderInlines(cell)}</th>`)
+        .join("")}</tr></thead><tbody>${block.rows
+        .map(
+          (row) =>
+            `<tr>${row
+              .map((cell) => `<td>${renderInlines(cell)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("")}</tbody></table>`;
+    case "rule":
+      return "<hr/>";
+  }
+}
+
+/**
+ * Render a report as a standalone HTML page with inline styles
+ */
+export function renderReportHtml({ metadata, blocks }: ReportDocument): string {
+  const rows = describeMetadata(metadata);
+  const notice = describePartialReport(metadata);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<meta name="description" content="${escapeHtml(metadata.topic)}"/>
+<meta name="date" content="${escapeHtml(metadata.date)}"/>
+<title>${escapeHtml(metadata.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(metadata.title)}</h1>
+<section class="metadata">
+${notice ? `<p class="partial">${escapeHtml(notice)}</p>\n` : ""}<table>
+${rows
+  .map(
+    ([label, value]) =>
+      `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+  )
+  .join("\n")}
+</table>
+</section>
+<main>
+${blocks.map(renderBlock).join("\n")}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,84 @@
+import { DeepResearchRun } from "../runs";
+import {
+  citeSources,
+  formatBibTeX,
+  formatCslJson,
+  getCitationStyle,
+} from "../citation-styles";
+import { buildReportDocument } from "./document";
+import { renderReportDocx } from "./docx";
+import { renderReportHtml } from "./html";
+import { renderReportMarkdown } from "./markdown";
+import { renderReportPdf } from "./pdf";
+import { ExportedReport, ExportFormat } from "./types";
+
+export type { ExportFormat, ExportedReport } from "./types";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  "pdf",
+  "docx",
+  "html",
+  "md",
+  "bibtex",
+  "csl-json",
+];
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Render the final report of a run in the given format, with the run's
+ * topic, date and configuration embedded. The BibTeX and CSL-JSON formats
+ * export only the reference list.
+ */
+export async function exportReport(
+  run: DeepResearchRun & { finalReport: string },
+  format: ExportFormat
+): Promise<ExportedReport> {
+  const document = buildReportDocument(run);
+  const sources = citeSources(
+    getCitationStyle(run.configuration?.citationStyle),
+    run.findings
+  );
+
+  switch (format) {
+    case "pdf":
+      return {
+        body: await renderReportPdf(document),
+        contentType: "application/pdf",
+        extension: "pdf",
+      };
+    case "docx":
+      return {
+        body: await renderReportDocx(document),
+        contentType:
+          "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        extension: "docx",
+      };
+    case "html":
+      return {
+        body: renderReportHtml(document),
+        contentType: "text/html; charset=utf-8",
+        extension: "html",
+      };
+    case "md":
+      return {
+        body: renderReportMarkdown(document.metadata, run.finalReport),
+        contentType: "text/markdown; charset=utf-8",
+        extension: "md",
+      };
+    case "bibtex":
+      return {
+        body: formatBibTeX(sources),
+        contentType: "application/x-bibtex; charset=utf-8",
+        extension: "bib",
+      };
+    case "csl-json":
+      return {
+        body: formatCslJson(sources),
+        contentType: "application/vnd.citationstyles.csl+json; charset=utf-8",
+        extension: "json",
+      };
+  }
+}
@@ -0,0 +1,25 @@
+import { describeMetadata, describePartialReport } from "./document";
+import { ReportMetadata } from "./types";
+
+/**
+ * Render a report as markdown. The original report is kept as is and the
+ * run metadata is added as front matter.
+ */
+export function renderReportMarkdown(
+  metadata: ReportMetadata,
+  report: string
+): string {
+  const notice = describePartialReport(metadata);
+  const frontMatter = [
+    ["Title", metadata.title],
+    ...describeMetadata(metadata),
+    ...(notice ? [["Status", notice]] : []),
+  ]
+    .map(([label, value]) => {
+      const key = label.toLowerCase().replace(/\s+/g, "_");
+      return `${key}: ${JSON.stringify(value)}`;
+    })
+    .join("\n");
+
+  return `---\n${frontMatter}\n---\n\n${report.trim()}\n`;
+}
@@ -0,0 +1,195 @@
+import PDFDocument from "pdfkit";
+import { describeMetadata, describePartialReport } from "./document";
+import { ReportBlock, ReportDocument, ReportInline } from "./types";
+
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const HEADING_SIZES = [20, 16, 13, 12, 11, 11];
+const TEXT_COLOR = "#18181b";
+const MUTED_COLOR = "#52525b";
+const LINK_COLOR = "#1d4ed8";
+
+interface RunOptions {
+  size?: number;
+  color?: string;
+  bold?: boolean;
+  indent?: number;
+  // Named destination placed at the start of the text
+  destination?: string;
+}
+
+function fontFor(inline: ReportInline, bold = false): string {
+  if (inline.code) return "Courier";
+  const isBold = bold || inline.bold;
+  if (isBold && inline.italic) return "Helvetica-BoldOblique";
+  if (isBold) return "Helvetica-Bold";
+  if (inline.italic) return "Helvetica-Oblique";
+  return "Helvetica";
+}
+
+/**
+ * Write inline runs as a single wrapped paragraph. PDFKit carries text
+ * options over between continued calls unless they are explicitly null, so
+ * every link option is always set.
+ */
+function writeInlines(
+  doc: PDFKit.PDFDocument,
+  content: ReportInline[],
+  {
+    size = BODY_SIZE,
+    color = TEXT_COLOR,
+    bold = false,
+    indent = 0,
+    destination,
+  }: RunOptions = {}
+) {
+  const runs = content.filter((inline) => inline.text.length > 0);
+  if (runs.length === 0) return;
+
+  const x = MARGIN + indent;
+  const width = doc.page.width - MARGIN * 2 - indent;
+  doc.x = x;
+
+  runs.forEach((inline, index) => {
+    const internal = inline.href?.startsWith("#") ? inline.href.slice(1) : null;
+    const external = inline.href && !internal ? inline.href : null;
+
+    doc
+      .font(fontFor(inline, bold))
+      .fontSize(size)
+      .fillColor(inline.href ? LINK_COLOR : color)
+      .text(inline.text, {
+        width,
+        continued: index < runs.length - 1,
+        link: external,
+        goTo: internal,
+        destination: index === 0 && destination ? destination : null,
+      } as unknown as PDFKit.Mixins.TextOptions);
+  });
+
+  doc.x = MARGIN;
+}
+
+function writeBlock(doc: PDFKit.PDFDocument, block: ReportBlock) {
+  switch (block.type) {
+    case "heading": {
+      const size = HEADING_SIZES[Math.min(block.level, 6) - 1];
+      doc.moveDown(0.6);
+      if (block.level <= 2) {
+        doc.outline.addItem(block.content.map((i) => i.text).join(""));
+      }
+      writeInlines(doc, block.content, { size, bold: true });
+      doc.moveDown(0.3);
+      break;
+    }
+    case "paragraph":
+      writeInlines(doc, block.content, { destination: block.anchor });
+      doc.moveDown(0.5);
+      break;
+    case "list": {
+      const counters: number[] = [];
+      block.items.forEach((item) => {
+        counters[item.level] = (counters[item.level] || 0) + 1;
+        counters.length = item.level + 1;
+        const marker = block.ordered ? `${counters[item.level]}. ` : "• ";
+        writeInlines(doc, [{ text: marker }, ...item.content], {
+          indent: 16 * (item.level + 1),
+        });
+        doc.moveDown(0.2);
+      });
+      doc.moveDown(0.3);
+      break;
+    }
+    case "quote":
+      writeInlines(
+        doc,
+        block.content.map((inline) => ({ ...inline, italic: true })),
+        { indent: 16, color: MUTED_COLOR }
+      );
+      doc.moveDown(0.5);
+      break;
+    case "code":
+      writeInlines(doc, [{ text: block.text, code: true }], {
+        size: 9,
+        indent: 8,
+      });
+      doc.moveDown(0.5);
+      break;
+    case "table":
+      // Tables are written one row per line with the cells separated
+      writeInlines(
+        doc,
+        block.header.flatMap((cell, i) =>
+          i === 0 ? cell : [{ text: "  |  " }, ...cell]
+        ),
+        { bold: true }
+      );
+      block.rows.forEach((row) =>
+        writeInlines(
+          doc,
+          row.flatMap((cell, i) =>
+            i === 0 ? cell : [{ text: "  |  " }, ...cell]
+          )
+        )
+      );
+      doc.moveDown(0.5);
+      break;
+    case "rule":
+      doc
+        .moveTo(MARGIN, doc.y)
+        .lineTo(doc.page.width - MARGIN, doc.y)
+        .strokeColor("#d4d4d8")
+        .stroke();
+      doc.moveDown(0.5);
+      break;
+  }
+}
+
+/**
+ * Render a report as a PDF
+ */
+export function renderReportPdf(document: ReportDocument): Promise<Buffer> {
+  const { metadata, blocks } = document;
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: MARGIN,
+    info: {
+      Title: metadata.title,
+      Subject: metadata.topic,
+      CreationDate: new Date(metadata.date),
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  writeInlines(doc, [{ text: metadata.title }], {
+    size: 22,
+    bold: true,
+  });
+  doc.moveDown(0.5);
+
+  const notice = describePartialReport(metadata);
+  if (notice) {
+    writeInlines(doc, [{ text: notice }], { size: 9, color: "#92400e" });
+    doc.moveDown(0.3);
+  }
+
+  describeMetadata(metadata).forEach(([label, value]) => {
+    writeInlines(doc, [{ text: `${label}: `, bold: true }, { text: value }], {
+      size: 9,
+      color: MUTED_COLOR,
+    });
+  });
+  doc.moveDown(1);
+
+  blocks.forEach((block) => writeBlock(doc, block));
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,66 @@
+export type ExportFormat =
+  | "pdf"
+  | "docx"
+  | "html"
+  | "md"
+  // Reference list only
+  | "bibtex"
+  | "csl-json";
+
+/**
+ * A run of inline text. `href` is either an external URL or an anchor of the
+ * form `#ref-<n>` pointing at an entry in the references section.
+ */
+export interface ReportInline {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export interface ReportListItem {
+  content: ReportInline[];
+  level: number;
+}
+
+/**
+ * Block level content of a report, independent of the output format
+ */
+export type ReportBlock =
+  | { type: "heading"; level: number; content: ReportInline[] }
+  | { type: "paragraph"; content: ReportInline[]; anchor?: string }
+  | { type: "list"; ordered: boolean; items: ReportListItem[] }
+  | { type: "quote"; content: ReportInline[] }
+  | { type: "code"; text: string }
+  | { type: "table"; header: ReportInline[][]; rows: ReportInline[][][] }
+  | { type: "rule" };
+
+/**
+ * Run details embedded in every export
+ */
+export interface ReportMetadata {
+  uuid: string;
+  title: string;
+  topic: string;
+  context: string | null;
+  date: string;
+  partial: boolean;
+  partialReason: string | null;
+  // Label and value pairs describing how the run was configured
+  configuration: [string, string][];
+}
+
+/**
+ * A report parsed into blocks, with the leading title heading removed
+ */
+export interface ReportDocument {
+  metadata: ReportMetadata;
+  blocks: ReportBlock[];
+}
+
+export interface ExportedReport {
+  body: Buffer | string;
+  contentType: string;
+  extension: string;
+}
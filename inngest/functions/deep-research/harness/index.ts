@@ -0,0 +1,495 @@
+import {
+  createNetwork,
+  createState,
+  NetworkRun,
+  Tool,
+} from "@inngest/agent-kit";
+import { LanguageModelV1 } from "ai";
+import {
+  createResearchRouter,
+  NetworkState,
+  ProgressEvent,
+} from "../../deep-research";
+import { stagingAgent } from "../staging-agent";
+import { reasoningAgent } from "../reasoning-agent";
+import { reportingAgent } from "../reporting-agent";
+import { collectUniqueSources } from "../citations";
+import { CitationVerification } from "../citation-verification";
+import { setLanguageModelOverride } from "../models";
+import {
+  createFixtureSearchProvider,
+  SearchFixture,
+  SearchProvider,
+  setSearchProvider,
+} from "../search";
+import { createTokenUsage, TokenSummary } from "../token-tracking";
+import { createMemorySourceStore, setSourceStore } from "../source-store";
+import { SourcePassage } from "../chunking";
+import { PlanApproval } from "../plan";
+import { SteeringInstruction } from "../steering";
+import { answerReportQuestion, ReportAnswer } from "../report-chat";
+import {
+  createRefreshContext,
+  createRefreshStages,
+  startRefresh,
+} from "../refresh";
+import { createMockLanguageModel } from "./mock-model";
+
+export { createMockLanguageModel } from "./mock-model";
+export type { MockLanguageModelOptions } from "./mock-model";
+
+export interface HarnessOptions {
+  topic: string;
+  context?: string | null;
+  configuration: NonNullable<NetworkState["configuration"]>;
+  // Recorded search data, or a ready made provider
+  search: SearchFixture | SearchProvider;
+  // Defaults to the mock language model
+  model?: LanguageModelV1;
+  maxIter?: number;
+  // Reviews the plan of runs that require approval; approves it unchanged
+  // by default
+  approvePlan?: (state: NetworkState) => Promise<PlanApproval | null>;
+  // Steers the run before each routing decision, the way a user would
+  // through the steering route
+  steer?: (state: NetworkState) => Promise<SteeringInstruction[]>;
+  // Refreshes an earlier harness run as if it had finished at `since`
+  refresh?: { prior: HarnessResult; since: string };
+}
+
+export interface HarnessStageSummary {
+  name: string;
+  reasoningComplete: boolean;
+  analysisComplete: boolean;
+  // Nodes the user added while the run was in progress are counted in
+  // addedNodes instead
+  nodesPerDepth: Record<number, number>;
+  addedNodes: number;
+  // Nodes the user marked irrelevant are not expected to have findings
+  nodesWithoutFindings: number;
+  // Nodes below the root level that aren't linked to a parent one level up
+  nodesWithoutParent: number;
+  // Researched nodes without a relevance score
+  unscoredNodes: number;
+  // Researched nodes without a reflection on their findings
+  nodesWithoutReflection: number;
+  // Kinds of task the stage has a self-discovered reasoning strategy for
+  reasoningStrategies: string[];
+  // Initial queries were revised against the earlier stages
+  initialQueriesRefined: boolean;
+}
+
+export interface HarnessSummary {
+  stages: HarnessStageSummary[];
+  uniqueSourceCount: number;
+  // Unique sources whose full text was archived
+  archivedSourceCount: number;
+  citationCount: number;
+  reportHeadings: string[];
+  referenceCount: number;
+  citedNumbers: number[];
+  citationChecks: CitationVerification["summary"] | null;
+  tokenUsage: TokenSummary | null;
+  inferenceCalls: number;
+}
+
+export interface HarnessResult {
+  state: NetworkState;
+  events: ProgressEvent[];
+  // Agents in the order the router picked them
+  agentCalls: string[];
+  summary: HarnessSummary;
+}
+
+/**
+ * Step tools for running outside of Inngest. Wrapped calls are simply
+ * invoked in-process.
+ */
+const harnessStep = {
+  run: async (_id: string, fn: () => unknown) => fn(),
+  ai: {
+    wrap: async (
+      _id: string,
+      fn: (...args: unknown[]) => unknown,
+      ...args: unknown[]
+    ) => fn(...args),
+  },
+} as unknown as Tool.Options<NetworkState>["step"];
+
+/**
+ * Run the deep research network end to end in-process with a mock language
+ * model and recorded search results.
+ *
+ * The router is the same one used by `deepResearchAgent`. Each agent it
+ * picks has a single tool, which is called directly in place of the agent's
+ * own inference call, so no model or search API is ever reached.
+ */
+export async function runResearchHarness({
+  topic,
+  context = null,
+  configuration,
+  search,
+  model = createMockLanguageModel(),
+  maxIter = 25,
+  approvePlan = async () => ({ uuid: "harness" }),
+  steer,
+  refresh,
+}: HarnessOptions): Promise<HarnessResult> {
+  const uuid = "harness";
+  const events: ProgressEvent[] = [];
+  const agentCalls: string[] = [];
+
+  const router = createResearchRouter({
+    publish: async ({ data }: { data: ProgressEvent }) => {
+      events.push(data);
+    },
+    uuid,
+    topic,
+    waitForPlanApproval: approvePlan,
+    takeSteering: steer,
+  });
+
+  const state = createState<NetworkState>({
+    topic,
+    context,
+    configuration,
+    reasoningStages: [],
+    stagingComplete: false,
+    currentStageIndex: 0,
+    searchedUrls: new Set<string>(),
+    analysisCache: new Map<string, string>(),
+    passageCache: new Map<string, SourcePassage[]>(),
+    tokenUsage: createTokenUsage(),
+    "session-uuid": uuid,
+  });
+  if (refresh) {
+    // Copied the way a step result would be, so the prior run is untouched
+    const prior = structuredClone({
+      uuid,
+      stages: refresh.prior.state.reasoningStages || [],
+      finalReport: refresh.prior.state.finalReport ?? null,
+      completedAt: refresh.since,
+      updatedAt: refresh.since,
+    });
+    startRefresh(
+      state.data,
+      createRefreshContext(prior),
+      createRefreshStages(prior)
+    );
+  }
+
+  const network = createNetwork<NetworkState>({
+    name: "Deep Research Harness",
+    agents: [stagingAgent, reasoningAgent, reportingAgent],
+    maxIter,
+  });
+  const run = new NetworkRun(network, state);
+
+  setLanguageModelOverride(model);
+  setSearchProvider(
+    "search" in search ? search : createFixtureSearchProvider(search)
+  );
+  setSourceStore(createMemorySourceStore());
+
+  try {
+    for (let callCount = 0; callCount < maxIter; callCount++) {
+      const next = await router({
+        input: topic,
+        network: run,
+        stack: [],
+        callCount,
+      });
+      if (!next) break;
+
+      const agents = Array.isArray(next) ? next : [next];
+      for (const agent of agents) {
+        agentCalls.push(agent.name);
+        for (const tool of Array.from(agent.tools.values())) {
+          await tool.handler({}, { agent, network: run, step: harnessStep });
+        }
+      }
+    }
+  } finally {
+    setLanguageModelOverride(null);
+    setSearchProvider(null);
+    setSourceStore(null);
+  }
+
+  return {
+    state: run.state.data,
+    events,
+    agentCalls,
+    summary: summarizeResearchState(run.state.data),
+  };
+}
+
+/**
+ * Ask a follow-up question about the report of a harness run, offline like
+ * the run itself
+ */
+export async function runReportQuestionHarness({
+  result,
+  question,
+  search,
+  model = createMockLanguageModel(),
+}: {
+  result: HarnessResult;
+  question: string;
+  search: SearchFixture | SearchProvider;
+  model?: LanguageModelV1;
+}): Promise<Omit<ReportAnswer, "id" | "createdAt">> {
+  const { state } = result;
+  const stages = state.reasoningStages || [];
+
+  setLanguageModelOverride(model);
+  setSearchProvider(
+    "search" in search ? search : createFixtureSearchProvider(search)
+  );
+
+  try {
+    return await answerReportQuestion({
+      run: {
+        topic: state.topic || "",
+        configuration: state.configuration ?? null,
+        stages,
+        findings: collectUniqueSources(stages),
+        finalReport: state.finalReport ?? null,
+      },
+      question,
+      step: harnessStep,
+    });
+  } finally {
+    setLanguageModelOverride(null);
+    setSearchProvider(null);
+  }
+}
+
+/**
+ * Check an answer to a follow-up question against the report it was asked
+ * about and return a description of every problem found
+ */
+export function checkReportAnswer(
+  answer: Omit<ReportAnswer, "id" | "createdAt">,
+  { summary }: HarnessResult
+): string[] {
+  const problems: string[] = [];
+
+  if (!answer.answer) {
+    problems.push("The follow-up question got an empty answer");
+  }
+  if (answer.usage === null || answer.usage.totalTokens === 0) {
+    problems.push("No token usage was recorded for the answer");
+  }
+  answer.sources.forEach((source, i) => {
+    if (source.index !== summary.referenceCount + i + 1) {
+      problems.push(
+        `New source ${source.url} is numbered ${source.index}, not after the report's references`
+      );
+    }
+  });
+
+  const lastNumber = summary.referenceCount + answer.sources.length;
+  Array.from(answer.answer.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]))
+    .filter((n) => n < 1 || n > lastNumber)
+    .forEach((n) => problems.push(`Answer cites missing reference [${n}]`));
+
+  return problems;
+}
+
+/**
+ * Summarize the parts of a finished run that the harness checks
+ */
+export function summarizeResearchState(state: NetworkState): HarnessSummary {
+  const stages = state.reasoningStages || [];
+  const report = state.finalReport || "";
+  const [body, references = ""] = report.split(/^## References\s*$/m);
+
+  return {
+    stages: stages.map((stage) => {
+      const nodes = stage.reasoningTree?.nodes || [];
+      const nodesPerDepth: Record<number, number> = {};
+      nodes
+        .filter((node) => !node.addedByUser)
+        .forEach((node) => {
+          nodesPerDepth[node.depth] = (nodesPerDepth[node.depth] || 0) + 1;
+        });
+
+      return {
+        name: stage.name,
+        reasoningComplete: stage.reasoningComplete,
+        analysisComplete: stage.analysisComplete,
+        nodesPerDepth,
+        addedNodes: nodes.filter((node) => node.addedByUser).length,
+        nodesWithoutFindings: nodes.filter(
+          (node) => node.findings.length === 0 && !node.irrelevant
+        ).length,
+        unscoredNodes: nodes.filter(
+          (node) =>
+            node.findings.length > 0 &&
+            (node.relevanceScore === undefined ||
+              node.findings.some(
+                (finding) => finding.relevanceScore === undefined
+              ))
+        ).length,
+        initialQueriesRefined: stage.initialQueriesRefined || false,
+        reasoningStrategies: Object.entries(stage.reasoningStrategies || {})
+          .filter(([, strategy]) => strategy && strategy.modules.length > 0)
+          .map(([catalog]) => catalog),
+        nodesWithoutReflection: nodes.filter(
+          (node) => node.findings.length > 0 && !node.reflection
+        ).length,
+        nodesWithoutParent: nodes.filter((node) => {
+          if (node.depth === 0 || node.addedByUser) return false;
+          const parent = nodes.find(({ id }) => id === node.parentId);
+          return (
+            !parent ||
+            parent.depth !== node.depth - 1 ||
+            !parent.children.includes(node.id)
+          );
+        }).length,
+      };
+    }),
+    uniqueSourceCount: collectUniqueSources(stages).length,
+    archivedSourceCount: collectUniqueSources(stages).filter(
+      (finding) => finding.sourceRef
+    ).length,
+    citationCount: state.citations?.size || 0,
+    reportHeadings: (body.match(/^#{1,3} .+$/gm) || []).map((heading) =>
+      heading.trim()
+    ),
+    referenceCount: (references.match(/^\[\d+\]/gm) || []).length,
+    citedNumbers: Array.from(
+      new Set(
+        Array.from(body.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]))
+      )
+    ).sort((a, b) => a - b),
+    citationChecks: state.citationVerification?.summary || null,
+    tokenUsage: state.tokenUsage?.total || null,
+    inferenceCalls: state.tokenUsage?.auditTrail.length || 0,
+  };
+}
+
+/**
+ * Check a harness run against the shape the configuration asks for and
+ * return a description of every problem found. An empty list means the run
+ * went through every stage and produced a well formed report.
+ */
+export function checkResearchRun(
+  { state, events, summary }: HarnessResult,
+  { stageCount, queriesPerStage, maxBreadth, maxDepth }: HarnessOptions["configuration"]
+): string[] {
+  const problems: string[] = [];
+
+  if (!state.networkComplete) {
+    problems.push("Network did not complete");
+  }
+  if (events[events.length - 1]?.eventType !== "complete") {
+    problems.push("Last progress event is not a complete event");
+  }
+  if (events.some((event) => event.eventType === "error")) {
+    problems.push("An error event was published");
+  }
+
+  if (summary.stages.length !== stageCount) {
+    problems.push(
+      `Expected ${stageCount} stages, got ${summary.stages.length}`
+    );
+  }
+
+  summary.stages.forEach((stage, index) => {
+    const label = `Stage ${index + 1}`;
+    if (!stage.reasoningComplete || !stage.analysisComplete) {
+      problems.push(`${label} did not complete reasoning and analysis`);
+    }
+    if (stage.nodesWithoutFindings > 0) {
+      problems.push(
+        `${label} has ${stage.nodesWithoutFindings} nodes without findings`
+      );
+    }
+
+    for (let depth = 0; depth < maxDepth; depth++) {
+      const expected = depth === 0 ? queriesPerStage : maxBreadth;
+      const actual = stage.nodesPerDepth[depth] || 0;
+      if (actual !== expected) {
+        problems.push(
+          `${label} expected ${expected} nodes at depth ${depth}, got ${actual}`
+        );
+      }
+    }
+    if (stage.unscoredNodes > 0) {
+      problems.push(
+        `${label} has ${stage.unscoredNodes} nodes without relevance scores`
+      );
+    }
+    if (index > 0 && !stage.initialQueriesRefined) {
+      problems.push(
+        `${label} did not revise its initial queries against earlier stages`
+      );
+    }
+    const expectedStrategies = [
+      "planning",
+      ...(maxDepth > 1 ? ["followUp"] : []),
+      "analysis",
+    ];
+    const missingStrategies = expectedStrategies.filter(
+      (catalog) => !stage.reasoningStrategies.includes(catalog)
+    );
+    if (missingStrategies.length > 0) {
+      problems.push(
+        `${label} has no reasoning strategy for ${missingStrategies.join(", ")}`
+      );
+    }
+    if (stage.nodesWithoutReflection > 0) {
+      problems.push(
+        `${label} has ${stage.nodesWithoutReflection} nodes without a reflection`
+      );
+    }
+    if (stage.nodesWithoutParent > 0) {
+      problems.push(
+        `${label} has ${stage.nodesWithoutParent} nodes without a parent`
+      );
+    }
+    if (stage.nodesPerDepth[maxDepth]) {
+      problems.push(`${label} has nodes beyond depth ${maxDepth - 1}`);
+    }
+  });
+
+  if (summary.citationCount !== summary.uniqueSourceCount) {
+    problems.push(
+      `Expected ${summary.uniqueSourceCount} citations, got ${summary.citationCount}`
+    );
+  }
+  if (summary.archivedSourceCount !== summary.uniqueSourceCount) {
+    problems.push(
+      `${
+        summary.uniqueSourceCount - summary.archivedSourceCount
+      } sources have no archived text`
+    );
+  }
+  if (!state.draftReport) {
+    problems.push("No draft report was generated");
+  }
+  if (!state.finalReport) {
+    problems.push("No final report was generated");
+  }
+  if (summary.referenceCount !== summary.citationCount) {
+    problems.push(
+      `Expected ${summary.citationCount} references, got ${summary.referenceCount}`
+    );
+  }
+  if (summary.reportHeadings.length === 0) {
+    problems.push("Final report has no headings");
+  }
+  summary.citedNumbers
+    .filter((n) => n < 1 || n > summary.referenceCount)
+    .forEach((n) => problems.push(`Report cites missing reference [${n}]`));
+  if (summary.citedNumbers.length > 0 && !summary.citationChecks) {
+    problems.push("Citations in the report were not verified");
+  }
+
+  if (!summary.tokenUsage || summary.tokenUsage.totalTokens === 0) {
+    problems.push("No token usage was recorded");
+  }
+
+  return problems;
+}
@@ -0,0 +1,144 @@
+import { LanguageModelV1, LanguageModelV1Prompt } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+
+/**
+ * The subset of JSON schema produced for the zod schemas used by the
+ * research tools
+ */
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  minimum?: number;
+}
+
+export interface MockLanguageModelOptions {
+  /**
+   * Custom text responder. Returning undefined falls back to the default
+   * response for the prompt.
+   */
+  respond?: (prompt: string) => string | undefined;
+}
+
+/**
+ * Flatten a prompt into plain text
+ */
+function promptToText(prompt: LanguageModelV1Prompt): string {
+  return prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => ("text" in part ? part.text : ""))
+            .join("")
+    )
+    .join("\n");
+}
+
+/**
+ * Rough token estimate used for the mock usage numbers
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Build a value matching the schema. Strings are labelled with their path
+ * and a running counter so every generated value is unique but stable
+ * between runs.
+ */
+function generateValue(
+  schema: JsonSchema,
+  path: string,
+  nextId: () => number
+): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [
+          key,
+          generateValue(value, path ? `${path}.${key}` : key, nextId),
+        ])
+      );
+    case "array": {
+      const length = schema.minItems ?? Math.min(1, schema.maxItems ?? 1);
+      return Array.from({ length }, (_, i) =>
+        generateValue(schema.items || {}, `${path}.${i}`, nextId)
+      );
+    }
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return `${path} ${nextId()}`;
+  }
+}
+
+/**
+ * Default text response. The editing step gets its draft back unchanged so
+ * citations and references survive, report sections get a heading, and
+ * everything else gets a short paragraph citing the first source.
+ */
+function defaultTextResponse(prompt: string, id: number): string {
+  const draft = prompt.match(
+    /DRAFT REPORT:\n([\s\S]*?)\n\nYour task is to edit/
+  );
+  if (draft) return draft[1];
+
+  const section = prompt.match(/SECTION TO WRITE: (.+)/);
+  if (section) {
+    return `## ${section[1].trim()}\n\nMock section content ${id} [1].`;
+  }
+
+  return `Mock analysis ${id}. The source supports the query [1].`;
+}
+
+/**
+ * Create a deterministic language model for offline runs. Object
+ * generation returns values shaped by the requested JSON schema and text
+ * generation returns canned responses.
+ */
+export function createMockLanguageModel({
+  respond,
+}: MockLanguageModelOptions = {}): LanguageModelV1 {
+  let counter = 0;
+  const nextId = () => ++counter;
+
+  return new MockLanguageModelV1({
+    provider: "mock",
+    modelId: "mock-model",
+    defaultObjectGenerationMode: "json",
+    doGenerate: async ({ mode, prompt }) => {
+      const promptText = promptToText(prompt);
+
+      const text =
+        mode.type === "object-json"
+          ? JSON.stringify(
+              generateValue((mode.schema || {}) as JsonSchema, "", nextId)
+            )
+          : respond?.(promptText) ??
+            defaultTextResponse(promptText, nextId());
+
+      return {
+        text,
+        finishReason: "stop",
+        usage: {
+          promptTokens: estimateTokens(promptText),
+          completionTokens: estimateTokens(text),
+        },
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+  });
+}
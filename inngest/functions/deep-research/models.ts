@@ -0,0 +1,79 @@
+import { openai } from "@inngest/agent-kit";
+import { LanguageModelV1 } from "ai";
+import { openai as vercelOpenAI } from "@ai-sdk/openai";
+
+/**
+ * Roles that a model can be chosen for:
+ * - planner: creates the research stages and initial queries
+ * - analyst: analyzes each individual search result
+ * - synthesizer: writes node reflections, follow-up queries, stage analyses
+ *   and report sections
+ * - editor: edits the draft into the final report
+ */
+export type ModelRole = "planner" | "analyst" | "synthesizer" | "editor";
+
+export type ModelConfiguration = Record<ModelRole, string>;
+
+export const MODEL_ROLES: ModelRole[] = [
+  "planner",
+  "analyst",
+  "synthesizer",
+  "editor",
+];
+
+// Models that can be selected for a role
+export const SUPPORTED_MODELS = [
+  "gpt-4o",
+  "gpt-4o-mini",
+  "gpt-4.1",
+  "gpt-4.1-mini",
+  "gpt-4.1-nano",
+];
+
+export const DEFAULT_MODELS: ModelConfiguration = {
+  planner: "gpt-4o",
+  analyst: "gpt-4o",
+  synthesizer: "gpt-4o",
+  editor: "gpt-4o",
+};
+
+let languageModelOverride: LanguageModelV1 | null = null;
+
+/**
+ * Get the model name configured for a role, falling back to the default
+ */
+export function getModelName(
+  role: ModelRole,
+  models?: Partial<ModelConfiguration>
+): string {
+  return models?.[role] || DEFAULT_MODELS[role];
+}
+
+/**
+ * Get the language model used for direct LLM inference in a role. An
+ * override, when set, is used for every role.
+ */
+export function getLanguageModel(
+  role: ModelRole,
+  models?: Partial<ModelConfiguration>
+): LanguageModelV1 {
+  return languageModelOverride || vercelOpenAI(getModelName(role, models));
+}
+
+/**
+ * Get the AgentKit model adapter for an agent acting in a role
+ */
+export function getAgentModel(
+  role: ModelRole,
+  models?: Partial<ModelConfiguration>
+) {
+  return openai({ model: getModelName(role, models) });
+}
+
+/**
+ * Replace the language model used by the research tools, e.g. with a mock
+ * model for offline runs. Pass null to restore the default.
+ */
+export function setLanguageModelOverride(model: LanguageModelV1 | null) {
+  languageModelOverride = model;
+}
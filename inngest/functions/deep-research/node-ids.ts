@@ -0,0 +1,16 @@
+import { createHash } from "crypto";
+
+/**
+ * Build the id of a reasoning node from where it sits in the research, e.g.
+ * its stage, parent and position. Inngest replays a function from the start
+ * on every step, so an id must come out the same each time the code that
+ * creates the node runs again; ids the user was sent then still match.
+ */
+export function createNodeId(
+  ...parts: Array<string | number | null | undefined>
+): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify(parts))
+    .digest("hex");
+  return `node-${hash.substring(0, 16)}`;
+}
@@ -0,0 +1,114 @@
+import { DeepResearchRun } from "../runs";
+import { createSmtpTransport } from "./smtp";
+import { deliverWebhook, getWebhookUrls, signWebhookBody } from "./webhook";
+import { EmailMessage, EmailTransport, RunNotification } from "./types";
+
+export type {
+  EmailMessage,
+  EmailTransport,
+  NotificationCitation,
+  RunNotification,
+} from "./types";
+export type { SmtpOptions } from "./smtp";
+export { createSmtpTransport, deliverWebhook, getWebhookUrls, signWebhookBody };
+
+let emailTransportOverride: EmailTransport | null = null;
+
+/**
+ * Replace the transport returned by getEmailTransport, e.g. with another
+ * email service. Pass null to restore the default.
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  emailTransportOverride = transport;
+}
+
+/**
+ * Get the transport notification emails are sent with: SMTP when SMTP_HOST
+ * is set, otherwise none and no email is sent
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (emailTransportOverride) return emailTransportOverride;
+  return process.env.SMTP_HOST ? createSmtpTransport() : null;
+}
+
+/**
+ * The addresses in DEEP_RESEARCH_NOTIFY_EMAILS, comma separated, that are
+ * told about every run
+ */
+export function getNotifyEmails(): string[] {
+  return (process.env.DEEP_RESEARCH_NOTIFY_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build the notification for a finished run
+ */
+export function createRunNotification(run: DeepResearchRun): RunNotification {
+  const citations = run.findings
+    .filter((finding) => run.citations?.[finding.source] !== undefined)
+    .map((finding) => ({
+      number: run.citations![finding.source],
+      url: finding.source,
+      title: finding.title ?? null,
+      author: finding.author ?? null,
+      publishedDate: finding.publishedDate ?? null,
+    }))
+    .sort((a, b) => a.number - b.number);
+
+  return {
+    event:
+      run.status === "failed"
+        ? "deep-research.failed"
+        : "deep-research.completed",
+    uuid: run.uuid,
+    topic: run.topic,
+    status: run.status,
+    partial: Boolean(run.budgetExceeded),
+    report: run.finalReport,
+    citations,
+    usage: run.usage,
+    error: run.error,
+    scheduleId: run.scheduleId,
+    completedAt: run.completedAt,
+  };
+}
+
+/**
+ * Write the email telling recipients a run finished, with its report
+ */
+export function formatNotificationEmail(
+  notification: RunNotification,
+  to: string[]
+): EmailMessage {
+  const { topic, uuid, usage } = notification;
+
+  if (notification.event === "deep-research.failed") {
+    return {
+      to,
+      subject: `Research failed: ${topic}`,
+      text: [
+        `The research run on "${topic}" failed.`,
+        `Error: ${notification.error || "Unknown error"}`,
+        `Run: ${uuid}`,
+      ].join("\n\n"),
+    };
+  }
+
+  return {
+    to,
+    subject: `${notification.partial ? "Partial research" : "Research"} complete: ${topic}`,
+    text: [
+      `The research run on "${topic}" is complete${
+        notification.partial ? ", cut short by its budget" : ""
+      }.`,
+      `Run: ${uuid}`,
+      usage &&
+        `Usage: ${usage.totalTokens} tokens, $${usage.cost.toFixed(2)}`,
+      notification.report || "No report was generated.",
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
@@ -0,0 +1,210 @@
+import net from "net";
+import tls from "tls";
+import { once } from "events";
+import { randomUUID } from "crypto";
+import { EmailMessage, EmailTransport } from "./types";
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect over TLS from the start (usually port 465). Otherwise STARTTLS
+  // is used when the server offers it.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Collect the replies a server sends on a socket. Multiline replies are
+ * joined; a reply is complete at the line with a space after its code.
+ */
+function createReplyReader(socket: net.Socket) {
+  const replies: SmtpReply[] = [];
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  let pending: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  const settle = () => {
+    if (!pending) return;
+    const waiting = pending;
+    if (replies.length > 0) {
+      pending = null;
+      waiting.resolve(replies.shift()!);
+    } else if (failure) {
+      pending = null;
+      waiting.reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({
+          code: Number(line.slice(0, 3)),
+          text: lines.map((l) => l.slice(4)).join("\n"),
+        });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    settle();
+  };
+  const onClose = () => onError(new Error("SMTP connection closed"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        pending = { resolve, reject };
+        settle();
+      }),
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+/**
+ * Encode a header value that isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function formatMessage(from: string, message: EmailMessage): string {
+  const domain = from.split("@")[1]?.replace(/>.*$/, "") || "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  // Base64 keeps lines short and never starts one with a dot
+  const body = Buffer.from(message.text, "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+async function sendMail(options: SmtpOptions, message: EmailMessage) {
+  let socket: net.Socket = options.secure
+    ? tls.connect({
+        host: options.host,
+        port: options.port,
+        servername: options.host,
+      })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error("SMTP connection timed out"))
+  );
+  await once(socket, options.secure ? "secureConnect" : "connect");
+
+  let reader = createReplyReader(socket);
+  const command = async (line: string | null, expected: number[]) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expected.includes(reply.code)) {
+      // Only the verb is reported so credentials never end up in logs
+      const verb = line?.split(" ")[0] ?? "greeting";
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const hello = await command("EHLO localhost", [250]);
+
+    if (!options.secure && /^STARTTLS\b/im.test(hello.text)) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      const upgraded = tls.connect({ socket, servername: options.host });
+      await once(upgraded, "secureConnect");
+      socket = upgraded;
+      reader = createReplyReader(socket);
+      await command("EHLO localhost", [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(
+        `\0${options.user}\0${options.password || ""}`
+      ).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    const sender = options.from.match(/<([^>]+)>/)?.[1] || options.from;
+    await command(`MAIL FROM:<${sender}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+    // The message ends with a line break, so the dot is on a line of its own
+    await command(`${formatMessage(options.from, message)}.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    // Errors while closing don't matter once the message is sent or failed
+    socket.on("error", () => undefined);
+    socket.destroy();
+  }
+}
+
+/**
+ * Email transport that sends through an SMTP server, configured by default
+ * from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and
+ * SMTP_FROM
+ */
+export function createSmtpTransport(
+  options: Partial<SmtpOptions> = {}
+): EmailTransport {
+  const port = options.port ?? Number(process.env.SMTP_PORT || 587);
+  const resolved: SmtpOptions = {
+    host: options.host ?? process.env.SMTP_HOST ?? "",
+    port,
+    secure:
+      options.secure ?? (process.env.SMTP_SECURE === "true" || port === 465),
+    user: options.user ?? process.env.SMTP_USER,
+    password: options.password ?? process.env.SMTP_PASSWORD,
+    from: options.from ?? process.env.SMTP_FROM ?? "",
+  };
+
+  if (!resolved.host || !resolved.from) {
+    throw new Error("SMTP_HOST and SMTP_FROM are required for SMTP email");
+  }
+
+  return {
+    name: "smtp",
+    send: (message) => sendMail(resolved, message),
+  };
+}
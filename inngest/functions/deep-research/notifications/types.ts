@@ -0,0 +1,50 @@
+import { TokenSummary } from "../token-tracking";
+import { RunStatus } from "../runs";
+
+/**
+ * A source cited in the report, by its number in the references
+ */
+export interface NotificationCitation {
+  number: number;
+  url: string;
+  title: string | null;
+  author: string | null;
+  publishedDate: string | null;
+}
+
+/**
+ * What is delivered when a run finishes: the JSON body of every webhook
+ * and the content of the email
+ */
+export interface RunNotification {
+  event: "deep-research.completed" | "deep-research.failed";
+  uuid: string;
+  topic: string;
+  status: RunStatus;
+  // Set when a budget cut the research short
+  partial: boolean;
+  // Final report as markdown, with its references
+  report: string | null;
+  citations: NotificationCitation[];
+  usage: TokenSummary | null;
+  error: string | null;
+  scheduleId: string | null;
+  completedAt: string | null;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * EmailTransport
+ *
+ * Anything that can send a plain text email. Notifications only talk to
+ * this interface so that SMTP can be swapped for another service.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,65 @@
+import { createHmac } from "crypto";
+import { RunNotification } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * The webhook URLs set in DEEP_RESEARCH_WEBHOOK_URLS, comma separated
+ */
+export function getWebhookUrls(): string[] {
+  return (process.env.DEEP_RESEARCH_WEBHOOK_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Sign a webhook body. The signature is an HMAC-SHA256 of the timestamp and
+ * the body joined by a dot, so receivers can reject old deliveries.
+ */
+export function signWebhookBody(
+  body: string,
+  timestamp: number,
+  secret: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * POST a notification to a webhook, signed with
+ * DEEP_RESEARCH_WEBHOOK_SECRET. Throws unless the webhook responds with a
+ * 2xx status, so the delivery can be retried.
+ */
+export async function deliverWebhook(
+  url: string,
+  notification: RunNotification,
+  secret: string = process.env.DEEP_RESEARCH_WEBHOOK_SECRET || ""
+): Promise<void> {
+  if (!secret) {
+    throw new Error("DEEP_RESEARCH_WEBHOOK_SECRET is required for webhooks");
+  }
+
+  const body = JSON.stringify(notification);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const response = await fetch(url, {
+    method: "POST",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    headers: {
+      "Content-Type": "application/json",
+      "X-Deep-Research-Event": notification.event,
+      "X-Deep-Research-Timestamp": String(timestamp),
+      "X-Deep-Research-Signature": `sha256=${signWebhookBody(
+        body,
+        timestamp,
+        secret
+      )}`,
+    },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook ${url} responded with status ${response.status}`);
+  }
+}
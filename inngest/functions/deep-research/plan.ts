@@ -0,0 +1,137 @@
+import { ReasoningNode, ReasoningStage } from "../deep-research";
+import { createNodeId } from "./node-ids";
+
+/**
+ * A research plan as reviewed by the user: the stages in order, each with
+ * its initial queries. Stages and queries kept from the generated plan carry
+ * their ids; anything without an id was added by the user.
+ */
+export interface ResearchPlanQuery {
+  id?: string;
+  query: string;
+  reasoning?: string;
+}
+
+export interface ResearchPlanStage {
+  id?: number;
+  name: string;
+  description: string;
+  queries: ResearchPlanQuery[];
+}
+
+/**
+ * Data of the event that approves a plan. Without `stages` the plan is
+ * approved as generated.
+ */
+export interface PlanApproval {
+  uuid: string;
+  stages?: ResearchPlanStage[];
+}
+
+export const PLAN_LIMITS = {
+  maxStages: 5,
+  maxQueriesPerStage: 5,
+  maxQueryLength: 500,
+} as const;
+
+/**
+ * How long a run waits for its plan to be approved before continuing with
+ * the plan as generated
+ */
+export const PLAN_APPROVAL_TIMEOUT = "24h";
+
+/**
+ * Check an edited plan, returning what is wrong with it or null if it can
+ * be applied
+ */
+export function validateResearchPlan(stages: unknown): string | null {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return "The plan must have at least one stage";
+  }
+  if (stages.length > PLAN_LIMITS.maxStages) {
+    return `The plan can have at most ${PLAN_LIMITS.maxStages} stages`;
+  }
+
+  // A kept query's id names the node it keeps, which only one query can do
+  const queryIds = new Set<string>();
+  for (let i = 0; i < stages.length; i++) {
+    const stage = stages[i];
+    const label = `Stage ${i + 1}`;
+    if (typeof stage?.name !== "string" || !stage.name.trim()) {
+      return `${label} needs a name`;
+    }
+    if (typeof stage.description !== "string") {
+      return `${label} needs a description`;
+    }
+    if (!Array.isArray(stage.queries) || stage.queries.length === 0) {
+      return `${label} needs at least one query`;
+    }
+    if (stage.queries.length > PLAN_LIMITS.maxQueriesPerStage) {
+      return `${label} can have at most ${PLAN_LIMITS.maxQueriesPerStage} queries`;
+    }
+    for (const query of stage.queries) {
+      if (typeof query?.query !== "string" || !query.query.trim()) {
+        return `${label} has an empty query`;
+      }
+      if (query.query.length > PLAN_LIMITS.maxQueryLength) {
+        return `${label} has a query longer than ${PLAN_LIMITS.maxQueryLength} characters`;
+      }
+      if (query.id !== undefined) {
+        if (queryIds.has(query.id)) {
+          return `The plan has the query id ${query.id} more than once`;
+        }
+        queryIds.add(query.id);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rebuild the reasoning stages from an edited plan. Stages are renumbered in
+ * their new order; kept stages keep their reasoning strategies and kept
+ * queries keep their node ids and, unless edited, their reasoning.
+ */
+export function applyResearchPlan(
+  stages: ReasoningStage[],
+  plan: ResearchPlanStage[]
+): ReasoningStage[] {
+  const nodes = new Map(
+    stages
+      .flatMap((stage) => stage.reasoningTree?.nodes || [])
+      .map((node) => [node.id, node])
+  );
+
+  return plan.map((planned, index) => {
+    const original = stages.find((stage) => stage.id === planned.id);
+
+    const rootNodes: ReasoningNode[] = planned.queries.map((q, i) => {
+      const existing = q.id ? nodes.get(q.id) : undefined;
+      const query = q.query.trim();
+      return {
+        id: existing?.id || createNodeId(index, "plan", i, query),
+        parentId: null,
+        depth: 0,
+        query,
+        reasoning:
+          q.reasoning?.trim() ||
+          (existing?.query === query
+            ? existing.reasoning
+            : "Set by the researcher when reviewing the plan"),
+        findings: [],
+        children: [],
+      };
+    });
+
+    return {
+      id: index,
+      name: planned.name.trim(),
+      description: planned.description.trim(),
+      reasoningTree: { nodes: rootNodes },
+      reasoningComplete: false,
+      analysisComplete: false,
+      reasoningStrategies: original?.reasoningStrategies,
+    };
+  });
+}
@@ -1,8 +1,7 @@
 import { createAgent, createTool, openai } from "@inngest/agent-kit";
 import { z } from "zod";
-import { generateObject, generateText } from "ai";
-import { openai as vercelOpenAI } from "@ai-sdk/openai";
-import Exa from "exa-js";
+import { generateObject, generateText, LanguageModelV1 } from "ai";
+import { getLanguageModel } from "./models";
 import {
   NetworkState,
   ReasoningNode,
@@ -10,22 +9,67 @@ import {
   ReasoningTree,
   Finding,
 } from "../deep-research";
-import { formatCitationIEEE, assignCitationNumbers } from "./citations";
+import {
+  citeSources,
+  describeInlineCitations,
+  formatSourceList,
+  getCitationStyle,
+} from "./citation-styles";
+import {
+  getSearchProvider,
+  narrowSearchFilters,
+  SearchResult,
+} from "./search";
+import {
+  createSourceRef,
+  getSourceStore,
+  SourceToArchive,
+} from "./source-store";
+import { recordAgentTokenUsage, recordTokenUsage } from "./token-tracking";
+import {
+  formatChunks,
+  selectRelevantChunks,
+  SourcePassage,
+} from "./chunking";
+import { scoreNodeRelevance, selectBeam } from "./relevance";
+import { remainingSearches } from "./budget";
+import {
+  discoverReasoningStrategy,
+  formatReasoningStrategy,
+  ReasoningModuleCatalogName,
+  ReasoningStrategy,
+} from "./self-discover";
+import { mergePriorFindings, seedRefreshCache } from "./refresh";
+import { createNodeId } from "./node-ids";
 
 /**
  * Configuration constants for search and content processing
  */
 const SEARCH_CONFIG = {
-  CONTENT_PREVIEW_LENGTH: 1000,
+  // Text kept on a finding; the full text is in the source archive
+  SNIPPET_LENGTH: 200,
   ANALYSIS_CHARACTER_LIMIT: 4000,
+  // Source text sent for analysis; longer sources are cut down to the
+  // passages most relevant to the query
+  ANALYSIS_CONTEXT_LENGTH: 8000,
+  REFLECTION_CHARACTER_LIMIT: 1500,
+  // Analysis of each earlier stage carried into the prompts of later stages
+  EARLIER_STAGE_ANALYSIS_LENGTH: 4000,
   SEARCH_RESULTS_MULTIPLIER: 2, // Fetch 2x maxBreadth for deduplication
 } as const;
 
 /**
- * Helper function to generate a unique ID for reasoning nodes
+ * A search result stamped with the time it was fetched
  */
-function generateNodeId(): string {
-  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+type FetchedResult = SearchResult & { fetchedAt: string };
+
+/**
+ * Short snippet of a source's text to keep on its finding
+ */
+function toSnippet(text: string): string {
+  return text.length > SEARCH_CONFIG.SNIPPET_LENGTH
+    ? `${text.substring(0, SEARCH_CONFIG.SNIPPET_LENGTH)}...`
+    : text;
 }
 
 /**
@@ -39,7 +83,8 @@ function findNodeById(
 }
 
 /**
- * Analyze a single search result
+ * Analyze a single search result. Long results are cut down to the passages
+ * most relevant to the query, whose offsets are returned with the analysis.
  */
 async function analyzeSearchResult({
   query,
@@ -49,20 +94,35 @@ async function analyzeSearchResult({
   stage,
   step,
   context,
+  model,
+  state,
+  nodeId,
 }: {
   query: string;
   reasoning: string;
-  result: any;
+  result: SearchResult;
   topic: string;
   stage: ReasoningStage;
   step?: any;
   context?: string | null;
-}): Promise<string> {
+  model: LanguageModelV1;
+  state: NetworkState;
+  nodeId: string;
+}): Promise<{ analysis: string; passages: SourcePassage[] }> {
+  const text = result.text || "";
+  const { chunks, passages } = selectRelevantChunks({
+    text,
+    query,
+    reasoning,
+    maxChars: SEARCH_CONFIG.ANALYSIS_CONTEXT_LENGTH,
+  });
+  const isExcerpt = text.length > SEARCH_CONFIG.ANALYSIS_CONTEXT_LENGTH;
+
   const analysisResult = await step?.ai.wrap(
     "analyze-search-result",
     async () => {
       return await generateText({
-        model: vercelOpenAI("gpt-4o"),
+        model,
         prompt: `
         You are a research expert analyzing a specific search result in relation to a research query.
 
@@ -83,8 +143,12 @@ async function analyzeSearchResult({
         SEARCH RESULT URL: ${result.url}
         SEARCH RESULT TITLE: ${result.title || "No title"}
         
-        SEARCH RESULT CONTENT:
-        ${result.text || "No content available"}
+        ${
+          isExcerpt
+            ? "SEARCH RESULT CONTENT (the passages most relevant to the query, taken from a longer document):"
+            : "SEARCH RESULT CONTENT:"
+        }
+        ${formatChunks(chunks, text.length) || "No content available"}
         
         Provide a thoughtful analysis of this single search result that:
         1. Extracts the key information relevant to the query and overall research topic
@@ -107,11 +171,22 @@ async function analyzeSearchResult({
     }
   );
 
-  return analysisResult?.text || "No analysis could be generated.";
+  recordTokenUsage(state, analysisResult, {
+    agent: "ReasoningAgent",
+    operation: "analyze-search-result",
+    model: model.modelId,
+    stageId: stage.id,
+    nodeId,
+  });
+
+  return {
+    analysis: analysisResult?.text || "No analysis could be generated.",
+    passages,
+  };
 }
 
 /**
- * Research a specific node by collecting findings from web search using Exa API
+ * Research a specific node by collecting findings from the configured search provider
  * Modified to return maxBreadth results per query with deduplication
  */
 async function researchNode({
@@ -128,8 +203,8 @@ async function researchNode({
   state: NetworkState;
 }): Promise<Finding[]> {
   try {
-    // Initialize Exa client
-    const exa = new Exa(process.env.EXA_API_KEY || "");
+    // Resolve the configured search provider
+    const searchProvider = getSearchProvider();
 
     // Ensure searchedUrls exists in state
     if (!state.searchedUrls) {
@@ -142,29 +217,41 @@ async function researchNode({
     // Prepare the search query by combining the stage context and the specific query
     const searchQuery = `${topic} - ${node.query}`;
 
-    // Perform the search and get content with Exa
-    const searchResults = await step?.ai.wrap("exa-search", async () => {
-      try {
-        const results = await exa.searchAndContents(searchQuery, {
-          text: true,
-          numResults: maxBreadth * SEARCH_CONFIG.SEARCH_RESULTS_MULTIPLIER, // Fetch 2x maxBreadth for deduplication
-          highlightMatches: true, // Highlight matching terms
-        });
-
-        return results;
-      } catch (error) {
-        console.error("Exa search error:", error);
-        return { results: [] };
+    // Perform the search and get content from the search provider. The fetch
+    // time is taken inside the wrapped call so replays see the same value.
+    const searchResults: FetchedResult[] | undefined = await step?.ai.wrap(
+      `${searchProvider.name}-search`,
+      async () => {
+        try {
+          const results = await searchProvider.search(searchQuery, {
+            numResults: maxBreadth * SEARCH_CONFIG.SEARCH_RESULTS_MULTIPLIER, // Fetch 2x maxBreadth for deduplication
+            // A refresh only looks for what was published since the prior run
+            ...narrowSearchFilters(state.configuration?.searchFilters, {
+              startPublishedDate: state.refresh?.since,
+            }),
+          });
+          const fetchedAt = new Date().toISOString();
+          return results.map((result) => ({ ...result, fetchedAt }));
+        } catch (error) {
+          console.error(`${searchProvider.name} search error:`, error);
+          return [];
+        }
       }
-    });
+    );
+
+    // Count the search towards the run's search budget
+    state.searchCount = (state.searchCount || 0) + 1;
 
     // Extract and format findings from the search results
     const findings: Finding[] = [];
 
+    // Full text of every result used, archived once the findings are built
+    const archive: SourceToArchive[] = [];
+
     // Deduplicate search results based only on URL
-    const dedupedResults = [];
-    if (searchResults?.results && searchResults.results.length > 0) {
-      for (const result of searchResults.results) {
+    const dedupedResults: FetchedResult[] = [];
+    if (searchResults && searchResults.length > 0) {
+      for (const result of searchResults) {
         if (!result.text || !result.url) continue;
 
         // Check if we've already analyzed this URL in this stage
@@ -175,18 +262,17 @@ async function researchNode({
           // Reuse the existing analysis
           findings.push({
             source: result.url,
-            content:
-              result.text.substring(0, SEARCH_CONFIG.CONTENT_PREVIEW_LENGTH) +
-              (result.text.length > SEARCH_CONFIG.CONTENT_PREVIEW_LENGTH
-                ? "..."
-                : ""),
+            content: toSnippet(result.text),
             analysis: state.analysisCache.get(result.url),
-            title: result.title || null,
-            author: result.author || null,
-            publishedDate: result.publishedDate || null,
-            favicon: result.favicon || null,
-            image: result.image || null,
+            passages: state.passageCache?.get(result.url),
+            title: result.title,
+            author: result.author,
+            publishedDate: result.publishedDate,
+            favicon: result.favicon,
+            image: result.image,
+            sourceRef: createSourceRef(result),
           });
+          archive.push(result);
 
           // If we have enough findings already, we can stop
           if (findings.length >= maxBreadth) break;
@@ -229,6 +315,9 @@ async function researchNode({
           stage,
           step,
           context: state.context,
+          model: getLanguageModel("analyst", state.configuration?.models),
+          state,
+          nodeId: node.id,
         })
       );
 
@@ -237,32 +326,47 @@ async function researchNode({
 
       // Process the results
       resultsToProcess.forEach((result, index) => {
-        const analysis = analyses[index];
+        const { analysis, passages } = analyses[index];
 
-        // Cache the analysis for potential reuse
+        // Cache the analysis and the passages it was made from for reuse
         if (!state.analysisCache) {
           state.analysisCache = new Map<string, string>();
         }
         state.analysisCache.set(result.url, analysis);
+        if (!state.passageCache) {
+          state.passageCache = new Map<string, SourcePassage[]>();
+        }
+        state.passageCache.set(result.url, passages);
 
         // Create a finding with the analysis
         findings.push({
           source: result.url,
-          content:
-            result.text.substring(0, SEARCH_CONFIG.CONTENT_PREVIEW_LENGTH) +
-            (result.text.length > SEARCH_CONFIG.CONTENT_PREVIEW_LENGTH
-              ? "..."
-              : ""),
+          content: toSnippet(result.text),
           analysis, // Include the analysis with the finding
-          title: result.title || null,
-          author: result.author || null,
-          publishedDate: result.publishedDate || null,
-          favicon: result.favicon || null,
-          image: result.image || null,
+          passages,
+          title: result.title,
+          author: result.author,
+          publishedDate: result.publishedDate,
+          favicon: result.favicon,
+          image: result.image,
+          sourceRef: createSourceRef(result),
         });
+        archive.push(result);
       });
     }
 
+    // Findings only keep a snippet, so archive the full text they were
+    // analyzed from. A failed write doesn't fail the research.
+    if (archive.length > 0) {
+      try {
+        await step?.run("archive-sources", () =>
+          getSourceStore().save(archive)
+        );
+      } catch (error) {
+        console.error(`Error archiving sources for node ${node.id}:`, error);
+      }
+    }
+
     return findings;
   } catch (error) {
     console.error(`Error researching node ${node.id}:`, error);
@@ -273,52 +377,309 @@ async function researchNode({
 }
 
 /**
- * Generate follow-up queries based on all findings from depth 0
+ * Walk up from a node to the root of its tree, returning the ancestors
+ * root first
  */
-async function generateFollowUpQueries({
-  initialFindings,
-  originalQueries,
+function getAncestors(tree: ReasoningTree, node: ReasoningNode) {
+  const ancestors: ReasoningNode[] = [];
+  let parent = node.parentId ? findNodeById(tree, node.parentId) : undefined;
+  while (parent) {
+    ancestors.unshift(parent);
+    parent = parent.parentId ? findNodeById(tree, parent.parentId) : undefined;
+  }
+  return ancestors;
+}
+
+/**
+ * Format the analyses of earlier stages for the prompts of a later one. Their
+ * reference lists are left out, since their citations number a different
+ * set of sources.
+ */
+function formatEarlierStages(stages: ReasoningStage[]): string {
+  return stages
+    .filter((stage) => stage.analysis)
+    .map((stage) => {
+      const analysis = stage
+        .analysis!.split(/^\**#*\s*References\b/m)[0]
+        .trim();
+      const excerpt =
+        analysis.length > SEARCH_CONFIG.EARLIER_STAGE_ANALYSIS_LENGTH
+          ? analysis.substring(0, SEARCH_CONFIG.EARLIER_STAGE_ANALYSIS_LENGTH) +
+            "..."
+          : analysis;
+      return `STAGE ${stage.id + 1}: ${stage.name}\n${excerpt}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Revise a stage's initial queries in light of what earlier stages found,
+ * so the stage builds on them instead of covering the same ground
+ */
+async function refineInitialQueries({
+  nodes,
   stage,
+  earlierStages,
   topic,
   step,
-  maxBreadth,
+  model,
+  state,
 }: {
-  initialFindings: Finding[];
-  originalQueries: string[];
+  nodes: ReasoningNode[];
   stage: ReasoningStage;
+  earlierStages: ReasoningStage[];
   topic: string;
   step?: any;
-  maxBreadth: number;
-}): Promise<any> {
-  // Extract all analyses from the findings
-  const allAnalyses = initialFindings
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<{ query: string; reasoning: string }[]> {
+  const refineResult = await step?.ai.wrap(
+    "refine-initial-queries",
+    async () => {
+      return await generateObject({
+        model,
+        schema: z.object({
+          queries: z
+            .array(
+              z.object({
+                query: z
+                  .string()
+                  .describe(
+                    "The specific research question to explore for this stage"
+                  ),
+                reasoning: z
+                  .string()
+                  .describe(
+                    "Why this query matters for the stage, given what earlier stages found"
+                  ),
+              })
+            )
+            .length(nodes.length)
+            .describe(
+              `Exactly ${nodes.length} queries, one per planned query, in the given order`
+            ),
+        }),
+        prompt: `
+        You are a research expert about to start the next stage of a multi-stage research plan.
+
+        TOPIC: ${topic}
+        ${state.context ? `ADDITIONAL CONTEXT: ${state.context}` : ""}
+
+        WHAT EARLIER STAGES FOUND:
+        ${formatEarlierStages(earlierStages)}
+
+        NEXT STAGE: ${stage.name}
+        STAGE DESCRIPTION: ${stage.description}
+
+        QUERIES PLANNED FOR THIS STAGE BEFORE THE EARLIER STAGES WERE RESEARCHED:
+        ${nodes
+          .map((node, i) => `${i + 1}. ${node.query}\n   Reasoning: ${node.reasoning}`)
+          .join("\n")}
+
+        Revise each planned query, in order, so that this stage builds on what the earlier
+        stages established rather than repeating it:
+        1. Drop or redirect anything the earlier stages already answered well
+        2. Follow up on the gaps, open questions and contradictions they left
+        3. Keep each query within this stage's focus and specific enough for a web search
+        4. Explain in the reasoning how the query builds on the earlier stages
+      `,
+      });
+    }
+  );
+
+  recordTokenUsage(state, refineResult, {
+    agent: "ReasoningAgent",
+    operation: "refine-initial-queries",
+    model: model.modelId,
+    stageId: stage.id,
+  });
+
+  return refineResult?.object?.queries || [];
+}
+
+/**
+ * Number the sources found so far in a stage's tree in order of first
+ * appearance. The stage analysis numbers them the same way, so citations in
+ * reflections written mid-stage still hold when the analysis is written.
+ */
+function citeTreeSources(tree: ReasoningTree, state: NetworkState) {
+  const citationStyle = getCitationStyle(state.configuration?.citationStyle);
+  const sources = citeSources(
+    citationStyle,
+    tree.nodes
+      .flatMap((node) => node.findings)
+      .filter(
+        (f, idx, arr) => arr.findIndex((x) => x.source === f.source) === idx
+      )
+  );
+  const markers = new Map(
+    sources.map((source) => [source.finding.source, source.marker])
+  );
+  return { citationStyle, sources, markers };
+}
+
+/**
+ * Reflect on what a researched node turned up: what was learned, what
+ * contradicts the nodes researched before it, and what remains open. Later
+ * steps work from reflections rather than the raw per-source analyses.
+ */
+async function reflectOnNode({
+  node,
+  tree,
+  stage,
+  topic,
+  step,
+  model,
+  state,
+}: {
+  node: ReasoningNode;
+  tree: ReasoningTree;
+  stage: ReasoningStage;
+  topic: string;
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<string | undefined> {
+  const { citationStyle, sources, markers } = citeTreeSources(tree, state);
+  const nodeSources = new Set(node.findings.map((finding) => finding.source));
+  const referenceLines = formatSourceList(
+    citationStyle,
+    sources.filter((source) => nodeSources.has(source.finding.source))
+  );
+
+  const analysesWithCites = node.findings
     .filter((finding) => finding.analysis)
-    .map((finding) => finding as Finding);
+    .map((finding) => {
+      const marker = markers.get(finding.source);
+      return `${marker} ANALYSIS (from ${finding.source}):\n${finding.analysis}`;
+    });
 
-  // Build citation numbering for this stage based on first appearance order
-  const citationMap = assignCitationNumbers(
-    allAnalyses.filter(
-      (f, idx, arr) => arr.findIndex((x) => x.source === f.source) === idx
-    )
+  // Reflections of the nodes researched before this one, ancestors first
+  const ancestors = getAncestors(tree, node);
+  const earlierNodes = [
+    ...ancestors,
+    ...tree.nodes.filter(
+      (other) => other !== node && !ancestors.includes(other)
+    ),
+  ].filter((other) => other.reflection);
+  const earlierReflections = earlierNodes.map(
+    (other) =>
+      `QUERY: ${other.query}${
+        ancestors.includes(other) ? " (on this branch)" : ""
+      }\n${other.reflection}`
   );
 
-  // Build reference list markdown lines
-  const referenceLines = Array.from(citationMap.entries()).map(([url, num]) => {
-    const finding = allAnalyses.find((f) => f.source === url)!;
-    return formatCitationIEEE(finding, num);
+  const reflectionResult = await step?.ai.wrap("reflect-on-node", async () => {
+    return await generateText({
+      model,
+      prompt: `
+        You are a research expert taking stock after researching one query in a research tree.
+
+        TOPIC: ${topic}
+        STAGE: ${stage.name}
+        STAGE DESCRIPTION: ${stage.description}
+
+        QUERY: ${node.query}
+        REASONING BEHIND QUERY: ${node.reasoning}
+
+        ${
+          earlierReflections.length > 0
+            ? `REFLECTIONS ON QUERIES RESEARCHED EARLIER IN THIS STAGE:\n${earlierReflections.join(
+                "\n\n"
+              )}`
+            : ""
+        }
+
+        SOURCES (use ${describeInlineCitations(citationStyle)} when citing):
+        ${referenceLines.join("\n")}
+
+        Analyses of the search results for this query (each prefixed with its citation marker):
+        ${analysesWithCites.join("\n\n")}
+
+        Write a short reflection with three parts:
+        1. LEARNED: the key facts and insights this query established, with citations
+        2. CONTRADICTIONS: where these findings disagree with each other or with the earlier reflections, or "None"
+        3. OPEN QUESTIONS: what remains unknown or unsupported and is worth researching next
+
+        Be specific and avoid repeating what the earlier reflections already cover. Limit your
+        reflection to about ${SEARCH_CONFIG.REFLECTION_CHARACTER_LIMIT} characters.
+      `,
+    });
   });
 
-  // Build analyses with citation prefixes
-  const analysesWithCites = allAnalyses.map((finding) => {
-    const num = citationMap.get(finding.source);
-    return `[${num}] ANALYSIS (from ${finding.source}):\n${finding.analysis}`;
+  recordTokenUsage(state, reflectionResult, {
+    agent: "ReasoningAgent",
+    operation: "reflect-on-node",
+    model: model.modelId,
+    stageId: stage.id,
+    nodeId: node.id,
   });
 
+  return reflectionResult?.text || undefined;
+}
+
+/**
+ * Generate child queries for a node, drilling further into the open
+ * questions its reflection raised. The queries of its ancestors are included
+ * so the children stay on the path that led here.
+ */
+async function generateFollowUpQueries({
+  parent,
+  tree,
+  existingQueries,
+  stage,
+  topic,
+  step,
+  count,
+  model,
+  state,
+  strategy,
+  earlierStages = [],
+}: {
+  parent: ReasoningNode;
+  tree: ReasoningTree;
+  existingQueries: string[];
+  stage: ReasoningStage;
+  topic: string;
+  step?: any;
+  count: number;
+  model: LanguageModelV1;
+  state: NetworkState;
+  strategy?: ReasoningStrategy;
+  earlierStages?: ReasoningStage[];
+}): Promise<{ query: string; reasoning: string }[]> {
+  // Mark the parent's sources as the stage numbers them
+  const { citationStyle, sources, markers } = citeTreeSources(tree, state);
+  const parentSources = new Set(
+    parent.findings.map((finding) => finding.source)
+  );
+  const referenceLines = formatSourceList(
+    citationStyle,
+    sources.filter((source) => parentSources.has(source.finding.source))
+  );
+
+  // Work from the parent's reflection, falling back to the raw analyses of
+  // its findings if it has none
+  const learned =
+    parent.reflection ||
+    parent.findings
+      .filter((finding) => finding.analysis)
+      .map((finding) => {
+        const marker = markers.get(finding.source);
+        return `${marker} ANALYSIS (from ${finding.source}):\n${finding.analysis}`;
+      })
+      .join("\n\n");
+
+  // The chain of queries from the root of the tree down to the parent
+  const researchPath = [...getAncestors(tree, parent), parent]
+    .map((node, i) => `${"  ".repeat(i)}- ${node.query}`)
+    .join("\n");
+
   const followupResult = await step?.ai.wrap(
     "generate-followup-queries",
     async () => {
       return await generateObject({
-        model: vercelOpenAI("gpt-4o"),
+        model,
         schema: z.object({
           followupQueries: z
             .array(
@@ -335,46 +696,107 @@ async function generateFollowUpQueries({
                   ),
               })
             )
-            .length(maxBreadth)
+            .length(count)
             .describe(
-              `Exactly ${maxBreadth} follow-up queries that will deepen the research`
+              `Exactly ${count} follow-up queries that will deepen the research`
             ),
         }),
         prompt: `
-        You are a research expert generating follow-up queries based on initial research findings.
+        You are a research expert drilling deeper into one branch of a research tree.
         
         TOPIC: ${topic}
         STAGE: ${stage.name}
         STAGE DESCRIPTION: ${stage.description}
         
-        ORIGINAL QUERIES THAT HAVE ALREADY BEEN RESEARCHED:
-        ${originalQueries.map((q, i) => `${i + 1}. ${q}`).join("\n")}
+        RESEARCH PATH (from the root query down to the query being expanded):
+        ${researchPath}
+        
+        QUERY BEING EXPANDED: ${parent.query}
+        REASONING BEHIND IT: ${parent.reasoning}
         
-        SOURCES (use [n] inline when citing):
+        QUERIES THAT HAVE ALREADY BEEN RESEARCHED OR PLANNED IN THIS STAGE:
+        ${existingQueries.map((q, i) => `${i + 1}. ${q}`).join("\n")}
+        ${
+          earlierStages.length > 0
+            ? `\nWHAT EARLIER STAGES FOUND (don't research again what they already established):\n${formatEarlierStages(
+                earlierStages
+              )}\n`
+            : ""
+        }        
+        SOURCES (use ${describeInlineCitations(citationStyle)} when citing):
         ${referenceLines.join("\n")}
         
-        Based on the following analyses from all research findings (each prefixed with its citation number):
-        ${analysesWithCites.join("\n\n")}
+        ${
+          parent.reflection
+            ? "Based on this reflection on what researching the query being expanded turned up:"
+            : "Based on the following analyses of the findings for the query being expanded (each prefixed with its citation marker):"
+        }
+        ${learned}
         
-        Generate exactly ${maxBreadth} follow-up queries that will deepen the research further.
+        Generate exactly ${count} follow-up queries that drill deeper into this branch.
         These queries should:
-        1. Address important gaps or open questions from the initial findings
-        2. Explore promising areas identified but not fully covered in the initial research
-        3. Represent distinct angles that together provide comprehensive coverage
+        1. Address the open questions and contradictions raised by these findings
+        2. Go more specific than the query being expanded, not broader
+        3. Represent distinct angles from each other
         4. Be specific enough for effective web searches
         5. Include detailed reasoning explaining why each query is important
-        6. NOT duplicate any of the original queries listed above
-        
-        The follow-up queries should not duplicate the initial research, but rather build upon 
-        and extend the knowledge already gathered.
+        6. NOT duplicate any of the queries listed above
+
+        ${formatReasoningStrategy(strategy)}
       `,
       });
     }
   );
 
+  recordTokenUsage(state, followupResult, {
+    agent: "ReasoningAgent",
+    operation: "generate-followup-queries",
+    model: model.modelId,
+    stageId: stage.id,
+    nodeId: parent.id,
+  });
+
   return followupResult?.object?.followupQueries || [];
 }
 
+/**
+ * Get the stage's reasoning strategy for a kind of task, self-discovering it
+ * and recording it on the stage the first time it is needed
+ */
+async function getStageStrategy({
+  catalog,
+  task,
+  stage,
+  step,
+  model,
+  state,
+}: {
+  catalog: ReasoningModuleCatalogName;
+  task: string;
+  stage: ReasoningStage;
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<ReasoningStrategy> {
+  const existing = stage.reasoningStrategies?.[catalog];
+  if (existing) return existing;
+
+  const strategy = await discoverReasoningStrategy({
+    catalog,
+    task,
+    step,
+    model,
+    state,
+    agent: "ReasoningAgent",
+    stageId: stage.id,
+  });
+  stage.reasoningStrategies = {
+    ...stage.reasoningStrategies,
+    [catalog]: strategy,
+  };
+  return strategy;
+}
+
 /**
  * Calculate the maximum character limit for stage-level analysis based on input volume
  */
@@ -385,51 +807,63 @@ function calculateStageLevelLimit(allAnalyses: Finding[]): number {
 }
 
 /**
- * Generate stage analysis based on all findings from depth 0 and depth 1
+ * Generate stage analysis from the reflections on every node in the tree
  */
 async function generateStageAnalysis({
-  allFindings,
+  tree,
   stage,
   topic,
   step,
+  model,
+  state,
+  strategy,
+  earlierStages = [],
 }: {
-  allFindings: Finding[];
+  tree: ReasoningTree;
   stage: ReasoningStage;
   topic: string;
   step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+  strategy?: ReasoningStrategy;
+  earlierStages?: ReasoningStage[];
 }): Promise<string> {
   // Extract all analyses from the findings
-  const allAnalyses = allFindings
-    .filter((finding) => finding.analysis)
-    .map((finding) => finding as Finding);
+  const allAnalyses = tree.nodes
+    .flatMap((node) => node.findings)
+    .filter((finding) => finding.analysis);
 
   // Calculate the stage-level character limit
   const stageLevelLimit = calculateStageLevelLimit(allAnalyses);
 
-  // Build citation numbering for this stage based on first appearance order
-  const citationMap = assignCitationNumbers(
-    allAnalyses.filter(
-      (f, idx, arr) => arr.findIndex((x) => x.source === f.source) === idx
-    )
-  );
-
-  // Build reference list markdown lines
-  const referenceLines = Array.from(citationMap.entries()).map(([url, num]) => {
-    const finding = allAnalyses.find((f) => f.source === url)!;
-    return formatCitationIEEE(finding, num);
-  });
-
-  // Build analyses with citation prefixes
-  const analysesWithCites = allAnalyses.map((finding) => {
-    const num = citationMap.get(finding.source);
-    return `[${num}] ANALYSIS (from ${finding.source}):\n${finding.analysis}`;
-  });
+  // Number and mark the sources for this stage based on first appearance order
+  const { citationStyle, sources, markers } = citeTreeSources(tree, state);
+
+  // Build source list markdown lines
+  const referenceLines = formatSourceList(citationStyle, sources);
+
+  // One entry per researched node: its reflection, or the analyses of its
+  // findings with citation prefixes if it has none
+  const nodeSummaries = tree.nodes
+    .filter((node) => node.findings.length > 0)
+    .map((node) => {
+      const learned =
+        node.reflection ||
+        node.findings
+          .filter((finding) => finding.analysis)
+          .map((finding) => {
+            const marker = markers.get(finding.source);
+            return `${marker} ANALYSIS (from ${finding.source}):\n${finding.analysis}`;
+          })
+          .join("\n\n");
+      return `QUERY (depth ${node.depth}): ${node.query}\n${learned}`;
+    });
 
   const analysisResult = await step?.ai.wrap(
     "generate-stage-analysis",
     async () => {
       return await generateText({
-        model: vercelOpenAI("gpt-4o"),
+        model,
         prompt: `
         You are a research expert creating a comprehensive analysis for a research stage.
         
@@ -437,11 +871,12 @@ async function generateStageAnalysis({
         STAGE: ${stage.name}
         STAGE DESCRIPTION: ${stage.description}
         
-        SOURCES (use [n] inline when citing):
+        SOURCES (use ${describeInlineCitations(citationStyle)} when citing):
         ${referenceLines.join("\n")}
         
-        Based on the following analyses from all research findings (each prefixed with its citation number):
-        ${analysesWithCites.join("\n\n")}
+        Based on the following reflections on each query researched in this stage, covering what
+        was learned, what contradicts earlier findings and what remains open:
+        ${nodeSummaries.join("\n\n")}
         
         Generate a comprehensive analysis of this entire research stage that:
         1. Synthesizes key insights across all findings
@@ -451,28 +886,53 @@ async function generateStageAnalysis({
         5. Evaluates the overall strength of evidence
         6. Discusses implications of these findings for the broader topic
         7. Notes remaining gaps or questions for future research
+        ${
+          earlierStages.length > 0
+            ? `8. Ends, before the references, with a "Comparison with Earlier Stages" section on what this
+           stage confirms, refines, contradicts or adds to the earlier stages below
+
+        ANALYSES OF EARLIER STAGES (for comparison only; their citation markers refer to other
+        sources, so refer to an earlier stage by name instead of citing it):
+        ${formatEarlierStages(earlierStages)}`
+            : ""
+        }
+
+        ${formatReasoningStrategy(strategy)}
         
         Your analysis should provide a clear, coherent narrative of what we've learned about this aspect 
         of the topic through our research. Structure this as a comprehensive multi-page report that 
         synthesizes all findings into a cohesive narrative. Your response should come close to but not exceed ${stageLevelLimit} 
-        characters, as this represents the total volume of analysis being synthesized.
+        characters, as this represents the total volume of source analysis behind these reflections.
 
-        When writing your stage analysis, cite information inline using the IEEE style [n] where n corresponds 
-        to the source number above. End your analysis with a **References** section that repeats the list 
+        When writing your stage analysis, cite information using ${describeInlineCitations(citationStyle)}, 
+        matching the sources above. End your analysis with a **References** section that repeats the list 
         exactly as provided above.
       `,
       });
     }
   );
 
+  recordTokenUsage(state, analysisResult, {
+    agent: "ReasoningAgent",
+    operation: "generate-stage-analysis",
+    model: model.modelId,
+    stageId: stage.id,
+  });
+
   return analysisResult?.text || "No analysis could be generated.";
 }
 
 /**
  * BuildReasoningTree Tool
  *
- * This tool builds or expands a reasoning tree for the current stage.
- * Modified to implement the new structure with web searches at both levels.
+ * This tool builds or expands a reasoning tree for the current stage. Each
+ * call researches one level of the tree, reflects on each node's findings
+ * and spawns the next level as children of the nodes that found something,
+ * until maxDepth is reached. Follow-up queries and the stage analysis are
+ * guided by reasoning strategies self-discovered once per stage, and build
+ * on the analyses of earlier stages, which the initial queries of a later
+ * stage are also revised against. A refresh run searches its prior tree
+ * again for new content only, reusing the prior findings and analyses.
  */
 export const buildReasoningTreeTool = createTool({
   name: "build_reasoning_tree",
@@ -517,6 +977,16 @@ export const buildReasoningTreeTool = createTool({
       } else {
         state.analysisCache.clear();
       }
+
+      if (!state.passageCache) {
+        state.passageCache = new Map<string, SourcePassage[]>();
+      } else {
+        state.passageCache.clear();
+      }
+
+      if (state.refresh) {
+        seedRefreshCache(state, currentStage, state.refresh);
+      }
     }
 
     // Check if we have stages to work with
@@ -542,23 +1012,60 @@ export const buildReasoningTreeTool = createTool({
 
       const tree = currentStage.reasoningTree;
 
-      // Step 1: Research depth 0 nodes that don't have findings yet
-      const depthZeroNodesWithoutFindings = tree.nodes.filter(
+      // Earlier stages this one builds on
+      const earlierStages = reasoningStages
+        .slice(0, currentStageIndex)
+        .filter((stage) => stage.analysis);
+
+      // Before researching anything, revise the initial queries in light of
+      // what the earlier stages found. Queries the user added are kept as is.
+      const initialNodes = tree.nodes.filter(
         (node) =>
-          node.depth === 0 && (!node.findings || node.findings.length === 0)
+          node.depth === 0 && node.findings.length === 0 && !node.addedByUser
       );
+      if (
+        earlierStages.length > 0 &&
+        !currentStage.initialQueriesRefined &&
+        currentStage.researchedDepth === undefined &&
+        initialNodes.length > 0
+      ) {
+        const refined = await refineInitialQueries({
+          nodes: initialNodes,
+          stage: currentStage,
+          earlierStages,
+          topic: topic || "Unknown topic",
+          step,
+          model: getLanguageModel("planner", configuration.models),
+          state,
+        });
+        initialNodes.forEach((node, i) => {
+          if (!refined[i]?.query) return;
+          node.query = refined[i].query;
+          node.reasoning = refined[i].reasoning;
+        });
+        currentStage.initialQueriesRefined = true;
+      }
 
-      if (depthZeroNodesWithoutFindings.length > 0) {
-        // Process up to maxBreadth depth 0 nodes in parallel
-        const nodesToProcess = depthZeroNodesWithoutFindings.slice(
-          0,
-          maxBreadth
-        );
+      // Step 1: Research the next level of the tree, then expand it. The tree
+      // is built breadth first, one level per call.
+      const depth = (currentStage.researchedDepth ?? -1) + 1;
+      const levelNodes = tree.nodes.filter((node) => node.depth === depth);
+
+      if (depth < maxDepth && levelNodes.length > 0) {
+        // Only as many nodes as the search budget has room for are searched,
+        // the router stops the research once it runs out
+        const nodesToResearch = levelNodes
+          .filter(
+            (node) =>
+              (!node.findings || node.findings.length === 0) &&
+              !node.irrelevant
+          )
+          .slice(0, remainingSearches(state));
 
         // Research nodes in parallel
         const researchResults = await Promise.all(
-          nodesToProcess.map(async (nodeToResearch) => {
-            // Research the node with Exa API
+          nodesToResearch.map(async (nodeToResearch) => {
+            // Research the node with the search provider
             const findings = await researchNode({
               node: nodeToResearch,
               stage: currentStage,
@@ -579,122 +1086,146 @@ export const buildReasoningTreeTool = createTool({
           }
         });
 
-        // Update the state
-        network.state.data = {
-          ...state,
-          reasoningStages: [
-            ...reasoningStages.slice(0, currentStageIndex),
-            currentStage,
-            ...reasoningStages.slice(currentStageIndex + 1),
-          ],
-        };
-
-        return {
-          success: true,
-          message: `Researched ${researchResults.length} depth 0 nodes in parallel`,
-          researchedNodeCount: researchResults.length,
-          totalFindingsCount: researchResults.reduce(
-            (sum, { findings }) => sum + findings.length,
-            0
-          ),
-          stageComplete: false,
-        };
-      }
+        // A refresh keeps what the prior run found for each node alongside
+        // anything new
+        if (state.refresh) {
+          const { refresh } = state;
+          nodesToResearch.forEach((node) => mergePriorFindings(node, refresh));
+        }
 
-      // Step 2: Check if all depth 0 nodes have findings and we haven't reached maxDepth
-      const allDepthZeroNodes = tree.nodes.filter((node) => node.depth === 0);
-      const allDepthZeroComplete = allDepthZeroNodes.every(
-        (node) => node.findings && node.findings.length > 0
-      );
-      const currentMaxDepth = Math.max(...tree.nodes.map((node) => node.depth));
-      const canAddMoreDepth = currentMaxDepth < maxDepth - 1;
+        // Nodes researched side by side can all claim the same URLs, leaving
+        // one with nothing. Retry those once, now that the analyses of the
+        // claimed URLs are cached and can be reused.
+        for (const node of nodesToResearch) {
+          if (node.findings && node.findings.length > 0) continue;
+          if (remainingSearches(state) === 0) break;
+          node.findings = await researchNode({
+            node,
+            stage: currentStage,
+            topic: topic || "Unknown topic",
+            step,
+            state,
+          });
+        }
 
-      if (allDepthZeroComplete && canAddMoreDepth) {
-        // Collect all findings from depth 0 nodes
-        const allDepthZeroFindings = allDepthZeroNodes.flatMap(
-          (node) => node.findings
+        const researched = nodesToResearch.filter(
+          (node) => node.findings && node.findings.length > 0
         );
 
-        // Generate follow-up queries based on all depth 0 findings
-        const followupQueries = await generateFollowUpQueries({
-          initialFindings: allDepthZeroFindings,
-          originalQueries: allDepthZeroNodes.map((node) => node.query),
-          stage: currentStage,
-          topic: topic || "Unknown topic",
-          step,
-          maxBreadth, // Pass maxBreadth from configuration
+        // Reflect on what each researched node turned up, in light of the
+        // levels above it
+        const reflections = await Promise.all(
+          researched.map((node) =>
+            reflectOnNode({
+              node,
+              tree,
+              stage: currentStage,
+              topic: topic || "Unknown topic",
+              step,
+              model: getLanguageModel("synthesizer", configuration.models),
+              state,
+            })
+          )
+        );
+        researched.forEach((node, i) => {
+          node.reflection = reflections[i];
         });
 
-        // Create depth 1 nodes from follow-up queries (limited by maxBreadth)
-        const depthOneNodes: ReasoningNode[] = followupQueries
-          .slice(0, maxBreadth)
-          .map((q: any) => {
-            const nodeId = generateNodeId();
-            return {
-              id: nodeId,
-              parentId: null, // These are not children of specific depth 0 nodes, but follow-ups to all depth 0
-              depth: currentMaxDepth + 1,
-              query: q.query,
-              reasoning: q.reasoning,
-              findings: [], // No findings yet
-              children: [], // No children
-            };
-          });
-
-        // Add depth 1 nodes to the tree
-        tree.nodes = [...tree.nodes, ...depthOneNodes];
-
-        // Update the state
-        network.state.data = {
-          ...state,
-          reasoningStages: [
-            ...reasoningStages.slice(0, currentStageIndex),
-            currentStage,
-            ...reasoningStages.slice(currentStageIndex + 1),
-          ],
-        };
-
-        return {
-          success: true,
-          message: `Generated ${depthOneNodes.length} follow-up queries based on all depth 0 findings`,
-          newNodeCount: depthOneNodes.length,
-          stageComplete: false,
-        };
-      }
-
-      // Step 3: Research nodes at deeper depths that don't have findings
-      const deeperNodesForResearch = tree.nodes.filter(
-        (node) =>
-          node.depth > 0 && (!node.findings || node.findings.length === 0)
-      );
-
-      if (deeperNodesForResearch.length > 0) {
-        // Process up to maxBreadth nodes in parallel
-        const nodesToProcess = deeperNodesForResearch.slice(0, maxBreadth);
-
-        // Research nodes in parallel
-        const researchResults = await Promise.all(
-          nodesToProcess.map(async (nodeToResearch) => {
-            // Research the node with Exa API
-            const findings = await researchNode({
-              node: nodeToResearch,
+        // Score every researched node and its findings against the stage
+        const scores = await Promise.all(
+          researched.map((node) =>
+            scoreNodeRelevance({
+              node,
               stage: currentStage,
               topic: topic || "Unknown topic",
               step,
+              model: getLanguageModel("analyst", configuration.models),
               state,
+            })
+          )
+        );
+        researched.forEach((node, i) => {
+          node.relevanceScore = scores[i].relevanceScore;
+          node.findings = node.findings.map((finding, j) => ({
+            ...finding,
+            relevanceScore: scores[i].findingScores[j],
+          }));
+        });
+
+        // Step 2: Spawn the next level from the most relevant nodes, each
+        // child drilling into its own parent's findings. Low scoring
+        // branches are pruned and the best get more children. Nodes the user
+        // marked irrelevant are never expanded. A refresh keeps the prior
+        // run's tree, so nothing is spawned.
+        const childNodes: ReasoningNode[] = [];
+        if (depth + 1 < maxDepth && !state.refresh) {
+          const { childCounts: beam, pruned } = selectBeam(
+            levelNodes.filter(
+              (node) =>
+                node.findings && node.findings.length > 0 && !node.irrelevant
+            ),
+            maxBreadth
+          );
+          pruned.forEach((node) => {
+            node.pruned = true;
+          });
+
+          const parents = levelNodes.filter((node) => beam.has(node.id));
+          const childCounts = parents.map((node) => beam.get(node.id) || 0);
+          const existingQueries = tree.nodes.map((node) => node.query);
+          const synthesizer = getLanguageModel(
+            "synthesizer",
+            configuration.models
+          );
+          const strategy = await getStageStrategy({
+            catalog: "followUp",
+            task: `Generate follow-up web search queries that drill deeper into the findings of the research stage "${currentStage.name}" (${currentStage.description}) on the topic: ${topic}`,
+            stage: currentStage,
+            step,
+            model: synthesizer,
+            state,
+          });
+
+          const childQueries = await Promise.all(
+            parents.map((parent, i) =>
+              childCounts[i] > 0
+                ? generateFollowUpQueries({
+                    parent,
+                    tree,
+                    existingQueries,
+                    stage: currentStage,
+                    topic: topic || "Unknown topic",
+                    step,
+                    count: childCounts[i],
+                    model: synthesizer,
+                    state,
+                    strategy,
+                    earlierStages,
+                  })
+                : Promise.resolve([])
+            )
+          );
+
+          parents.forEach((parent, i) => {
+            childQueries[i].slice(0, childCounts[i]).forEach((q, j) => {
+              const child: ReasoningNode = {
+                id: createNodeId(currentStage.id, parent.id, j, q.query),
+                parentId: parent.id,
+                depth: depth + 1,
+                query: q.query,
+                reasoning: q.reasoning,
+                findings: [], // No findings yet
+                children: [], // No children
+              };
+              parent.children = [...(parent.children || []), child.id];
+              childNodes.push(child);
             });
+          });
 
-            return { nodeId: nodeToResearch.id, findings };
-          })
-        );
+          tree.nodes = [...tree.nodes, ...childNodes];
+        }
 
-        // Update nodes with findings
-        researchResults.forEach(({ nodeId, findings }) => {
-          const node = findNodeById(tree, nodeId);
-          if (node) {
-            node.findings = findings;
-          }
-        });
+        currentStage.researchedDepth = depth;
 
         // Update the state
         network.state.data = {
@@ -708,32 +1239,51 @@ export const buildReasoningTreeTool = createTool({
 
         return {
           success: true,
-          message: `Researched ${researchResults.length} deeper nodes in parallel`,
+          message:
+            `Researched ${researchResults.length} nodes at depth ${depth}` +
+            (childNodes.length > 0
+              ? ` and added ${childNodes.length} follow-up queries`
+              : "") +
+            (levelNodes.some((node) => node.pruned)
+              ? `, pruning ${
+                  levelNodes.filter((node) => node.pruned).length
+                } low relevance branches`
+              : ""),
           researchedNodeCount: researchResults.length,
-          totalFindingsCount: researchResults.reduce(
-            (sum, { findings }) => sum + findings.length,
+          totalFindingsCount: nodesToResearch.reduce(
+            (sum, node) => sum + node.findings.length,
             0
           ),
+          newNodeCount: childNodes.length,
           stageComplete: false,
         };
       }
 
-      // Step 4: Check if all nodes have been researched and generate stage analysis
-      const allNodes = tree.nodes;
-      const allNodesComplete = allNodes.every(
-        (node) => node.findings && node.findings.length > 0
-      );
-
-      if (allNodesComplete && !currentStage.analysis) {
-        // Collect all findings from all nodes
-        const allFindings = allNodes.flatMap((node) => node.findings);
+      // Step 3: Every level has been researched, generate the stage analysis
+      if (!currentStage.analysis) {
+        const synthesizer = getLanguageModel(
+          "synthesizer",
+          configuration.models
+        );
+        const strategy = await getStageStrategy({
+          catalog: "analysis",
+          task: `Analyze the findings of the research stage "${currentStage.name}" (${currentStage.description}) on the topic: ${topic}`,
+          stage: currentStage,
+          step,
+          model: synthesizer,
+          state,
+        });
 
         // Generate comprehensive stage analysis
         const stageAnalysis = await generateStageAnalysis({
-          allFindings,
+          tree,
           stage: currentStage,
           topic: topic || "Unknown topic",
           step,
+          model: synthesizer,
+          state,
+          strategy,
+          earlierStages,
         });
 
         // Add analysis to the stage
@@ -801,22 +1351,28 @@ Your primary responsibility is to generate and expand research queries that deep
 
 When invoked, you will:
 1. Check which stage of reasoning is currently active
-2. Review the stage description to understand the focus
+2. Review the stage description to understand the focus, and how it builds on earlier stages
 3. Use the 'build_reasoning_tree' tool to:
    - Research initial depth 0 queries with web searches
-   - Generate follow-up queries based on initial findings
-   - Research these follow-up queries
+   - Reflect on what each query's findings taught us and left open
+   - Generate follow-up queries as children of each researched query
+   - Research each new level of follow-up queries, down to the maximum depth
    - Create a comprehensive stage analysis
 
 Your goal is to build a comprehensive research foundation for each stage:
-- First level: 3 initial queries with 3 search results each (9 total)
-- Second level: 3 follow-up queries with 3 search results each (9 more)
-- Final analysis: Synthesize all 18 search results into a stage analysis
+- First level: the initial queries, each with its own search results
+- Each deeper level: follow-up queries that drill into the open questions of their parent
+- Final analysis: Synthesize the reflections on every query in the tree into a stage analysis
 
 Continue using the 'build_reasoning_tree' tool until the entire research and analysis is complete.`,
   model: openai({ model: "gpt-4o" }),
   tools: [buildReasoningTreeTool],
   lifecycle: {
+    onResponse: async (args) =>
+      recordAgentTokenUsage(args, {
+        label: "ReasoningAgent",
+        stageId: args.network?.state.data.currentStageIndex ?? null,
+      }),
     onStart: async ({ input, network, prompt, history }) => {
       return {
         prompt,
@@ -0,0 +1,159 @@
+import {
+  Finding,
+  NetworkState,
+  ReasoningNode,
+  ReasoningStage,
+} from "../deep-research";
+import { DeepResearchRun } from "./runs";
+import { SourcePassage } from "./chunking";
+
+/**
+ * What a refresh run keeps from the run it refreshes. It is copied into the
+ * refresh run's state when it starts, so the prior run is never read again.
+ */
+export interface RefreshContext {
+  priorRunId: string;
+  // When the prior run finished; only content published since is searched
+  since: string;
+  priorReport: string;
+  // Findings of the prior run, with their analyses, by node id
+  priorFindings: Record<string, Finding[]>;
+}
+
+/**
+ * The parts of a run a refresh is built from
+ */
+export type RefreshSource = Pick<
+  DeepResearchRun,
+  "uuid" | "stages" | "finalReport" | "completedAt" | "updatedAt"
+>;
+
+/**
+ * Check that a run can be refreshed, returning why not or null if it can
+ */
+export function validateRefreshSource(run: DeepResearchRun): string | null {
+  if (run.status !== "completed" || !run.finalReport) {
+    return "Only completed runs with a final report can be refreshed";
+  }
+  return null;
+}
+
+/**
+ * Capture what a refresh of the given run needs from it
+ */
+export function createRefreshContext(prior: RefreshSource): RefreshContext {
+  return {
+    priorRunId: prior.uuid,
+    since: prior.completedAt || prior.updatedAt,
+    priorReport: prior.finalReport || "",
+    priorFindings: Object.fromEntries(
+      prior.stages.flatMap((stage) =>
+        (stage.reasoningTree?.nodes || []).map((node) => [
+          node.id,
+          node.findings,
+        ])
+      )
+    ),
+  };
+}
+
+/**
+ * The stages of a refresh run: the prior run's plan and full tree, with
+ * every finding, score and analysis cleared so each query is searched again
+ */
+export function createRefreshStages(prior: RefreshSource): ReasoningStage[] {
+  return prior.stages.map((stage) => ({
+    id: stage.id,
+    name: stage.name,
+    description: stage.description,
+    reasoningTree: {
+      nodes: (stage.reasoningTree?.nodes || []).map(
+        (node): ReasoningNode => ({
+          id: node.id,
+          parentId: node.parentId,
+          depth: node.depth,
+          query: node.query,
+          reasoning: node.reasoning,
+          findings: [],
+          addedByUser: node.addedByUser,
+          irrelevant: node.irrelevant,
+          children: node.children,
+        })
+      ),
+    },
+    reasoningComplete: false,
+    analysisComplete: false,
+    initialQueriesRefined: true,
+    reasoningStrategies: stage.reasoningStrategies,
+  }));
+}
+
+/**
+ * Start a refresh run from the prior run's plan. Planning and plan review are
+ * skipped since the plan was already settled.
+ */
+export function startRefresh(
+  state: NetworkState,
+  refresh: RefreshContext,
+  stages: ReasoningStage[]
+) {
+  state.refresh = refresh;
+  state.reasoningStages = stages;
+  state.stagingComplete = true;
+  state.planApproved = true;
+  if (state.configuration) {
+    state.configuration.stageCount = stages.length;
+  }
+}
+
+/**
+ * Make the prior run's analyses of a stage's sources available for reuse,
+ * so sources found again aren't analyzed a second time
+ */
+export function seedRefreshCache(
+  state: NetworkState,
+  stage: ReasoningStage,
+  refresh: RefreshContext
+) {
+  state.searchedUrls = state.searchedUrls || new Set<string>();
+  state.analysisCache = state.analysisCache || new Map<string, string>();
+  state.passageCache =
+    state.passageCache || new Map<string, SourcePassage[]>();
+
+  (stage.reasoningTree?.nodes || [])
+    .flatMap((node) => refresh.priorFindings[node.id] || [])
+    .filter((finding) => finding.analysis)
+    .forEach((finding) => {
+      state.searchedUrls!.add(finding.source);
+      state.analysisCache!.set(finding.source, finding.analysis!);
+      if (finding.passages) {
+        state.passageCache!.set(finding.source, finding.passages);
+      }
+    });
+}
+
+/**
+ * Add the prior run's findings for a node after its new ones. Sources found
+ * again keep their new finding.
+ */
+export function mergePriorFindings(
+  node: ReasoningNode,
+  refresh: RefreshContext
+) {
+  const found = new Set(node.findings.map((finding) => finding.source));
+  node.findings = [
+    ...node.findings,
+    ...(refresh.priorFindings[node.id] || []).filter(
+      (finding) => !found.has(finding.source)
+    ),
+  ];
+}
+
+/**
+ * Whether a source was already among the prior run's findings
+ */
+export function isPriorSource(refresh: RefreshContext, url: string): boolean {
+  return Object.values(refresh.priorFindings).some((findings) =>
+    findings.some((finding) => finding.source === url)
+  );
+}
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { generateObject, LanguageModelV1 } from "ai";
+import { NetworkState, ReasoningNode, ReasoningStage } from "../deep-research";
+import { recordTokenUsage } from "./token-tracking";
+
+const RELEVANCE_CONFIG = {
+  // Branches scoring below this are not expanded further
+  PRUNE_THRESHOLD: 0.35,
+  // Analysis text per finding included in the scoring prompt
+  ANALYSIS_PREVIEW_LENGTH: 1500,
+} as const;
+
+function clampScore(score: number | undefined): number {
+  if (typeof score !== "number" || Number.isNaN(score)) return 0;
+  return Math.min(Math.max(score, 0), 1);
+}
+
+/**
+ * Score a researched node and each of its findings against the goal of the
+ * stage, from 0 (no use) to 1 (central to the stage)
+ */
+export async function scoreNodeRelevance({
+  node,
+  stage,
+  topic,
+  step,
+  model,
+  state,
+}: {
+  node: ReasoningNode;
+  stage: ReasoningStage;
+  topic: string;
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<{ relevanceScore: number; findingScores: number[] }> {
+  const findings = node.findings;
+
+  const result = await step?.ai.wrap("score-relevance", async () => {
+    return await generateObject({
+      model,
+      schema: z.object({
+        findings: z
+          .array(
+            z.object({
+              relevanceScore: z
+                .number()
+                .describe(
+                  "Between 0 and 1: how much this finding advances the stage goal"
+                ),
+            })
+          )
+          .length(findings.length)
+          .describe(
+            `Exactly ${findings.length} scores, one per finding, in the given order`
+          ),
+        relevanceScore: z
+          .number()
+          .describe(
+            "Between 0 and 1: how promising this branch is to research further for the stage goal"
+          ),
+      }),
+      prompt: `
+        You are a research lead deciding where to spend a limited research budget.
+
+        TOPIC: ${topic}
+        STAGE GOAL: ${stage.name}
+        ${stage.description}
+
+        QUERY: ${node.query}
+        REASONING BEHIND QUERY: ${node.reasoning}
+
+        FINDINGS:
+        ${findings
+          .map(
+            (finding, i) =>
+              `${i + 1}. ${finding.title || finding.source} (${
+                finding.source
+              })\n${(finding.analysis || finding.content).slice(
+                0,
+                RELEVANCE_CONFIG.ANALYSIS_PREVIEW_LENGTH
+              )}`
+          )
+          .join("\n\n")}
+
+        ${node.reflection ? `REFLECTION ON THESE FINDINGS:\n${node.reflection}` : ""}
+
+        Score each finding from 0 to 1 by how much it advances the stage goal:
+        1 means central, well supported and specific; 0 means off topic or
+        unusable. Then score the branch as a whole by how much more there is
+        to learn by researching deeper from this query. Be discriminating;
+        not every branch deserves to be expanded.
+      `,
+    });
+  });
+
+  recordTokenUsage(state, result, {
+    agent: "ReasoningAgent",
+    operation: "score-relevance",
+    model: model.modelId,
+    stageId: stage.id,
+    nodeId: node.id,
+  });
+
+  return {
+    relevanceScore: clampScore(result?.object?.relevanceScore),
+    findingScores: findings.map((_, i) =>
+      clampScore(result?.object?.findings?.[i]?.relevanceScore)
+    ),
+  };
+}
+
+/**
+ * Choose which nodes to expand into the next level, beam-search style.
+ *
+ * Nodes scoring below the prune threshold are dropped, though the best node
+ * is always kept so the tree can still reach its depth. The best nodes are
+ * kept up to the size of the next level; each gets one child and the rest
+ * are handed out by score.
+ */
+export function selectBeam(
+  nodes: ReasoningNode[],
+  levelSize: number
+): { childCounts: Map<string, number>; pruned: ReasoningNode[] } {
+  const ranked = [...nodes].sort(
+    (a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0)
+  );
+  const passing = ranked.filter(
+    (node) => (node.relevanceScore ?? 0) >= RELEVANCE_CONFIG.PRUNE_THRESHOLD
+  );
+  const beam = (passing.length > 0 ? passing : ranked.slice(0, 1)).slice(
+    0,
+    levelSize
+  );
+
+  const childCounts = new Map(beam.map((node) => [node.id, 1]));
+  const extra = levelSize - beam.length;
+  const total = beam.reduce((sum, node) => sum + (node.relevanceScore ?? 0), 0);
+
+  // Hand out the remaining children by score, largest remainder first
+  const shares = beam.map((node) => {
+    const share =
+      total > 0
+        ? (extra * (node.relevanceScore ?? 0)) / total
+        : extra / beam.length;
+    return { node, whole: Math.floor(share), remainder: share % 1 };
+  });
+  let left = extra - shares.reduce((sum, { whole }) => sum + whole, 0);
+  shares
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ node, whole }) => {
+      const bonus = left > 0 ? 1 : 0;
+      left -= bonus;
+      childCounts.set(node.id, 1 + whole + bonus);
+    });
+
+  return {
+    childCounts,
+    pruned: nodes.filter((node) => !childCounts.has(node.id)),
+  };
+}
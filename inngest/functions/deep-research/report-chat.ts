@@ -0,0 +1,320 @@
+import { z } from "zod";
+import { generateObject, generateText } from "ai";
+import { Finding, NetworkState } from "../deep-research";
+import { getLanguageModel } from "./models";
+import { getSearchProvider, SearchResult } from "./search";
+import {
+  citeSources,
+  describeInlineCitations,
+  getCitationStyle,
+} from "./citation-styles";
+import {
+  createTokenUsage,
+  recordTokenUsage,
+  TokenSummary,
+} from "./token-tracking";
+import { DeepResearchRun } from "./runs";
+
+/**
+ * A source found by the targeted search behind an answer. Numbered after
+ * the report's own references so markers never clash.
+ */
+export interface ReportAnswerSource {
+  index: number;
+  marker: string;
+  url: string;
+  title: string | null;
+}
+
+/**
+ * A follow-up question on a finished report and its answer
+ */
+export interface ReportAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  // Set when the report didn't cover the question and a search was run
+  searchQuery: string | null;
+  sources: ReportAnswerSource[];
+  usage: TokenSummary | null;
+  createdAt: string;
+}
+
+/**
+ * Data of the event that asks a question about a report
+ */
+export interface ReportQuestion {
+  uuid: string;
+  questionId: string;
+  question: string;
+}
+
+/**
+ * Event published on the run's channel, under the "answers" topic, while a
+ * question is being answered
+ */
+export interface ReportAnswerEvent {
+  type: "deep-research-answer";
+  eventType: "progress" | "complete" | "error";
+  questionId: string;
+  message: string;
+  answer?: ReportAnswer | null;
+}
+
+/**
+ * The parts of a run a question is answered from
+ */
+export type ReportCorpus = Pick<
+  DeepResearchRun,
+  "topic" | "configuration" | "stages" | "findings" | "finalReport"
+>;
+
+export const REPORT_CHAT_LIMITS = {
+  maxQuestionLength: 1000,
+} as const;
+
+const REPORT_CHAT_CONFIG = {
+  // Analysis text per source included in the answer prompt
+  FINDING_ANALYSIS_LENGTH: 1000,
+  // Stage analysis text included in the answer prompt
+  STAGE_ANALYSIS_LENGTH: 3000,
+  // Earlier questions and answers included for context
+  HISTORY_LENGTH: 5,
+  // Results used from the targeted search
+  SEARCH_RESULT_COUNT: 3,
+  // Page text per search result included in the answer prompt
+  SEARCH_TEXT_LENGTH: 3000,
+} as const;
+
+/**
+ * Check a question, returning what is wrong with it or null if it can be
+ * asked
+ */
+export function validateReportQuestion(question: unknown): string | null {
+  if (typeof question !== "string" || !question.trim()) {
+    return "A question is required";
+  }
+  if (question.length > REPORT_CHAT_LIMITS.maxQuestionLength) {
+    return `The question can be at most ${REPORT_CHAT_LIMITS.maxQuestionLength} characters`;
+  }
+  return null;
+}
+
+/**
+ * Drop the reference list and the stage-local citation markers from a stage
+ * analysis, so only the report's numbering appears in the prompt
+ */
+function stripStageCitations(analysis: string): string {
+  return analysis
+    .split(/^\**#*\s*References\b/m)[0]
+    .replace(/\s?\[\d+(?:\s*[,–-]\s*\d+)*\]/g, "")
+    .trim();
+}
+
+/**
+ * Answer a follow-up question from a finished run's report, stage analyses
+ * and sources, citing them with the report's own markers. When the question
+ * isn't covered, a small targeted search adds sources numbered after the
+ * report's.
+ */
+export async function answerReportQuestion({
+  run,
+  question,
+  history = [],
+  step,
+  allowSearch = true,
+}: {
+  run: ReportCorpus;
+  question: string;
+  history?: ReportAnswer[];
+  step?: any;
+  allowSearch?: boolean;
+}): Promise<Omit<ReportAnswer, "id" | "createdAt">> {
+  const models = run.configuration?.models;
+  const style = getCitationStyle(run.configuration?.citationStyle);
+  const sources = citeSources(style, run.findings);
+
+  // Usage is tracked on its own, separate from the run's
+  const state: NetworkState = { tokenUsage: createTokenUsage() };
+
+  const report = (run.finalReport || "").split(/^## References\s*$/m)[0];
+  const stageAnalyses = run.stages
+    .filter((stage) => stage.analysis)
+    .map(
+      (stage) =>
+        `STAGE ${stage.id + 1}: ${stage.name}\n${stripStageCitations(
+          stage.analysis!
+        ).slice(0, REPORT_CHAT_CONFIG.STAGE_ANALYSIS_LENGTH)}`
+    )
+    .join("\n\n");
+  const sourceLines = sources.map(
+    ({ finding, marker }) =>
+      `${marker} ${finding.title || finding.source} (${finding.source})\n${(
+        finding.analysis || finding.content
+      ).slice(0, REPORT_CHAT_CONFIG.FINDING_ANALYSIS_LENGTH)}`
+  );
+  const conversation = history
+    .slice(-REPORT_CHAT_CONFIG.HISTORY_LENGTH)
+    .map((earlier) => `Q: ${earlier.question}\nA: ${earlier.answer}`)
+    .join("\n\n");
+
+  // Decide whether the research already covers the question
+  let searchQuery: string | null = null;
+  if (allowSearch) {
+    const analyst = getLanguageModel("analyst", models);
+    const coverage = await step?.ai.wrap(
+      "assess-question-coverage",
+      async () => {
+        return await generateObject({
+          model: analyst,
+          schema: z.object({
+            covered: z
+              .boolean()
+              .describe(
+                "Whether the research below is enough to answer the question well"
+              ),
+            searchQuery: z
+              .string()
+              .describe(
+                "A focused web search query for what the research is missing"
+              ),
+          }),
+          prompt: `
+        You are deciding whether a research report can answer a follow-up question.
+
+        TOPIC: ${run.topic}
+        QUESTION: ${question}
+
+        REPORT:
+        ${report}
+
+        SOURCES:
+        ${sources
+          .map(({ finding, marker }) => `${marker} ${finding.title || finding.source}`)
+          .join("\n")}
+
+        Say whether the report and its sources cover the question. If they don't,
+        write one focused web search query for the missing information.
+      `,
+        });
+      }
+    );
+
+    recordTokenUsage(state, coverage, {
+      agent: "ReportChat",
+      operation: "assess-question-coverage",
+      model: analyst.modelId,
+    });
+
+    if (coverage?.object && !coverage.object.covered) {
+      searchQuery = coverage.object.searchQuery?.trim() || question;
+    }
+  }
+
+  // Run a small targeted search for what the report doesn't cover
+  const newSources: { source: ReportAnswerSource; text: string }[] = [];
+  if (searchQuery) {
+    const searchProvider = getSearchProvider();
+    const query = `${run.topic} - ${searchQuery}`;
+    const results: SearchResult[] | undefined = await step?.ai.wrap(
+      `${searchProvider.name}-search`,
+      async () => {
+        try {
+          return await searchProvider.search(query, {
+            numResults: REPORT_CHAT_CONFIG.SEARCH_RESULT_COUNT * 2,
+            // Held to the same constraints as the run's own searches
+            ...run.configuration?.searchFilters,
+          });
+        } catch (error) {
+          console.error(`${searchProvider.name} search error:`, error);
+          return [];
+        }
+      }
+    );
+
+    const known = new Set(run.findings.map((finding) => finding.source));
+    (results || [])
+      .filter((result) => result.text && !known.has(result.url))
+      .slice(0, REPORT_CHAT_CONFIG.SEARCH_RESULT_COUNT)
+      .forEach((result) => {
+        const index = sources.length + newSources.length + 1;
+        const finding: Finding = {
+          source: result.url,
+          content: result.text,
+          title: result.title,
+          author: result.author,
+          publishedDate: result.publishedDate,
+        };
+        newSources.push({
+          source: {
+            index,
+            marker: style.formatInline(finding, index, ""),
+            url: result.url,
+            title: result.title,
+          },
+          text: result.text.slice(0, REPORT_CHAT_CONFIG.SEARCH_TEXT_LENGTH),
+        });
+      });
+  }
+
+  // Answer from the research, and the new sources if any
+  const synthesizer = getLanguageModel("synthesizer", models);
+  const result = await step?.ai.wrap("answer-report-question", async () => {
+    return await generateText({
+      model: synthesizer,
+      prompt: `
+        You are the author of a research report, answering a follow-up question about it.
+
+        TOPIC: ${run.topic}
+
+        REPORT:
+        ${report}
+
+        STAGE ANALYSES:
+        ${stageAnalyses}
+
+        SOURCES CITED IN THE REPORT:
+        ${sourceLines.join("\n\n")}
+
+        ${
+          newSources.length > 0
+            ? `NEW SOURCES (found for this question, not in the report):\n${newSources
+                .map(
+                  ({ source, text }) =>
+                    `${source.marker} ${source.title || source.url} (${source.url})\n${text}`
+                )
+                .join("\n\n")}`
+            : ""
+        }
+
+        ${conversation ? `EARLIER QUESTIONS AND ANSWERS:\n${conversation}` : ""}
+
+        QUESTION: ${question}
+
+        Answer the question directly and concisely, grounded in the research above.
+        Support every claim with ${describeInlineCitations(style)}, using only the
+        markers shown for the sources above so they match the report's references.
+        ${
+          newSources.length > 0
+            ? "Make clear which parts of the answer come from the new sources."
+            : ""
+        }
+        If the research doesn't answer the question, say so plainly rather than guessing.
+      `,
+    });
+  });
+
+  recordTokenUsage(state, result, {
+    agent: "ReportChat",
+    operation: "answer-report-question",
+    model: synthesizer.modelId,
+  });
+
+  return {
+    question,
+    answer: result?.text?.trim() || "",
+    searchQuery,
+    sources: newSources.map(({ source }) => source),
+    usage: state.tokenUsage?.total ?? null,
+  };
+}
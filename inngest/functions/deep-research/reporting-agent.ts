@@ -1,13 +1,24 @@
 import { createAgent, createTool, openai } from "@inngest/agent-kit";
 import { z } from "zod";
-import { generateObject, generateText } from "ai";
-import { openai as vercelOpenAI } from "@ai-sdk/openai";
+import { generateObject, generateText, LanguageModelV1 } from "ai";
+import { getLanguageModel } from "./models";
 import { NetworkState, ReasoningStage } from "../deep-research";
+import { collectUniqueSources, assignCitationNumbers } from "./citations";
 import {
-  collectUniqueSources,
-  assignCitationNumbers,
-  formatCitationIEEE,
-} from "./citations";
+  CitationStyle,
+  CitedSource,
+  citeSources,
+  describeInlineCitations,
+  formatReferenceList,
+  formatSourceList,
+  getCitationStyle,
+} from "./citation-styles";
+import { recordAgentTokenUsage, recordTokenUsage } from "./token-tracking";
+import {
+  CitationVerification,
+  verifyCitations,
+} from "./citation-verification";
+import { isPriorSource, RefreshContext } from "./refresh";
 
 /**
  * Helper functions for better console logging
@@ -22,6 +33,21 @@ function logInfo(message: string) {
   console.log(`[INFO] ${message}`);
 }
 
+/**
+ * Combine the per-source analyses of a stage. Used in place of the stage
+ * analysis for stages that were cut short by a budget.
+ */
+function summarizeStageFindings(stage: ReasoningStage): string {
+  return (stage.reasoningTree?.nodes || [])
+    .flatMap((node) => node.findings)
+    .filter((finding) => finding.analysis)
+    .map(
+      (finding) =>
+        `ANALYSIS (from ${finding.title || finding.source}):\n${finding.analysis}`
+    )
+    .join("\n\n");
+}
+
 /**
  * Generate a report outline based on stage analyses
  */
@@ -29,10 +55,14 @@ async function generateReportOutline({
   stageAnalyses,
   topic,
   step,
+  model,
+  state,
 }: {
   stageAnalyses: string[];
   topic: string;
   step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
 }): Promise<any> {
   logInfo("Generating report outline");
 
@@ -40,7 +70,7 @@ async function generateReportOutline({
     "generate-report-outline",
     async () => {
       return await generateObject({
-        model: vercelOpenAI("gpt-4o"),
+        model,
         schema: z.object({
           title: z
             .string()
@@ -104,6 +134,12 @@ async function generateReportOutline({
     }
   );
 
+  recordTokenUsage(state, outlineResult, {
+    agent: "ReportingAgent",
+    operation: "generate-report-outline",
+    model: model.modelId,
+  });
+
   return (
     outlineResult?.object || {
       title: `Research Report on ${topic}`,
@@ -144,15 +180,21 @@ async function generateSection({
   outline,
   stageAnalyses,
   topic,
-  referenceLines,
+  sourceLines,
+  citationStyle,
   step,
+  model,
+  state,
 }: {
   section: any;
   outline: any;
   stageAnalyses: string[];
   topic: string;
-  referenceLines: string[];
+  sourceLines: string[];
+  citationStyle: CitationStyle;
   step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
 }): Promise<string> {
   logInfo(`Generating report section: ${section.title}`);
 
@@ -160,7 +202,7 @@ async function generateSection({
     "generate-report-section",
     async () => {
       return await generateText({
-        model: vercelOpenAI("gpt-4o"),
+        model,
         prompt: `
         You are a research expert writing a specific section of a comprehensive report.
         
@@ -169,8 +211,8 @@ async function generateSection({
         SECTION TO WRITE: ${section.title}
         SECTION DESCRIPTION: ${section.description}
         
-        SOURCES (use [n] inline when citing):
-        ${referenceLines.join("<br/>\n")}
+        SOURCES (use ${describeInlineCitations(citationStyle)} when citing):
+        ${sourceLines.join("<br/>\n")}
         
         KEY POINTS TO ADDRESS:
         ${section.keyPoints.map((point: string) => `- ${point}`).join("\n")}
@@ -189,7 +231,7 @@ async function generateSection({
         6. Maintains a formal, academic tone appropriate for a research report
         7. Includes relevant examples, data points, or evidence from the research findings
 
-        Use inline IEEE citations [n] where appropriate, based on the source list above. Do NOT invent new numbers. Do NOT include a references section here – the master references will be added later.
+        Use ${describeInlineCitations(citationStyle)} where appropriate, based on the source list above. Do NOT invent new citations. Do NOT include a references section here – the master references will be added later.
         
         The section should be comprehensive, well-structured, and flow naturally. Use markdown 
         formatting for headings, emphasis, lists, etc. Each section should stand as a complete
@@ -199,12 +241,92 @@ async function generateSection({
     }
   );
 
+  recordTokenUsage(state, sectionResult, {
+    agent: "ReportingAgent",
+    operation: "generate-report-section",
+    model: model.modelId,
+  });
+
   return (
     sectionResult?.text ||
     `## ${section.title}\n\nContent for this section could not be generated.`
   );
 }
 
+/**
+ * Describe what a refresh found that the prior run's report didn't have,
+ * citing only the sources that are new since then
+ */
+async function generateChangesSection({
+  refresh,
+  title,
+  stageAnalyses,
+  topic,
+  newSources,
+  citationStyle,
+  step,
+  model,
+  state,
+}: {
+  refresh: RefreshContext;
+  title: string;
+  stageAnalyses: string[];
+  topic: string;
+  newSources: CitedSource[];
+  citationStyle: CitationStyle;
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+}): Promise<string> {
+  logInfo(`Describing changes from ${newSources.length} new sources`);
+
+  const changesResult = await step?.ai.wrap(
+    "describe-report-changes",
+    async () => {
+      return await generateText({
+        model,
+        prompt: `
+        You are a research expert updating an earlier report with what has been published since.
+
+        TOPIC: ${topic}
+        SECTION TO WRITE: ${title}
+
+        EARLIER REPORT:
+        ${refresh.priorReport.split(/^## References\s*$/m)[0]}
+
+        NEW SOURCES (published since the earlier report; use ${describeInlineCitations(citationStyle)} when citing):
+        ${
+          newSources.length > 0
+            ? formatSourceList(citationStyle, newSources).join("<br/>\n")
+            : "None"
+        }
+
+        CURRENT STAGE ANALYSES:
+        ${stageAnalyses
+          .map((analysis, i) => `STAGE ${i + 1} ANALYSIS:\n${analysis}`)
+          .join("\n\n")}
+
+        Write a section with the heading "## ${title}" that tells a reader of the earlier
+        report what is new: findings that add to, update or contradict it, and anything that
+        no longer holds. Cite only the new sources above. If nothing new was found, say so
+        in a sentence or two. Do NOT include a references section here.
+      `,
+      });
+    }
+  );
+
+  recordTokenUsage(state, changesResult, {
+    agent: "ReportingAgent",
+    operation: "describe-report-changes",
+    model: model.modelId,
+  });
+
+  return (
+    changesResult?.text ||
+    `## ${title}\n\nChanges since the earlier report could not be described.`
+  );
+}
+
 /**
  * Edit and polish a draft report into a final version
  */
@@ -212,18 +334,27 @@ async function editReport({
   draftReport,
   stageAnalyses,
   topic,
+  citationStyle,
+  keepSection,
   step,
+  model,
+  state,
 }: {
   draftReport: string;
   stageAnalyses: string[];
   topic: string;
+  citationStyle: CitationStyle;
+  // A section that must stay right after the title, as written
+  keepSection?: string;
   step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
 }): Promise<string> {
   logInfo("Editing and polishing draft report");
 
   const editResult = await step?.ai.wrap("edit-report", async () => {
     return await generateText({
-      model: vercelOpenAI("gpt-4o"),
+      model,
       prompt: `You are an expert research editor and writing coach tasked with transforming a draft research report into a polished, comprehensive final version.
 
 TOPIC: ${topic}
@@ -238,8 +369,12 @@ ${stageAnalyses
 DRAFT REPORT:
 ${draftReport}
 
-Your task is to edit, expand, and polish this report into a final version that MAINTAINS ALL EXISTING INLINE CITATION NUMBERS AND THE REFERENCES LIST. Do NOT change citation numbers or add new ones. You may move sentences but keep citations next to the facts they support.
-
+Your task is to edit, expand, and polish this report into a final version that MAINTAINS ALL EXISTING ${citationStyle.label} INLINE CITATIONS AND THE REFERENCES LIST. Do NOT change citations or add new ones. You may move sentences but keep citations next to the facts they support.
+${
+  keepSection
+    ? `\nKeep the "## ${keepSection}" section directly after the title, before the table of contents, and do not change its substance.\n`
+    : ""
+}
 The revised report should:
 1. STRUCTURE & FLOW
 - Reorganize sections if needed for better logical flow
@@ -278,6 +413,12 @@ Generate the complete polished report now, starting with a table of contents.`,
     });
   });
 
+  recordTokenUsage(state, editResult, {
+    agent: "ReportingAgent",
+    operation: "edit-report",
+    model: model.modelId,
+  });
+
   return editResult?.text || "Error: Could not generate edited report.";
 }
 
@@ -289,7 +430,7 @@ export const generateReportTool = createTool({
   description: "Generate a comprehensive research report",
   handler: async ({}, { network, step }) => {
     const state = network.state.data as NetworkState;
-    const { topic, reasoningStages = [] } = state;
+    const { topic, configuration, reasoningStages = [] } = state;
 
     logSection("GENERATE REPORT TOOL");
     logInfo(`Topic: ${topic}`);
@@ -298,7 +439,10 @@ export const generateReportTool = createTool({
     try {
       // 1. Get all stage analyses
       const stageAnalyses = reasoningStages.map(
-        (stage) => stage.analysis || "No analysis available"
+        (stage) =>
+          stage.analysis ||
+          summarizeStageFindings(stage) ||
+          "No analysis available"
       );
 
       if (
@@ -319,19 +463,45 @@ export const generateReportTool = createTool({
       const citationMap = assignCitationNumbers(uniqueFindings);
       state.citations = citationMap; // persist in state
 
-      const referenceLines = uniqueFindings.map((f, idx) =>
-        formatCitationIEEE(f, idx + 1)
-      );
+      const citationStyle = getCitationStyle(configuration?.citationStyle);
+      const sources = citeSources(citationStyle, uniqueFindings);
+      const referenceLines = formatReferenceList(citationStyle, sources);
+      const sourceLines = formatSourceList(citationStyle, sources);
 
       // 3. Generate report outline
       const outline = await generateReportOutline({
         stageAnalyses,
         topic: topic || "Unknown topic",
         step,
+        model: getLanguageModel("synthesizer", configuration?.models),
+        state,
       });
 
       logInfo(`Generated outline with ${outline.sections.length} sections`);
 
+      // A refresh leads with what changed since the run it refreshes
+      let changes: { title: string; text: string } | null = null;
+      if (state.refresh) {
+        const { refresh } = state;
+        const title = `What Changed Since ${refresh.since.slice(0, 10)}`;
+        changes = {
+          title,
+          text: await generateChangesSection({
+            refresh,
+            title,
+            stageAnalyses,
+            topic: topic || "Unknown topic",
+            newSources: sources.filter(
+              ({ finding }) => !isPriorSource(refresh, finding.source)
+            ),
+            citationStyle,
+            step,
+            model: getLanguageModel("synthesizer", configuration?.models),
+            state,
+          }),
+        };
+      }
+
       // 4. Generate all sections in parallel
       logInfo(`Generating ${outline.sections.length} sections in parallel`);
       const generateSectionPromises = outline.sections.map((section: any) =>
@@ -340,8 +510,11 @@ export const generateReportTool = createTool({
           outline,
           stageAnalyses,
           topic: topic || "Unknown topic",
-          referenceLines,
+          sourceLines,
+          citationStyle,
           step,
+          model: getLanguageModel("synthesizer", configuration?.models),
+          state,
         })
       );
 
@@ -357,7 +530,7 @@ export const generateReportTool = createTool({
       const draftReport = `
 # ${outline.title}
 
-${sections.join("\n\n")}
+${[changes?.text, ...sections].filter(Boolean).join("\n\n")}
 
 ## References
 
@@ -371,26 +544,31 @@ ${referenceLines.join("<br/>\n")}
         draftReport,
         stageAnalyses,
         topic: topic || "Unknown topic",
+        citationStyle,
+        keepSection: changes?.title,
         step,
+        model: getLanguageModel("editor", configuration?.models),
+        state,
       });
 
-      // Validate that inline citation numbers don't exceed reference list length
+      // 7. Check every cited sentence against the source it cites. A failed
+      // check doesn't fail the report.
+      let citationVerification: CitationVerification | undefined;
       try {
-        const usedNumbers = Array.from(
-          new Set(
-            Array.from(finalReport.matchAll(/\[(\d+)\]/g)).map((m) =>
-              parseInt(m[1], 10)
-            )
-          )
+        citationVerification = await verifyCitations({
+          report: finalReport,
+          style: citationStyle,
+          sources,
+          step,
+          model: getLanguageModel("analyst", configuration?.models),
+          state,
+        });
+        const { supported, weak, unsupported } = citationVerification.summary;
+        logInfo(
+          `Verified citations: ${supported} supported, ${weak} weak, ${unsupported} unsupported`
         );
-        const maxUsed = usedNumbers.length ? Math.max(...usedNumbers) : 0;
-        if (maxUsed > referenceLines.length) {
-          console.warn(
-            `Citation validation warning: inline citation ${maxUsed} exceeds reference list of length ${referenceLines.length}`
-          );
-        }
       } catch (err) {
-        console.warn("Citation validation error", err);
+        console.warn("Citation verification error", err);
       }
 
       // Update network state with both versions
@@ -398,6 +576,7 @@ ${referenceLines.join("<br/>\n")}
         ...state,
         draftReport,
         finalReport,
+        citationVerification,
       };
 
       logInfo("✅ Report generation and editing complete!");
@@ -451,6 +630,8 @@ Use the 'generate_report' tool to synthesize all stage analyses into a final del
   model: openai({ model: "gpt-4o" }),
   tools: [generateReportTool],
   lifecycle: {
+    onResponse: async (args) =>
+      recordAgentTokenUsage(args, { label: "ReportingAgent" }),
     onStart: async ({ input, network, prompt, history }) => {
       console.log("=== REPORTING AGENT START ===");
 
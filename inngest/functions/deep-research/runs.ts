@@ -0,0 +1,666 @@
+import { query } from "@/lib/db";
+import {
+  Finding,
+  NetworkState,
+  ProgressEvent,
+  ReasoningStage,
+} from "../deep-research";
+import { collectUniqueSources } from "./citations";
+import { TokenSummary, TokenUsage } from "./token-tracking";
+import { BudgetExceeded } from "./budget";
+import { CitationVerification } from "./citation-verification";
+import { SteeringInstruction } from "./steering";
+import { ReportAnswer } from "./report-chat";
+import { nextCronTime, ResearchSchedule } from "./schedules";
+
+export type RunStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Summary of a run as returned by the run history listing
+ */
+export interface DeepResearchRunSummary {
+  uuid: string;
+  topic: string;
+  context: string | null;
+  configuration: NetworkState["configuration"] | null;
+  status: RunStatus;
+  usage: TokenSummary | null;
+  // The run this one refreshes, if any
+  refreshOf: string | null;
+  // The schedule that started this run, if any
+  scheduleId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Full persisted record of a deep research run
+ */
+export interface DeepResearchRun extends DeepResearchRunSummary {
+  stages: ReasoningStage[];
+  findings: Finding[];
+  citations: Record<string, number> | null;
+  draftReport: string | null;
+  finalReport: string | null;
+  error: string | null;
+  lastEvent: ProgressEvent | null;
+  tokenUsage: TokenUsage | null;
+  budgetExceeded: BudgetExceeded | null;
+  citationVerification: CitationVerification | null;
+}
+
+interface RunRow {
+  uuid: string;
+  topic: string;
+  context: string | null;
+  configuration: NetworkState["configuration"] | null;
+  status: RunStatus;
+  stages: ReasoningStage[];
+  findings: Finding[];
+  citations: Record<string, number> | null;
+  draft_report: string | null;
+  final_report: string | null;
+  error: string | null;
+  last_event: ProgressEvent | null;
+  token_usage: TokenUsage | null;
+  budget_exceeded: BudgetExceeded | null;
+  citation_verification: CitationVerification | null;
+  usage: TokenSummary | null;
+  refresh_of: string | null;
+  schedule_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Schema statements, applied in order the first time the store is used.
+ * Every statement must be idempotent.
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS deep_research_runs (
+    uuid UUID PRIMARY KEY,
+    topic TEXT NOT NULL,
+    context TEXT,
+    configuration JSONB,
+    status TEXT NOT NULL DEFAULT 'running',
+    stages JSONB NOT NULL DEFAULT '[]',
+    findings JSONB NOT NULL DEFAULT '[]',
+    citations JSONB,
+    draft_report TEXT,
+    final_report TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    completed_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS deep_research_runs_created_at_idx
+    ON deep_research_runs (created_at DESC)`,
+  `ALTER TABLE deep_research_runs ADD COLUMN IF NOT EXISTS last_event JSONB`,
+  `ALTER TABLE deep_research_runs ADD COLUMN IF NOT EXISTS token_usage JSONB`,
+  `ALTER TABLE deep_research_runs ADD COLUMN IF NOT EXISTS budget_exceeded JSONB`,
+  `ALTER TABLE deep_research_runs
+    ADD COLUMN IF NOT EXISTS citation_verification JSONB`,
+  `ALTER TABLE deep_research_runs ADD COLUMN IF NOT EXISTS refresh_of UUID`,
+  `ALTER TABLE deep_research_runs ADD COLUMN IF NOT EXISTS schedule_id UUID`,
+  `CREATE INDEX IF NOT EXISTS deep_research_runs_schedule_id_idx
+    ON deep_research_runs (schedule_id, created_at DESC)
+    WHERE schedule_id IS NOT NULL`,
+  `CREATE TABLE IF NOT EXISTS deep_research_schedules (
+    id UUID PRIMARY KEY,
+    topic TEXT NOT NULL,
+    context TEXT,
+    configuration JSONB,
+    cron TEXT NOT NULL,
+    recipients JSONB NOT NULL DEFAULT '[]',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS deep_research_schedules_next_run_at_idx
+    ON deep_research_schedules (next_run_at) WHERE enabled`,
+  `CREATE TABLE IF NOT EXISTS deep_research_steering (
+    id BIGSERIAL PRIMARY KEY,
+    uuid UUID NOT NULL REFERENCES deep_research_runs (uuid) ON DELETE CASCADE,
+    instruction JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    applied_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS deep_research_steering_pending_idx
+    ON deep_research_steering (uuid) WHERE applied_at IS NULL`,
+  `CREATE TABLE IF NOT EXISTS deep_research_answers (
+    id UUID PRIMARY KEY,
+    uuid UUID NOT NULL REFERENCES deep_research_runs (uuid) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    search_query TEXT,
+    sources JSONB NOT NULL DEFAULT '[]',
+    usage JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS deep_research_answers_uuid_idx
+    ON deep_research_answers (uuid, created_at)`,
+];
+
+let schemaReady: Promise<void> | null = null;
+
+function ensureSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = (async () => {
+      for (const statement of SCHEMA) {
+        await query(statement);
+      }
+    })().catch((error) => {
+      // Allow the next call to retry instead of caching the failure
+      schemaReady = null;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+function toSummary(row: RunRow): DeepResearchRunSummary {
+  return {
+    uuid: row.uuid,
+    topic: row.topic,
+    context: row.context,
+    configuration: row.configuration,
+    status: row.status,
+    usage: row.usage ?? row.token_usage?.total ?? null,
+    refreshOf: row.refresh_of ?? null,
+    scheduleId: row.schedule_id ?? null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+    completedAt: row.completed_at ? row.completed_at.toISOString() : null,
+  };
+}
+
+function toRun(row: RunRow): DeepResearchRun {
+  return {
+    ...toSummary(row),
+    stages: row.stages,
+    findings: row.findings,
+    citations: row.citations,
+    draftReport: row.draft_report,
+    finalReport: row.final_report,
+    error: row.error,
+    lastEvent: row.last_event,
+    tokenUsage: row.token_usage,
+    budgetExceeded: row.budget_exceeded,
+    citationVerification: row.citation_verification,
+  };
+}
+
+/**
+ * Whether an id is a UUID. Ids from request paths are checked before they
+ * reach a UUID column, which would reject anything else with an error.
+ */
+export function isUuid(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+    id
+  );
+}
+
+/**
+ * Record a newly started run. Safe to call again for the same uuid.
+ */
+export async function createRun({
+  uuid,
+  topic,
+  context,
+  configuration,
+  refreshOf,
+  scheduleId,
+}: {
+  uuid: string;
+  topic: string;
+  context?: string | null;
+  configuration?: NetworkState["configuration"];
+  refreshOf?: string | null;
+  scheduleId?: string | null;
+}): Promise<void> {
+  await ensureSchema();
+  await query(
+    `INSERT INTO deep_research_runs
+       (uuid, topic, context, configuration, refresh_of, schedule_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (uuid) DO NOTHING`,
+    [
+      uuid,
+      topic,
+      context || null,
+      JSON.stringify(configuration ?? null),
+      refreshOf || null,
+      scheduleId || null,
+    ]
+  );
+}
+
+/**
+ * Persist the current network state for a run. When a status other than
+ * "running" is given the run is also stamped as completed. Snapshots taken
+ * while running never overwrite a run that has already finished, since
+ * Inngest replays the router after the final save.
+ */
+export async function saveRunState(
+  uuid: string,
+  state: NetworkState,
+  { status = "running" }: { status?: RunStatus } = {}
+): Promise<void> {
+  await ensureSchema();
+
+  const stages = state.reasoningStages || [];
+  const citations = state.citations
+    ? Object.fromEntries(state.citations.entries())
+    : null;
+
+  await query(
+    `UPDATE deep_research_runs
+     SET stages = $2,
+         findings = $3,
+         citations = $4,
+         draft_report = $5,
+         final_report = $6,
+         status = $7,
+         token_usage = $8,
+         budget_exceeded = $9,
+         citation_verification = $10,
+         updated_at = now(),
+         completed_at = CASE WHEN $7 = 'running' THEN NULL ELSE now() END
+     WHERE uuid = $1 AND (status = 'running' OR $7 <> 'running')`,
+    [
+      uuid,
+      JSON.stringify(stages),
+      JSON.stringify(collectUniqueSources(stages)),
+      JSON.stringify(citations),
+      state.draftReport ?? null,
+      state.finalReport ?? null,
+      status,
+      JSON.stringify(state.tokenUsage ?? null),
+      JSON.stringify(state.budgetExceeded ?? null),
+      JSON.stringify(state.citationVerification ?? null),
+    ]
+  );
+}
+
+/**
+ * Record the most recent progress event published for a run. Stage trees
+ * and findings are dropped since they are already stored with the run.
+ */
+export async function recordRunEvent(
+  uuid: string,
+  event: ProgressEvent
+): Promise<void> {
+  await ensureSchema();
+
+  const lastEvent: ProgressEvent = {
+    ...event,
+    stage: event.stage && { ...event.stage, reasoningTree: undefined },
+    findings: null,
+    stages: null,
+  };
+
+  await query(
+    `UPDATE deep_research_runs
+     SET last_event = $2, updated_at = now()
+     WHERE uuid = $1 AND status = 'running'`,
+    [uuid, JSON.stringify(lastEvent)]
+  );
+}
+
+/**
+ * Mark a run as failed with the given error message
+ */
+export async function failRun(uuid: string, error: string): Promise<void> {
+  await ensureSchema();
+  await query(
+    `UPDATE deep_research_runs
+     SET status = 'failed', error = $2, updated_at = now(), completed_at = now()
+     WHERE uuid = $1`,
+    [uuid, error]
+  );
+}
+
+/**
+ * Mark a run as cancelled. Runs that have already finished are left as is.
+ */
+export async function cancelRun(uuid: string): Promise<void> {
+  await ensureSchema();
+  await query(
+    `UPDATE deep_research_runs
+     SET status = 'cancelled', updated_at = now(), completed_at = now()
+     WHERE uuid = $1 AND status = 'running'`,
+    [uuid]
+  );
+}
+
+/**
+ * List runs, most recent first. With a schedule id only the runs that
+ * schedule started are listed.
+ */
+export async function listRuns({
+  limit = 20,
+  offset = 0,
+  scheduleId,
+}: {
+  limit?: number;
+  offset?: number;
+  scheduleId?: string;
+} = {}): Promise<DeepResearchRunSummary[]> {
+  await ensureSchema();
+  const rows = await query<RunRow>(
+    `SELECT uuid, topic, context, configuration, status,
+            token_usage->'total' AS usage, refresh_of, schedule_id,
+            created_at, updated_at, completed_at
+     FROM deep_research_runs
+     WHERE $3::uuid IS NULL OR schedule_id = $3
+     ORDER BY created_at DESC
+     LIMIT $1 OFFSET $2`,
+    [limit, offset, scheduleId ?? null]
+  );
+  return rows.map(toSummary);
+}
+
+/**
+ * Fetch a single run with its stages, findings and reports
+ */
+export async function getRun(uuid: string): Promise<DeepResearchRun | null> {
+  if (!isUuid(uuid)) return null;
+  await ensureSchema();
+  const rows = await query<RunRow>(
+    `SELECT * FROM deep_research_runs WHERE uuid = $1`,
+    [uuid]
+  );
+  return rows[0] ? toRun(rows[0]) : null;
+}
+
+/**
+ * Queue a steering instruction for a run. The run picks it up the next time
+ * its router runs; see takeSteering. Returns whether it was queued, which it
+ * isn't for runs that are not recorded or no longer running.
+ */
+export async function queueSteering(
+  uuid: string,
+  instruction: SteeringInstruction
+): Promise<boolean> {
+  if (!isUuid(uuid)) return false;
+  await ensureSchema();
+  const rows = await query<{ id: string }>(
+    `INSERT INTO deep_research_steering (uuid, instruction)
+     SELECT uuid, $2::jsonb FROM deep_research_runs
+     WHERE uuid = $1 AND status = 'running'
+     RETURNING id`,
+    [uuid, JSON.stringify(instruction)]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Take the steering instructions queued for a run, oldest first. Each
+ * instruction is only ever returned once.
+ */
+export async function takeSteering(
+  uuid: string
+): Promise<SteeringInstruction[]> {
+  await ensureSchema();
+  const rows = await query<{ id: string; instruction: SteeringInstruction }>(
+    `UPDATE deep_research_steering
+     SET applied_at = now()
+     WHERE uuid = $1 AND applied_at IS NULL
+     RETURNING id, instruction`,
+    [uuid]
+  );
+  return rows
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .map((row) => row.instruction);
+}
+
+interface AnswerRow {
+  id: string;
+  question: string;
+  answer: string;
+  search_query: string | null;
+  sources: ReportAnswer["sources"];
+  usage: ReportAnswer["usage"];
+  created_at: Date;
+}
+
+/**
+ * Record the answer to a follow-up question on a run's report. Safe to call
+ * again for the same answer.
+ */
+export async function saveReportAnswer(
+  uuid: string,
+  answer: ReportAnswer
+): Promise<void> {
+  await ensureSchema();
+  await query(
+    `INSERT INTO deep_research_answers
+       (id, uuid, question, answer, search_query, sources, usage, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (id) DO NOTHING`,
+    [
+      answer.id,
+      uuid,
+      answer.question,
+      answer.answer,
+      answer.searchQuery,
+      JSON.stringify(answer.sources),
+      JSON.stringify(answer.usage),
+      answer.createdAt,
+    ]
+  );
+}
+
+/**
+ * List the follow-up questions asked about a run's report, oldest first
+ */
+export async function listReportAnswers(
+  uuid: string
+): Promise<ReportAnswer[]> {
+  await ensureSchema();
+  const rows = await query<AnswerRow>(
+    `SELECT id, question, answer, search_query, sources, usage, created_at
+     FROM deep_research_answers
+     WHERE uuid = $1
+     ORDER BY created_at`,
+    [uuid]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    question: row.question,
+    answer: row.answer,
+    searchQuery: row.search_query,
+    sources: row.sources,
+    usage: row.usage,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+interface ScheduleRow {
+  id: string;
+  topic: string;
+  context: string | null;
+  configuration: NetworkState["configuration"] | null;
+  cron: string;
+  recipients: string[];
+  enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+type ScheduleFields = Pick<
+  ResearchSchedule,
+  "topic" | "context" | "configuration" | "cron" | "recipients" | "enabled"
+>;
+
+function toSchedule(row: ScheduleRow): ResearchSchedule {
+  return {
+    id: row.id,
+    topic: row.topic,
+    context: row.context,
+    configuration: row.configuration,
+    cron: row.cron,
+    recipients: row.recipients,
+    enabled: row.enabled,
+    nextRunAt: row.next_run_at ? row.next_run_at.toISOString() : null,
+    lastRunAt: row.last_run_at ? row.last_run_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Record a new schedule. Its first run is due at the next time its cron
+ * expression fires.
+ */
+export async function createSchedule(
+  id: string,
+  schedule: ScheduleFields
+): Promise<ResearchSchedule> {
+  await ensureSchema();
+  const rows = await query<ScheduleRow>(
+    `INSERT INTO deep_research_schedules
+       (id, topic, context, configuration, cron, recipients, enabled,
+        next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      id,
+      schedule.topic,
+      schedule.context || null,
+      JSON.stringify(schedule.configuration ?? null),
+      schedule.cron,
+      JSON.stringify(schedule.recipients),
+      schedule.enabled,
+      schedule.enabled ? nextCronTime(schedule.cron, new Date()) : null,
+    ]
+  );
+  return toSchedule(rows[0]);
+}
+
+/**
+ * Change the given fields of a schedule. Changing its cron expression or
+ * re-enabling it moves its next run to the next time the expression fires.
+ */
+export async function updateSchedule(
+  id: string,
+  changes: Partial<ScheduleFields>
+): Promise<ResearchSchedule | null> {
+  const existing = await getSchedule(id);
+  if (!existing) return null;
+
+  const schedule = { ...existing, ...changes };
+  // Saving the same cron expression or enabled flag again keeps the next run
+  const rescheduled =
+    schedule.cron !== existing.cron || (schedule.enabled && !existing.enabled);
+  const nextRunAt = !schedule.enabled
+    ? null
+    : rescheduled || !existing.nextRunAt
+    ? nextCronTime(schedule.cron, new Date())
+    : existing.nextRunAt;
+
+  const rows = await query<ScheduleRow>(
+    `UPDATE deep_research_schedules
+     SET topic = $2,
+         context = $3,
+         configuration = $4,
+         cron = $5,
+         recipients = $6,
+         enabled = $7,
+         next_run_at = $8,
+         updated_at = now()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      id,
+      schedule.topic,
+      schedule.context || null,
+      JSON.stringify(schedule.configuration ?? null),
+      schedule.cron,
+      JSON.stringify(schedule.recipients),
+      schedule.enabled,
+      nextRunAt,
+    ]
+  );
+  return rows[0] ? toSchedule(rows[0]) : null;
+}
+
+/**
+ * Delete a schedule, returning whether it existed. Runs it started are kept.
+ */
+export async function deleteSchedule(id: string): Promise<boolean> {
+  if (!isUuid(id)) return false;
+  await ensureSchema();
+  const rows = await query<{ id: string }>(
+    `DELETE FROM deep_research_schedules WHERE id = $1 RETURNING id`,
+    [id]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Fetch a single schedule
+ */
+export async function getSchedule(
+  id: string
+): Promise<ResearchSchedule | null> {
+  if (!isUuid(id)) return null;
+  await ensureSchema();
+  const rows = await query<ScheduleRow>(
+    `SELECT * FROM deep_research_schedules WHERE id = $1`,
+    [id]
+  );
+  return rows[0] ? toSchedule(rows[0]) : null;
+}
+
+/**
+ * List schedules, most recently created first
+ */
+export async function listSchedules(): Promise<ResearchSchedule[]> {
+  await ensureSchema();
+  const rows = await query<ScheduleRow>(
+    `SELECT * FROM deep_research_schedules ORDER BY created_at DESC`
+  );
+  return rows.map(toSchedule);
+}
+
+/**
+ * Claim the enabled schedules that are due, moving each to its next run.
+ * All of them are claimed in one statement, so a failed claim leaves every
+ * schedule due for the next attempt. A schedule is only ever claimed once
+ * per due time, even when claims overlap.
+ */
+export async function claimDueSchedules(
+  now: Date
+): Promise<ResearchSchedule[]> {
+  await ensureSchema();
+  const due = await query<ScheduleRow>(
+    `SELECT * FROM deep_research_schedules
+     WHERE enabled AND next_run_at <= $1
+     ORDER BY next_run_at`,
+    [now]
+  );
+  if (due.length === 0) return [];
+
+  const rows = await query<ScheduleRow>(
+    `UPDATE deep_research_schedules AS schedule
+     SET next_run_at = claim.next_run_at, last_run_at = $4, updated_at = now()
+     FROM unnest($1::uuid[], $2::timestamptz[], $3::timestamptz[])
+       AS claim (id, due_at, next_run_at)
+     WHERE schedule.id = claim.id AND schedule.next_run_at = claim.due_at
+     RETURNING schedule.*`,
+    [
+      due.map((row) => row.id),
+      due.map((row) => row.next_run_at),
+      due.map((row) => nextCronTime(row.cron, now)),
+      now,
+    ]
+  );
+  return rows.map(toSchedule);
+}
@@ -0,0 +1,237 @@
+import { NetworkState } from "../deep-research";
+import { ResearchConfigurationRequest } from "./configuration";
+
+/**
+ * A research topic that is run on a cron schedule. Each run it starts is
+ * stored with the schedule's id, so its reports can be listed per schedule.
+ */
+export interface ResearchSchedule {
+  id: string;
+  topic: string;
+  context: string | null;
+  configuration: NetworkState["configuration"] | null;
+  // Five field cron expression, evaluated in UTC
+  cron: string;
+  // Email addresses to send the reports of scheduled runs to
+  recipients: string[];
+  enabled: boolean;
+  // Null while the schedule is disabled
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A schedule as created or updated by a client. Updates only change the
+ * fields that are given.
+ */
+export interface ResearchScheduleRequest {
+  topic?: string;
+  context?: string | null;
+  configuration?: ResearchConfigurationRequest;
+  cron?: string;
+  recipients?: string[];
+  enabled?: boolean;
+}
+
+export const SCHEDULE_LIMITS = {
+  maxRecipients: 20,
+  // How far ahead the next run of an expression is looked for
+  maxLookaheadYears: 5,
+} as const;
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // A day restricted in only one of the two day fields must match that
+  // field; restricted in both, it may match either
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Parse one cron field: `*`, a number, a range `a-b`, any of these with a
+ * step `/n`, or a comma separated list of them
+ */
+function parseCronField(
+  field: string,
+  { min, max }: { min: number; max: number }
+): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const [, start, end, stepText] = match;
+    if (start === "*" && end !== undefined) return null;
+
+    const from = start === "*" ? min : Number(start);
+    const to =
+      start === "*" || (end === undefined && stepText !== undefined)
+        ? max
+        : Number(end ?? start);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (from < min || to > max || from > to || step < 1) return null;
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) return null;
+
+  const sets = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  if (sets.some((set) => !set)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] =
+    sets as Set<number>[];
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+function matchesDay(cron: CronSchedule, time: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(time.getUTCDay());
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time after `after` that a cron expression fires, or null if the
+ * expression is invalid or never fires
+ */
+export function nextCronTime(expression: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  if (!cron) return null;
+
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setUTCFullYear(
+    limit.getUTCFullYear() + SCHEDULE_LIMITS.maxLookaheadYears
+  );
+
+  // Skip ahead by the largest unit that doesn't match
+  while (time <= limit) {
+    if (!cron.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a cron expression, returning what is wrong with it or null if it
+ * can be scheduled
+ */
+export function validateCronExpression(expression: unknown): string | null {
+  if (typeof expression !== "string" || !expression.trim()) {
+    return "A cron expression is required";
+  }
+
+  const cron = parseCron(expression);
+  if (!cron) {
+    return "The cron expression must have five numeric fields: minute, hour, day of month, month and day of week";
+  }
+  // Each run is a full research job, so runs are kept at least an hour apart
+  if (cron.minutes.size !== 1) {
+    return "Schedules can run at most once an hour, so the minute field must be a single value";
+  }
+  if (!nextCronTime(expression, new Date())) {
+    return "The cron expression never fires";
+  }
+  return null;
+}
+
+/**
+ * Check a schedule being created, or with `partial` being updated,
+ * returning what is wrong with it or null if it can be saved
+ */
+export function validateScheduleRequest(
+  request: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): string | null {
+  const value = request as Record<string, unknown> | null;
+  if (!value || typeof value !== "object") {
+    return "A schedule is required";
+  }
+
+  if (!partial || value.topic !== undefined) {
+    if (typeof value.topic !== "string" || !value.topic.trim()) {
+      return "A research topic is required";
+    }
+  }
+  if (
+    value.context !== undefined &&
+    value.context !== null &&
+    typeof value.context !== "string"
+  ) {
+    return "The context must be text";
+  }
+  if (!partial || value.cron !== undefined) {
+    const invalidCron = validateCronExpression(value.cron);
+    if (invalidCron) return invalidCron;
+  }
+  if (value.recipients !== undefined) {
+    if (!Array.isArray(value.recipients)) {
+      return "The recipients must be a list of email addresses";
+    }
+    if (value.recipients.length > SCHEDULE_LIMITS.maxRecipients) {
+      return `A schedule can have at most ${SCHEDULE_LIMITS.maxRecipients} recipients`;
+    }
+    const invalidRecipient = value.recipients.find(
+      (recipient) =>
+        typeof recipient !== "string" ||
+        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)
+    );
+    if (invalidRecipient !== undefined) {
+      return `${invalidRecipient} is not an email address`;
+    }
+  }
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    return "Enabled must be true or false";
+  }
+  return null;
+}
@@ -0,0 +1,70 @@
+import Exa from "exa-js";
+import { SearchOptions, SearchProvider, SearchResult } from "./types";
+import { matchesSearchFilters } from "./filters";
+
+/**
+ * Normalize an Exa result into our SearchResult shape
+ */
+function toSearchResult(result: {
+  url: string;
+  title: string | null;
+  author?: string;
+  publishedDate?: string;
+  favicon?: string;
+  image?: string;
+  text?: string;
+}): SearchResult {
+  return {
+    url: result.url,
+    title: result.title || null,
+    author: result.author || null,
+    publishedDate: result.publishedDate || null,
+    favicon: result.favicon || null,
+    image: result.image || null,
+    text: result.text || "",
+  };
+}
+
+/**
+ * Search provider backed by the Exa API. Exa has no language filter, so
+ * the language is checked on the text of the results.
+ */
+export function createExaSearchProvider(
+  apiKey: string = process.env.EXA_API_KEY || ""
+): SearchProvider {
+  const exa = new Exa(apiKey);
+
+  return {
+    name: "exa",
+    async search(query: string, { numResults, ...filters }: SearchOptions) {
+      const {
+        includeDomains,
+        excludeDomains,
+        startPublishedDate,
+        endPublishedDate,
+        category,
+      } = filters;
+
+      const response = await exa.searchAndContents(query, {
+        text: true,
+        numResults,
+        highlightMatches: true, // Highlight matching terms
+        // Exa takes one of the two domain lists; the other is checked below
+        ...(includeDomains?.length
+          ? { includeDomains }
+          : excludeDomains?.length && { excludeDomains }),
+        ...(startPublishedDate && { startPublishedDate }),
+        ...(endPublishedDate && { endPublishedDate }),
+        ...(category && { category }),
+      });
+      return response.results
+        .map(toSearchResult)
+        .filter((result) => matchesSearchFilters(result, filters));
+    },
+    async getContents(urls: string[]) {
+      if (urls.length === 0) return [];
+      const response = await exa.getContents(urls, { text: true });
+      return response.results.map(toSearchResult);
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { SearchCategory, SearchFilters, SearchResult } from "./types";
+
+export const SEARCH_CATEGORIES: SearchCategory[] = [
+  "news",
+  "research paper",
+  "company",
+];
+
+// Frequent short words that are only common in one of the languages results
+// can be filtered on
+const LANGUAGE_WORDS: Record<string, string[]> = Object.fromEntries(
+  Object.entries({
+    en: "the and of to is that for with are this was have it be by",
+    de: "der die und das ist nicht mit sich auf für eine den von dem wird",
+    fr: "le les et des est une pour dans qui sur pas du au ce sont",
+    es: "el los las y por una con del es como más pero lo esta entre",
+    it: "il di che è per della gli nel sono anche alla più delle questo degli",
+    pt: "os não uma com do da em são mais é ao dos pelo também à",
+    nl: "het een van dat niet op voor met zijn te ook wordt naar bij worden",
+  }).map(([language, words]) => [language, words.split(" ")])
+);
+
+export const SEARCH_LANGUAGES = Object.keys(LANGUAGE_WORDS);
+
+const LANGUAGE_SAMPLE_WORDS = 500;
+// Too short a text can't be told apart reliably
+const LANGUAGE_MIN_WORDS = 20;
+// Share of the sampled words that must be common words of the language
+const LANGUAGE_MIN_SHARE = 0.08;
+
+/**
+ * The language of a text, as one of SEARCH_LANGUAGES, or null when it is
+ * too short or none of them fits
+ */
+export function detectLanguage(text: string): string | null {
+  // Latin letters, including the accented ones of these languages
+  const words = (
+    text.toLowerCase().match(/[a-z\u00e0-\u00f6\u00f8-\u00ff]+/g) || []
+  ).slice(0, LANGUAGE_SAMPLE_WORDS);
+  if (words.length < LANGUAGE_MIN_WORDS) return null;
+
+  let best: { language: string; count: number } | null = null;
+  for (const [language, common] of Object.entries(LANGUAGE_WORDS)) {
+    const set = new Set(common);
+    const count = words.filter((word) => set.has(word)).length;
+    if (!best || count > best.count) best = { language, count };
+  }
+  return best && best.count / words.length >= LANGUAGE_MIN_SHARE
+    ? best.language
+    : null;
+}
+
+/**
+ * Tighten a set of filters with another: the later start date and the
+ * earlier end date win, everything else in `narrower` is added
+ */
+export function narrowSearchFilters(
+  filters: SearchFilters | undefined,
+  narrower: SearchFilters
+): SearchFilters {
+  const latest = (a?: string, b?: string) =>
+    a && b ? (new Date(a) > new Date(b) ? a : b) : a || b;
+  const earliest = (a?: string, b?: string) =>
+    a && b ? (new Date(a) < new Date(b) ? a : b) : a || b;
+
+  return {
+    ...filters,
+    ...Object.fromEntries(
+      Object.entries(narrower).filter(([, value]) => value !== undefined)
+    ),
+    startPublishedDate: latest(
+      filters?.startPublishedDate,
+      narrower.startPublishedDate
+    ),
+    endPublishedDate: earliest(
+      filters?.endPublishedDate,
+      narrower.endPublishedDate
+    ),
+  };
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Whether a result satisfies the domain, date and language filters, for
+ * providers that can't apply them in the search itself. Undated results
+ * are kept unless `requireDate` is set. The language is told from the
+ * result's text; results without text, or whose language can't be told,
+ * are kept.
+ */
+export function matchesSearchFilters(
+  result: Pick<SearchResult, "url" | "publishedDate"> &
+    Partial<Pick<SearchResult, "text">>,
+  filters: SearchFilters,
+  { requireDate = false }: { requireDate?: boolean } = {}
+): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(result.url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const { includeDomains, excludeDomains } = filters;
+  if (
+    includeDomains?.length &&
+    !includeDomains.some((domain) => matchesDomain(hostname, domain))
+  ) {
+    return false;
+  }
+  if (excludeDomains?.some((domain) => matchesDomain(hostname, domain))) {
+    return false;
+  }
+
+  if (filters.language && result.text) {
+    const detected = detectLanguage(result.text);
+    if (detected && detected !== filters.language) return false;
+  }
+
+  const { startPublishedDate, endPublishedDate } = filters;
+  if (!startPublishedDate && !endPublishedDate) return true;
+  if (!result.publishedDate) return !requireDate;
+
+  // An end date without a time includes the whole of that day
+  const end =
+    endPublishedDate && /^\d{4}-\d{2}-\d{2}$/.test(endPublishedDate)
+      ? `${endPublishedDate}T23:59:59.999Z`
+      : endPublishedDate;
+  const published = new Date(result.publishedDate);
+  return (
+    (!startPublishedDate || published >= new Date(startPublishedDate)) &&
+    (!end || published <= new Date(end))
+  );
+}
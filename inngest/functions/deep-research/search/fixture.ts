@@ -0,0 +1,87 @@
+import { readFileSync } from "fs";
+import { SearchOptions, SearchProvider, SearchResult } from "./types";
+import { matchesSearchFilters } from "./filters";
+
+/**
+ * Recorded search data. `documents` is the corpus that queries are matched
+ * against; `queries` optionally pins the exact URLs returned for a query.
+ */
+export interface SearchFixture {
+  documents: SearchResult[];
+  queries?: Record<string, string[]>;
+}
+
+/**
+ * Split text into lowercase terms for lexical matching
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+/**
+ * Score a document by how many distinct query terms it contains, weighting
+ * title matches above body matches
+ */
+function scoreDocument(terms: Set<string>, document: SearchResult): number {
+  const titleTerms = new Set(tokenize(document.title || ""));
+  const bodyTerms = new Set(tokenize(document.text));
+  let score = 0;
+  terms.forEach((term) => {
+    if (titleTerms.has(term)) score += 2;
+    if (bodyTerms.has(term)) score += 1;
+  });
+  return score;
+}
+
+/**
+ * Offline search provider that serves results from a fixture. Results are
+ * fully deterministic, which makes it suitable for tests and for running the
+ * pipeline where no search API is available.
+ */
+export function createFixtureSearchProvider(
+  fixture: SearchFixture | string = process.env.SEARCH_FIXTURE_PATH || ""
+): SearchProvider {
+  const data: SearchFixture =
+    typeof fixture === "string"
+      ? JSON.parse(readFileSync(fixture, "utf-8"))
+      : fixture;
+
+  const byUrl = new Map(data.documents.map((doc) => [doc.url, doc]));
+
+  return {
+    name: "fixture",
+    async search(query: string, { numResults, ...filters }: SearchOptions) {
+      // Undated documents are left out of date filtered searches. The
+      // category isn't recorded, so it isn't applied.
+      const matchesFilters = (doc: SearchResult) =>
+        matchesSearchFilters(doc, filters, { requireDate: true });
+
+      const pinned = data.queries?.[query];
+      if (pinned) {
+        return pinned
+          .map((url) => byUrl.get(url))
+          .filter((doc): doc is SearchResult => Boolean(doc))
+          .filter(matchesFilters)
+          .slice(0, numResults);
+      }
+
+      const terms = new Set(tokenize(query));
+      return data.documents
+        .filter(matchesFilters)
+        .map((document, index) => ({
+          document,
+          index,
+          score: scoreDocument(terms, document),
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, numResults)
+        .map(({ document }) => document);
+    },
+    async getContents(urls: string[]) {
+      return urls
+        .map((url) => byUrl.get(url))
+        .filter((doc): doc is SearchResult => Boolean(doc));
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { createExaSearchProvider } from "./exa";
+import { createFixtureSearchProvider } from "./fixture";
+import { createSearxngSearchProvider } from "./searxng";
+import { SearchProvider } from "./types";
+
+export type {
+  SearchCategory,
+  SearchFilters,
+  SearchOptions,
+  SearchProvider,
+  SearchResult,
+} from "./types";
+export {
+  detectLanguage,
+  matchesSearchFilters,
+  narrowSearchFilters,
+  SEARCH_CATEGORIES,
+  SEARCH_LANGUAGES,
+} from "./filters";
+export type { SearchFixture } from "./fixture";
+export {
+  createExaSearchProvider,
+  createFixtureSearchProvider,
+  createSearxngSearchProvider,
+};
+
+let searchProviderOverride: SearchProvider | null = null;
+
+/**
+ * Replace the search provider returned by getSearchProvider, e.g. with a
+ * recorded provider for offline runs. Pass null to restore the default.
+ */
+export function setSearchProvider(provider: SearchProvider | null) {
+  searchProviderOverride = provider;
+}
+
+/**
+ * Get the search provider selected by the SEARCH_PROVIDER environment
+ * variable ("exa", "searxng" or "fixture"). Defaults to Exa.
+ */
+export function getSearchProvider(): SearchProvider {
+  if (searchProviderOverride) return searchProviderOverride;
+
+  const providerName = process.env.SEARCH_PROVIDER || "exa";
+
+  switch (providerName) {
+    case "exa":
+      return createExaSearchProvider();
+    case "searxng":
+      return createSearxngSearchProvider();
+    case "fixture":
+      return createFixtureSearchProvider();
+    default:
+      throw new Error(`Unknown search provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  SearchCategory,
+  SearchOptions,
+  SearchProvider,
+  SearchResult,
+} from "./types";
+import { matchesSearchFilters } from "./filters";
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// SearxNG has no category for company sites, so those searches are general
+const SEARXNG_CATEGORIES: Partial<Record<SearchCategory, string>> = {
+  news: "news",
+  "research paper": "science",
+};
+
+interface SearxngResult {
+  url: string;
+  title?: string;
+  content?: string;
+  author?: string;
+  publishedDate?: string | null;
+  img_src?: string;
+  thumbnail?: string;
+}
+
+/**
+ * Reduce an HTML document to readable text
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr|section|article)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+/**
+ * The narrowest SearxNG time range that still reaches back to the given
+ * date, or null when it is further back than the widest range. Results are
+ * filtered by date afterwards as well.
+ */
+function toTimeRange(startPublishedDate: string): string | null {
+  const days =
+    (Date.now() - new Date(startPublishedDate).getTime()) / 86_400_000;
+  if (days <= 1) return "day";
+  if (days <= 7) return "week";
+  if (days <= 31) return "month";
+  if (days <= 365) return "year";
+  return null;
+}
+
+/**
+ * Fetch a page and return its text, or null if it can't be retrieved
+ */
+async function fetchPageText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "text/html,text/plain" },
+    });
+    if (!response.ok) return null;
+
+    const body = await response.text();
+    const contentType = response.headers.get("content-type") || "";
+    return contentType.includes("html") ? htmlToText(body) : body.trim();
+  } catch (error) {
+    console.error(`Failed to fetch contents for ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Search provider for SearxNG-compatible JSON APIs. Page contents are fetched
+ * directly since SearxNG only returns snippets. Domains are passed to the
+ * engines as site: operators and, with dates, checked again on the results.
+ */
+export function createSearxngSearchProvider(
+  baseUrl: string = process.env.SEARXNG_URL || ""
+): SearchProvider {
+  if (!baseUrl) {
+    throw new Error("SEARXNG_URL is required for the SearxNG search provider");
+  }
+
+  return {
+    name: "searxng",
+    async search(query: string, { numResults, ...filters }: SearchOptions) {
+      const {
+        includeDomains = [],
+        excludeDomains = [],
+        startPublishedDate,
+        category,
+        language,
+      } = filters;
+
+      const operators = [
+        includeDomains.map((domain) => `site:${domain}`).join(" OR "),
+        ...excludeDomains.map((domain) => `-site:${domain}`),
+      ].filter(Boolean);
+
+      const url = new URL("/search", baseUrl);
+      url.searchParams.set("q", [query, ...operators].join(" "));
+      url.searchParams.set("format", "json");
+      const timeRange = startPublishedDate && toTimeRange(startPublishedDate);
+      if (timeRange) {
+        url.searchParams.set("time_range", timeRange);
+      }
+      if (category && SEARXNG_CATEGORIES[category]) {
+        url.searchParams.set("categories", SEARXNG_CATEGORIES[category]!);
+      }
+      if (language) {
+        url.searchParams.set("language", language);
+      }
+
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`SearxNG search failed with status ${response.status}`);
+      }
+
+      const { results = [] } = (await response.json()) as {
+        results?: SearxngResult[];
+      };
+
+      const topResults = results
+        .filter((result) =>
+          matchesSearchFilters(
+            { url: result.url, publishedDate: result.publishedDate ?? null },
+            filters
+          )
+        )
+        .slice(0, numResults);
+      const texts = await Promise.all(
+        topResults.map((result) => fetchPageText(result.url))
+      );
+
+      return topResults
+        .map(
+          (result, index): SearchResult => ({
+            url: result.url,
+            title: result.title || null,
+            author: result.author || null,
+            publishedDate: result.publishedDate || null,
+            favicon: null,
+            image: result.img_src || result.thumbnail || null,
+            text: texts[index] || result.content || "",
+          })
+        )
+        .filter((result) => result.text);
+    },
+    async getContents(urls: string[]) {
+      const texts = await Promise.all(urls.map(fetchPageText));
+      return urls
+        .map(
+          (url, index): SearchResult => ({
+            url,
+            title: null,
+            author: null,
+            publishedDate: null,
+            favicon: null,
+            image: null,
+            text: texts[index] || "",
+          })
+        )
+        .filter((result) => result.text);
+    },
+  };
+}
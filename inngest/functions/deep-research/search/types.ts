@@ -0,0 +1,48 @@
+/**
+ * A single search result with its fetched page contents, normalized across
+ * providers into the fields we store on a Finding.
+ */
+export interface SearchResult {
+  url: string;
+  title: string | null;
+  author: string | null;
+  publishedDate: string | null;
+  favicon: string | null;
+  image: string | null;
+  text: string;
+}
+
+export type SearchCategory = "news" | "research paper" | "company";
+
+/**
+ * Constraints on what a search may return. Each provider applies what it
+ * can natively and the rest is checked on the results where possible.
+ */
+export interface SearchFilters {
+  // Bare domains; subdomains match too
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  // ISO dates; only content published within them is wanted
+  startPublishedDate?: string;
+  endPublishedDate?: string;
+  category?: SearchCategory;
+  // ISO 639-1 code, e.g. "en"
+  language?: string;
+}
+
+export interface SearchOptions extends SearchFilters {
+  numResults: number;
+}
+
+/**
+ * SearchProvider
+ *
+ * Anything that can turn a query into results with page contents. The
+ * reasoning agent only talks to this interface so that the pipeline can run
+ * against Exa, a self-hosted search engine or recorded fixtures.
+ */
+export interface SearchProvider {
+  name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+  getContents(urls: string[]): Promise<SearchResult[]>;
+}
@@ -0,0 +1,424 @@
+import { z } from "zod";
+import { generateObject, LanguageModelV1 } from "ai";
+import { NetworkState } from "../deep-research";
+import { recordTokenUsage } from "./token-tracking";
+
+/**
+ * A generalized way of thinking about a problem, phrased as a question or
+ * instruction the model can adapt to the task at hand
+ */
+export interface ReasoningModule {
+  id: string;
+  description: string;
+}
+
+export type ReasoningModuleCatalogName = "planning" | "followUp" | "analysis";
+
+/**
+ * The reasoning modules to choose from for one kind of task
+ */
+export interface ReasoningModuleCatalog {
+  name: ReasoningModuleCatalogName;
+  label: string;
+  modules: ReasoningModule[];
+}
+
+/**
+ * The modules selected from a catalog for a task, each adapted to it. Kept
+ * on the stage so the reasoning behind it can be inspected and reproduced.
+ */
+export interface ReasoningStrategy {
+  catalog: ReasoningModuleCatalogName;
+  modules: (ReasoningModule & { adapted: string })[];
+}
+
+const SELF_DISCOVER_CONFIG = {
+  MODULE_COUNT: 5,
+} as const;
+
+export const REASONING_MODULE_CATALOGS: Record<
+  ReasoningModuleCatalogName,
+  ReasoningModuleCatalog
+> = {
+  planning: {
+    name: "planning",
+    label: "Research planning",
+    modules: [
+      {
+        id: "core-issue",
+        description:
+          "What is the core issue or question that needs to be addressed?",
+      },
+      {
+        id: "decompose",
+        description:
+          "How can I break down this problem into smaller, more manageable parts?",
+      },
+      {
+        id: "key-assumptions",
+        description: "What are the key assumptions underlying this problem?",
+      },
+      {
+        id: "underlying-causes",
+        description:
+          "What are the underlying causes or factors contributing to the problem?",
+      },
+      {
+        id: "alternative-perspectives",
+        description:
+          "What are the alternative perspectives or viewpoints on this problem?",
+      },
+      {
+        id: "stakeholders",
+        description:
+          "Are there any stakeholders or individuals who are directly affected by the problem? What are their perspectives and needs?",
+      },
+      {
+        id: "prior-solutions",
+        description:
+          "Are there any potential solutions or strategies that have been tried before? If yes, what were the outcomes and lessons learned?",
+      },
+      {
+        id: "relevant-data",
+        description:
+          "Are there any relevant data or information that can provide insights into the problem? If yes, what data sources are available, and how can they be analyzed?",
+      },
+      {
+        id: "long-term-implications",
+        description:
+          "What are the long-term implications of this problem and its solutions?",
+      },
+      {
+        id: "systems-thinking",
+        description:
+          "Use systems thinking: consider the problem as part of a larger system and understand the interconnectedness of its elements, its underlying causes, feedback loops and interdependencies.",
+      },
+      {
+        id: "risk-analysis",
+        description:
+          "Use risk analysis: evaluate the risks, uncertainties and tradeoffs of different approaches, their likely consequences and chances of success.",
+      },
+      {
+        id: "problem-type",
+        description:
+          "Is the problem technical, conceptual, behavioral, a matter of decision-making under uncertainty, or a design challenge? What does that imply about how to study it?",
+      },
+      {
+        id: "measure-progress",
+        description:
+          "How can progress or success in solving the problem be measured or evaluated, and with what indicators or metrics?",
+      },
+      {
+        id: "step-by-step-plan",
+        description:
+          "Let's make a step by step plan, where each step provides the context the next one builds on.",
+      },
+    ],
+  },
+  followUp: {
+    name: "followUp",
+    label: "Follow-up queries",
+    modules: [
+      {
+        id: "open-questions",
+        description:
+          "What questions did these findings raise but leave unanswered?",
+      },
+      {
+        id: "resolve-contradictions",
+        description:
+          "Where do sources disagree, and what evidence would settle the disagreement?",
+      },
+      {
+        id: "test-assumptions",
+        description:
+          "Which claims rest on assumptions that have not been checked, and how could they be tested?",
+      },
+      {
+        id: "primary-sources",
+        description:
+          "Which claims are reported second hand, and where could the original data or primary source be found?",
+      },
+      {
+        id: "quantify",
+        description:
+          "Which claims are vague or qualitative, and what figures, benchmarks or metrics would make them concrete?",
+      },
+      {
+        id: "mechanisms",
+        description:
+          "What mechanisms or causes explain what was found, and how could they be investigated?",
+      },
+      {
+        id: "counter-evidence",
+        description:
+          "Let's imagine the current best explanation is totally wrong: what evidence would show it, and where would it be found?",
+      },
+      {
+        id: "edge-cases",
+        description:
+          "In which contexts, populations or conditions might these findings not hold?",
+      },
+      {
+        id: "recent-developments",
+        description:
+          "What has changed recently that could make these findings out of date?",
+      },
+      {
+        id: "practical-application",
+        description:
+          "How are these findings applied in practice, and what happened when they were?",
+      },
+    ],
+  },
+  analysis: {
+    name: "analysis",
+    label: "Stage analysis",
+    modules: [
+      {
+        id: "critical-thinking",
+        description:
+          "Critical thinking: analyze the findings from different perspectives, question assumptions and evaluate the evidence, identifying potential biases or flaws in reasoning.",
+      },
+      {
+        id: "strength-of-evidence",
+        description:
+          "How strong is the evidence behind each conclusion, and which conclusions rest on a single source?",
+      },
+      {
+        id: "consensus-and-debate",
+        description:
+          "Where do the sources agree, where do they disagree, and why might they disagree?",
+      },
+      {
+        id: "patterns-and-trends",
+        description:
+          "What patterns or trends recur across the findings, and what explains them?",
+      },
+      {
+        id: "systems-thinking",
+        description:
+          "Use systems thinking: how do the findings connect into a larger system of causes, feedback loops and interdependencies?",
+      },
+      {
+        id: "alternative-explanations",
+        description:
+          "What alternative explanations fit the same evidence, and how do they compare?",
+      },
+      {
+        id: "compare-stages",
+        description:
+          "How do these findings confirm, refine or contradict what earlier stages of the research concluded?",
+      },
+      {
+        id: "implications",
+        description:
+          "What are the implications of these findings for the broader topic, in the short and long term?",
+      },
+      {
+        id: "risks-and-tradeoffs",
+        description:
+          "What risks, uncertainties and tradeoffs do the findings reveal?",
+      },
+      {
+        id: "stakeholder-impact",
+        description:
+          "Who is affected by what was found, and how do their perspectives differ?",
+      },
+      {
+        id: "gaps",
+        description:
+          "What remains unknown, and what research would close the most important gaps?",
+      },
+      {
+        id: "simplify",
+        description:
+          "How can the findings be simplified into a few key takeaways without losing what matters?",
+      },
+    ],
+  },
+};
+
+const catalogOverrides = new Map<
+  ReasoningModuleCatalogName,
+  ReasoningModuleCatalog
+>();
+
+/**
+ * Replace the catalog used for a kind of task, e.g. with modules suited to a
+ * particular domain. Pass null to restore the default.
+ */
+export function setReasoningModuleCatalog(
+  name: ReasoningModuleCatalogName,
+  catalog: ReasoningModuleCatalog | null
+) {
+  if (catalog) {
+    catalogOverrides.set(name, catalog);
+  } else {
+    catalogOverrides.delete(name);
+  }
+}
+
+export function getReasoningModuleCatalog(
+  name: ReasoningModuleCatalogName
+): ReasoningModuleCatalog {
+  return catalogOverrides.get(name) || REASONING_MODULE_CATALOGS[name];
+}
+
+/**
+ * Self-discover a reasoning strategy for a task: select the modules from the
+ * catalog that suit it, then adapt each one into a question specific to the
+ * task. The caller answers the task with the strategy in its prompt; see
+ * formatReasoningStrategy.
+ */
+export async function discoverReasoningStrategy({
+  catalog: catalogName,
+  task,
+  count = SELF_DISCOVER_CONFIG.MODULE_COUNT,
+  step,
+  model,
+  state,
+  agent,
+  stageId,
+}: {
+  catalog: ReasoningModuleCatalogName;
+  task: string;
+  count?: number;
+  step?: any;
+  model: LanguageModelV1;
+  state: NetworkState;
+  agent: string;
+  stageId?: number;
+}): Promise<ReasoningStrategy> {
+  const catalog = getReasoningModuleCatalog(catalogName);
+  const ids = catalog.modules.map((module) => module.id) as [
+    string,
+    ...string[]
+  ];
+  const moduleCount = Math.min(count, catalog.modules.length);
+
+  // Select
+  const selectResult = await step?.ai.wrap(
+    "self-discover-select",
+    async () => {
+      return await generateObject({
+        model,
+        schema: z.object({
+          modules: z
+            .array(
+              z.object({
+                id: z.enum(ids).describe("The id of a reasoning module"),
+                reason: z
+                  .string()
+                  .describe("Why this module helps with the task"),
+              })
+            )
+            .length(moduleCount)
+            .describe(
+              `Exactly ${moduleCount} distinct reasoning modules, most useful first`
+            ),
+        }),
+        prompt: `
+        You are choosing how to reason about a task before doing it.
+
+        TASK:
+        ${task}
+
+        REASONING MODULES (${catalog.label}):
+        ${catalog.modules
+          .map((module) => `- ${module.id}: ${module.description}`)
+          .join("\n")}
+
+        Select the ${moduleCount} reasoning modules that would help most with this task.
+        Prefer modules that complement each other over ones that overlap.
+      `,
+      });
+    }
+  );
+
+  recordTokenUsage(state, selectResult, {
+    agent,
+    operation: "self-discover-select",
+    model: model.modelId,
+    stageId,
+  });
+
+  const selectedIds = Array.from(
+    new Set(
+      (selectResult?.object?.modules || []).map(
+        (module: { id: string }) => module.id
+      )
+    )
+  );
+  const selected = catalog.modules.filter((module) =>
+    selectedIds.includes(module.id)
+  );
+  if (selected.length === 0) {
+    return { catalog: catalogName, modules: [] };
+  }
+
+  // Adapt
+  const adaptResult = await step?.ai.wrap("self-discover-adapt", async () => {
+    return await generateObject({
+      model,
+      schema: z.object({
+        modules: z
+          .array(
+            z.object({
+              adapted: z
+                .string()
+                .describe("The module rephrased as a question about this task"),
+            })
+          )
+          .length(selected.length)
+          .describe(
+            `Exactly ${selected.length} adapted modules, in the given order`
+          ),
+      }),
+      prompt: `
+        You are adapting general reasoning modules to a specific task.
+
+        TASK:
+        ${task}
+
+        SELECTED REASONING MODULES:
+        ${selected
+          .map((module, i) => `${i + 1}. ${module.description}`)
+          .join("\n")}
+
+        Rephrase each module, in the given order, as a concrete question or instruction
+        about this task, naming the specific subjects, entities and concerns it involves.
+      `,
+    });
+  });
+
+  recordTokenUsage(state, adaptResult, {
+    agent,
+    operation: "self-discover-adapt",
+    model: model.modelId,
+    stageId,
+  });
+
+  return {
+    catalog: catalogName,
+    modules: selected.map((module, i) => ({
+      ...module,
+      adapted:
+        adaptResult?.object?.modules?.[i]?.adapted || module.description,
+    })),
+  };
+}
+
+/**
+ * Format a strategy for the prompt that answers the task
+ */
+export function formatReasoningStrategy(
+  strategy: ReasoningStrategy | undefined
+): string {
+  if (!strategy || strategy.modules.length === 0) return "";
+
+  return [
+    "REASONING STRATEGY (work through each of these before answering, and let them shape your answer):",
+    ...strategy.modules.map((module, i) => `${i + 1}. ${module.adapted}`),
+  ].join("\n");
+}
@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import { query } from "@/lib/db";
+
+/**
+ * Reference to the archived text of a source, stored on a Finding in place
+ * of the full text
+ */
+export interface SourceRef {
+  // SHA-256 of the full text
+  hash: string;
+  fetchedAt: string;
+  length: number;
+}
+
+/**
+ * A source's full text as fetched, with every URL it was fetched from
+ */
+export interface ArchivedSource {
+  hash: string;
+  content: string;
+  fetches: {
+    url: string;
+    title: string | null;
+    fetchedAt: string;
+  }[];
+}
+
+export interface SourceToArchive {
+  url: string;
+  title: string | null;
+  text: string;
+  fetchedAt: string;
+}
+
+/**
+ * SourceStore
+ *
+ * Content-addressed archive of the full text of every fetched source. Text
+ * is stored once per hash; each URL it was fetched from is recorded with
+ * the time of the first fetch.
+ */
+export interface SourceStore {
+  name: string;
+  save(sources: SourceToArchive[]): Promise<void>;
+  get(hash: string): Promise<ArchivedSource | null>;
+}
+
+export function hashSourceText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Build the reference stored on a Finding for a fetched source
+ */
+export function createSourceRef(source: SourceToArchive): SourceRef {
+  return {
+    hash: hashSourceText(source.text),
+    fetchedAt: source.fetchedAt,
+    length: source.text.length,
+  };
+}
+
+/**
+ * Schema statements, applied in order the first time the store is used.
+ * Every statement must be idempotent.
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS deep_research_source_contents (
+    hash TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    length INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE TABLE IF NOT EXISTS deep_research_sources (
+    url TEXT NOT NULL,
+    hash TEXT NOT NULL REFERENCES deep_research_source_contents (hash),
+    title TEXT,
+    fetched_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (url, hash)
+  )`,
+  `CREATE INDEX IF NOT EXISTS deep_research_sources_hash_idx
+    ON deep_research_sources (hash)`,
+];
+
+let schemaReady: Promise<void> | null = null;
+
+function ensureSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = (async () => {
+      for (const statement of SCHEMA) {
+        await query(statement);
+      }
+    })().catch((error) => {
+      // Allow the next call to retry instead of caching the failure
+      schemaReady = null;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+/**
+ * Source store backed by the shared Postgres database
+ */
+export function createPostgresSourceStore(): SourceStore {
+  return {
+    name: "postgres",
+
+    async save(sources) {
+      await ensureSchema();
+
+      for (const source of sources) {
+        const { hash, length } = createSourceRef(source);
+        await query(
+          `INSERT INTO deep_research_source_contents (hash, content, length)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (hash) DO NOTHING`,
+          [hash, source.text, length]
+        );
+        await query(
+          `INSERT INTO deep_research_sources (url, hash, title, fetched_at)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (url, hash) DO NOTHING`,
+          [source.url, hash, source.title, source.fetchedAt]
+        );
+      }
+    },
+
+    async get(hash) {
+      await ensureSchema();
+
+      const [content] = await query<{ content: string }>(
+        `SELECT content FROM deep_research_source_contents WHERE hash = $1`,
+        [hash]
+      );
+      if (!content) return null;
+
+      const fetches = await query<{
+        url: string;
+        title: string | null;
+        fetched_at: Date;
+      }>(
+        `SELECT url, title, fetched_at FROM deep_research_sources
+         WHERE hash = $1
+         ORDER BY fetched_at`,
+        [hash]
+      );
+
+      return {
+        hash,
+        content: content.content,
+        fetches: fetches.map((row) => ({
+          url: row.url,
+          title: row.title,
+          fetchedAt: row.fetched_at.toISOString(),
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * Source store kept in memory, for offline runs
+ */
+export function createMemorySourceStore(): SourceStore {
+  const sources = new Map<string, ArchivedSource>();
+
+  return {
+    name: "memory",
+
+    async save(toArchive) {
+      toArchive.forEach((source) => {
+        const hash = hashSourceText(source.text);
+        const archived = sources.get(hash) || {
+          hash,
+          content: source.text,
+          fetches: [],
+        };
+        if (!archived.fetches.some((fetch) => fetch.url === source.url)) {
+          archived.fetches.push({
+            url: source.url,
+            title: source.title,
+            fetchedAt: source.fetchedAt,
+          });
+        }
+        sources.set(hash, archived);
+      });
+    },
+
+    async get(hash) {
+      return sources.get(hash) || null;
+    },
+  };
+}
+
+let sourceStoreOverride: SourceStore | null = null;
+
+/**
+ * Replace the store returned by getSourceStore, e.g. with an in-memory
+ * store for offline runs. Pass null to restore the default.
+ */
+export function setSourceStore(store: SourceStore | null) {
+  sourceStoreOverride = store;
+}
+
+export function getSourceStore(): SourceStore {
+  return sourceStoreOverride || createPostgresSourceStore();
+}
@@ -1,7 +1,13 @@
 import { createAgent, createTool, openai } from "@inngest/agent-kit";
 import { z } from "zod";
 import { generateObject } from "ai";
-import { openai as vercelOpenAI } from "@ai-sdk/openai";
+import { getLanguageModel } from "./models";
+import { recordAgentTokenUsage, recordTokenUsage } from "./token-tracking";
+import { createNodeId } from "./node-ids";
+import {
+  discoverReasoningStrategy,
+  formatReasoningStrategy,
+} from "./self-discover";
 import {
   NetworkState,
   ReasoningStage,
@@ -9,18 +15,12 @@ import {
   ReasoningTree,
 } from "../deep-research";
 
-/**
- * Helper function to generate a unique ID for reasoning nodes
- */
-function generateNodeId(): string {
-  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-}
-
 /**
  * StagingTool
  *
  * This tool creates reasoning stages for a research topic using direct LLM inference.
- * It generates a sequence of stages where each stage builds upon previous stages.
+ * It first self-discovers a planning strategy from the planning reasoning modules,
+ * then generates a sequence of stages where each stage builds upon previous stages.
  * It also generates the initial depth 0 nodes for each stage in a single call.
  */
 export const stagingTool = createTool({
@@ -43,12 +43,26 @@ export const stagingTool = createTool({
     console.log(`Configuration: ${JSON.stringify(configuration)}`);
 
     try {
+      const model = getLanguageModel("planner", configuration.models);
+
+      // Self-discover how to approach the plan before writing it
+      const strategy = await discoverReasoningStrategy({
+        catalog: "planning",
+        task: `Plan a research investigation in ${stageCount} stages, each building on the last, with ${queriesPerStage} web search queries per stage.\nTOPIC: ${topic}${
+          context ? `\nCONTEXT: ${context}` : ""
+        }`,
+        step,
+        model,
+        state,
+        agent: "StagingAgent",
+      });
+
       // Generate reasoning stages AND initial queries in a single call using direct LLM inference
       const result = await step?.ai.wrap(
         "generate-stages-and-queries",
         async () => {
           return await generateObject({
-            model: vercelOpenAI("gpt-4o"),
+            model,
             schema: z.object({
               stages: z
                 .array(
@@ -109,19 +123,27 @@ export const stagingTool = createTool({
 
             Ensure the stages are diverse, complementary, and together provide a thorough exploration of the topic that will result in a comprehensive research report.
 
+            ${formatReasoningStrategy(strategy)}
+
             Remember: Each query will be used for web searches, so make them specific enough to find relevant, high-quality sources while being broad enough to capture important information about that aspect of the topic.
           `,
           });
         }
       );
 
+      recordTokenUsage(state, result, {
+        agent: "StagingAgent",
+        operation: "generate-stages-and-queries",
+        model: model.modelId,
+      });
+
       // Convert the generated stages and queries into ReasoningStage objects with initialized reasoningTrees
       const reasoningStages: ReasoningStage[] = (
         result?.object?.stages || []
       ).map((stage, index) => {
         // Create the depth 0 nodes from the initialQueries
-        const nodes: ReasoningNode[] = (stage.initialQueries || []).map((q) => {
-          const nodeId = generateNodeId();
+        const nodes: ReasoningNode[] = (stage.initialQueries || []).map((q, i) => {
+          const nodeId = createNodeId(index, null, i, q.query);
           return {
             id: nodeId,
             parentId: null, // Root nodes have no parent
@@ -145,6 +167,7 @@ export const stagingTool = createTool({
           reasoningTree,
           reasoningComplete: false,
           analysisComplete: false,
+          reasoningStrategies: { planning: strategy },
         };
       });
 
@@ -245,6 +268,8 @@ Use the 'create_reasoning_stages' tool to generate and store these stages in the
   model: openai({ model: "gpt-4o" }),
   tools: [stagingTool],
   lifecycle: {
+    onResponse: async (args) =>
+      recordAgentTokenUsage(args, { label: "StagingAgent" }),
     onStart: async ({ input, network, prompt, history }) => {
       console.log("=== STAGING AGENT START ===");
 
@@ -0,0 +1,167 @@
+import { NetworkState, ReasoningNode, ReasoningStage } from "../deep-research";
+import { createNodeId } from "./node-ids";
+
+/**
+ * An instruction from the user to a run in progress. Added queries go into
+ * the next level of the current stage's tree, irrelevant nodes are neither
+ * researched nor expanded, and guidance is appended to the run's context.
+ */
+export type SteeringInstruction =
+  | { type: "add-query"; query: string; reasoning?: string }
+  | { type: "mark-irrelevant"; nodeId: string }
+  | { type: "add-guidance"; guidance: string };
+
+/**
+ * Data of the event that steers a run
+ */
+export interface SteeringEvent {
+  uuid: string;
+  instruction: SteeringInstruction;
+}
+
+export const STEERING_LIMITS = {
+  maxQueryLength: 500,
+  maxGuidanceLength: 2000,
+} as const;
+
+/**
+ * Check a steering instruction, returning what is wrong with it or null if
+ * it can be queued
+ */
+export function validateSteeringInstruction(
+  instruction: unknown
+): string | null {
+  const value = instruction as Record<string, unknown> | null;
+  if (!value || typeof value !== "object") {
+    return "A steering instruction is required";
+  }
+
+  switch (value.type) {
+    case "add-query":
+      if (typeof value.query !== "string" || !value.query.trim()) {
+        return "The query must not be empty";
+      }
+      if (value.query.length > STEERING_LIMITS.maxQueryLength) {
+        return `The query can be at most ${STEERING_LIMITS.maxQueryLength} characters`;
+      }
+      if (value.reasoning !== undefined && typeof value.reasoning !== "string") {
+        return "The reasoning must be text";
+      }
+      return null;
+    case "mark-irrelevant":
+      if (typeof value.nodeId !== "string" || !value.nodeId) {
+        return "A node id is required";
+      }
+      return null;
+    case "add-guidance":
+      if (typeof value.guidance !== "string" || !value.guidance.trim()) {
+        return "The guidance must not be empty";
+      }
+      if (value.guidance.length > STEERING_LIMITS.maxGuidanceLength) {
+        return `The guidance can be at most ${STEERING_LIMITS.maxGuidanceLength} characters`;
+      }
+      return null;
+    default:
+      return "Unknown steering instruction";
+  }
+}
+
+/**
+ * The stage an added query goes into: the current stage if it still has a
+ * level left to research, otherwise the next stage that hasn't started
+ */
+function findStageForQuery(state: NetworkState): ReasoningStage | undefined {
+  const maxDepth = state.configuration?.maxDepth ?? 1;
+  const stages = state.reasoningStages || [];
+
+  return stages.slice(state.currentStageIndex || 0).find((stage) => {
+    const nextDepth = (stage.researchedDepth ?? -1) + 1;
+    return !stage.reasoningComplete && nextDepth < maxDepth;
+  });
+}
+
+function findNode(
+  state: NetworkState,
+  nodeId: string
+): { node: ReasoningNode; stage: ReasoningStage } | null {
+  for (const stage of state.reasoningStages || []) {
+    const node = stage.reasoningTree?.nodes.find((n) => n.id === nodeId);
+    if (node) return { node, stage };
+  }
+  return null;
+}
+
+/**
+ * Apply steering instructions to the state, in the order they were given.
+ * Returns a short description of what each one did, for progress events.
+ */
+export function applySteering(
+  state: NetworkState,
+  instructions: SteeringInstruction[]
+): string[] {
+  return instructions.map((instruction) => {
+    switch (instruction.type) {
+      case "add-query": {
+        const stage = findStageForQuery(state);
+        if (!stage?.reasoningTree) {
+          return `Could not add query "${instruction.query}": research is past the point where queries can be added`;
+        }
+        // Nodes are only ever added to a tree, so its size tells added
+        // queries apart
+        const query = instruction.query.trim();
+        const node: ReasoningNode = {
+          id: createNodeId(
+            stage.id,
+            "added",
+            stage.reasoningTree.nodes.length,
+            query
+          ),
+          parentId: null,
+          depth: (stage.researchedDepth ?? -1) + 1,
+          query,
+          reasoning:
+            instruction.reasoning?.trim() ||
+            "Added by the researcher while the run was in progress",
+          findings: [],
+          addedByUser: true,
+          children: [],
+        };
+        stage.reasoningTree.nodes = [...stage.reasoningTree.nodes, node];
+        return `Added query "${node.query}" to stage: ${stage.name}`;
+      }
+
+      case "mark-irrelevant": {
+        const found = findNode(state, instruction.nodeId);
+        if (!found?.stage.reasoningTree) {
+          return `Could not mark node ${instruction.nodeId} irrelevant: no such node`;
+        }
+
+        // Unresearched descendants are dropped along with the node
+        const { node } = found;
+        const nodes = found.stage.reasoningTree.nodes;
+        const mark = (n: ReasoningNode) => {
+          n.irrelevant = true;
+          nodes
+            .filter(
+              (child) =>
+                child.parentId === n.id && child.findings.length === 0
+            )
+            .forEach(mark);
+        };
+        mark(node);
+        return `Marked "${node.query}" irrelevant`;
+      }
+
+      case "add-guidance": {
+        const guidance = instruction.guidance.trim();
+        state.context = [
+          state.context,
+          `Guidance from the researcher: ${guidance}`,
+        ]
+          .filter(Boolean)
+          .join("\n\n");
+        return `Added guidance: ${guidance}`;
+      }
+    }
+  });
+}
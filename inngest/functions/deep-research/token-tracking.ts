@@ -0,0 +1,288 @@
+import { Agent, AgentResult } from "@inngest/agent-kit";
+import { NetworkState } from "../deep-research";
+
+export interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens?: number;
+  reasoningTokens?: number;
+}
+
+export interface TokenSummary {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedPromptTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+/**
+ * A single inference call. Only metadata is recorded, never prompt or
+ * response content.
+ */
+export interface TokenAuditEntry {
+  timestamp: string;
+  agent: string;
+  operation: string;
+  model: string;
+  stageId: number | null;
+  nodeId: string | null;
+  tokens: TokenCounts;
+  cost: number;
+}
+
+export interface StageTokenUsage {
+  stageId: number;
+  stageName: string;
+  total: TokenSummary;
+}
+
+/**
+ * Token usage for a run. Plain objects are used rather than maps so the
+ * usage survives being serialized into events and the run record.
+ */
+export interface TokenUsage {
+  auditTrail: TokenAuditEntry[];
+  stages: Record<number, StageTokenUsage>;
+  nodes: Record<string, TokenSummary>;
+  total: TokenSummary;
+}
+
+/**
+ * Usage attached to progress events: the current stage and the run total
+ */
+export interface TokenUsageSnapshot {
+  stage?: StageTokenUsage;
+  total: TokenSummary;
+}
+
+/**
+ * OpenAI pricing in USD per 1K tokens
+ */
+export const OPENAI_PRICING: Record<
+  string,
+  { input: number; output: number; cached: number }
+> = {
+  "gpt-4o": { input: 0.0025, output: 0.01, cached: 0.00125 },
+  "gpt-4o-mini": { input: 0.00015, output: 0.0006, cached: 0.000075 },
+  "gpt-4.1": { input: 0.002, output: 0.008, cached: 0.0005 },
+  "gpt-4.1-mini": { input: 0.0004, output: 0.0016, cached: 0.0001 },
+  "gpt-4.1-nano": { input: 0.0001, output: 0.0004, cached: 0.000025 },
+};
+
+const DEFAULT_PRICING_MODEL = "gpt-4o";
+
+// Models we have already warned about missing pricing for
+const unpricedModels = new Set<string>();
+
+export function createTokenSummary(): TokenSummary {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cachedPromptTokens: 0,
+    reasoningTokens: 0,
+    cost: 0,
+  };
+}
+
+export function createTokenUsage(): TokenUsage {
+  return {
+    auditTrail: [],
+    stages: {},
+    nodes: {},
+    total: createTokenSummary(),
+  };
+}
+
+/**
+ * Calculate the cost of a call in USD. Models without a price fall back to
+ * gpt-4o pricing.
+ */
+export function calculateCost(model: string, tokens: TokenCounts): number {
+  const pricing = OPENAI_PRICING[model];
+  if (!pricing && !unpricedModels.has(model)) {
+    unpricedModels.add(model);
+    console.warn(
+      `No pricing for model ${model}, using ${DEFAULT_PRICING_MODEL} pricing`
+    );
+  }
+  const { input, output, cached } =
+    pricing || OPENAI_PRICING[DEFAULT_PRICING_MODEL];
+
+  const cachedTokens = Math.max(tokens.cachedPromptTokens || 0, 0);
+  const uncachedTokens = Math.max(tokens.promptTokens - cachedTokens, 0);
+
+  return (
+    (uncachedTokens / 1000) * input +
+    (cachedTokens / 1000) * cached +
+    (Math.max(tokens.completionTokens, 0) / 1000) * output
+  );
+}
+
+/**
+ * Build an audit entry from the result of a generateText or generateObject
+ * call. Returns null when the result carries no usage data.
+ */
+export function captureTokenUsage(
+  result: any,
+  {
+    agent,
+    operation,
+    model,
+    stageId = null,
+    nodeId = null,
+  }: {
+    agent: string;
+    operation: string;
+    model: string;
+    stageId?: number | null;
+    nodeId?: string | null;
+  }
+): TokenAuditEntry | null {
+  const usage = result?.usage;
+  if (
+    !usage ||
+    !Number.isFinite(usage.promptTokens) ||
+    !Number.isFinite(usage.completionTokens)
+  ) {
+    console.warn(`No token usage returned for ${operation}`);
+    return null;
+  }
+
+  const openaiMetadata = result.providerMetadata?.openai;
+  const tokens: TokenCounts = {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens:
+      usage.totalTokens ?? usage.promptTokens + usage.completionTokens,
+    cachedPromptTokens: openaiMetadata?.cachedPromptTokens ?? 0,
+    reasoningTokens: openaiMetadata?.reasoningTokens ?? 0,
+  };
+
+  return {
+    timestamp: new Date().toISOString(),
+    agent,
+    operation,
+    model,
+    stageId,
+    nodeId,
+    tokens,
+    cost: calculateCost(model, tokens),
+  };
+}
+
+function addToSummary(summary: TokenSummary, entry: TokenAuditEntry) {
+  summary.promptTokens += entry.tokens.promptTokens;
+  summary.completionTokens += entry.tokens.completionTokens;
+  summary.totalTokens += entry.tokens.totalTokens;
+  summary.cachedPromptTokens += entry.tokens.cachedPromptTokens || 0;
+  summary.reasoningTokens += entry.tokens.reasoningTokens || 0;
+  summary.cost += entry.cost;
+}
+
+/**
+ * Add an audit entry to the run, stage and node totals in the state
+ */
+export function updateTokenUsage(state: NetworkState, entry: TokenAuditEntry) {
+  if (!state.tokenUsage) {
+    state.tokenUsage = createTokenUsage();
+  }
+  const usage = state.tokenUsage;
+
+  usage.auditTrail.push(entry);
+  addToSummary(usage.total, entry);
+
+  if (entry.stageId !== null) {
+    if (!usage.stages[entry.stageId]) {
+      usage.stages[entry.stageId] = {
+        stageId: entry.stageId,
+        stageName: state.reasoningStages?.[entry.stageId]?.name || "",
+        total: createTokenSummary(),
+      };
+    }
+    addToSummary(usage.stages[entry.stageId].total, entry);
+  }
+
+  if (entry.nodeId !== null) {
+    if (!usage.nodes[entry.nodeId]) {
+      usage.nodes[entry.nodeId] = createTokenSummary();
+    }
+    addToSummary(usage.nodes[entry.nodeId], entry);
+  }
+}
+
+/**
+ * Capture the usage of an inference result and add it to the state
+ */
+export function recordTokenUsage(
+  state: NetworkState,
+  result: any,
+  details: Parameters<typeof captureTokenUsage>[1]
+) {
+  const entry = captureTokenUsage(result, details);
+  if (entry) {
+    updateTokenUsage(state, entry);
+  }
+}
+
+/**
+ * Record the usage of an agent's own inference call, read from the raw
+ * OpenAI response. Tools record the calls they make themselves; this counts
+ * the agent turns that decide which tool to call. Meant for the agent's
+ * onResponse lifecycle, so the result is passed back unchanged.
+ */
+export function recordAgentTokenUsage(
+  { agent, network, result }: Agent.LifecycleArgs.Result<NetworkState>,
+  { label, stageId = null }: { label: string; stageId?: number | null }
+): AgentResult {
+  if (!network) return result;
+
+  let raw: any = null;
+  try {
+    raw = JSON.parse(result.raw || "null");
+  } catch {
+    // Not JSON, so there is no usage to read
+  }
+  const usage = raw?.usage;
+  const model =
+    (agent.model as { options?: { model?: string } } | undefined)?.options
+      ?.model ||
+    raw?.model ||
+    "unknown";
+
+  recordTokenUsage(
+    network.state.data,
+    usage && {
+      usage: {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+      providerMetadata: {
+        openai: {
+          cachedPromptTokens: usage.prompt_tokens_details?.cached_tokens,
+          reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+        },
+      },
+    },
+    { agent: label, operation: "agent-inference", model, stageId }
+  );
+  return result;
+}
+
+/**
+ * Get the usage to attach to a progress event
+ */
+export function getTokenUsageSnapshot(
+  usage: TokenUsage | null | undefined,
+  stageIndex?: number
+): TokenUsageSnapshot | null {
+  if (!usage) return null;
+  return {
+    stage: stageIndex !== undefined ? usage.stages[stageIndex] : undefined,
+    total: usage.total,
+  };
+}
@@ -0,0 +1,35 @@
+import { Pool, QueryResultRow } from "pg";
+
+/**
+ * Shared Postgres connection pool.
+ *
+ * The pool is cached on `globalThis` so that Next.js hot reloads in development
+ * don't open a new set of connections on every change.
+ */
+const globalForDb = globalThis as unknown as { pgPool?: Pool };
+
+export function getPool(): Pool {
+  if (!globalForDb.pgPool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is not set");
+    }
+
+    globalForDb.pgPool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      max: 5,
+    });
+  }
+
+  return globalForDb.pgPool;
+}
+
+/**
+ * Run a parameterized query against the shared pool and return its rows
+ */
+export async function query<T extends QueryResultRow>(
+  text: string,
+  params: unknown[] = []
+): Promise<T[]> {
+  const result = await getPool().query<T>(text, params);
+  return result.rows;
+}
@@ -42,6 +42,8 @@ const nextConfig = {
       'playwright-core',
       'electron',
       'chromium-bidi',
+      // Reads its font metrics from disk at runtime
+      'pdfkit',
     ],
   },
 };
@@ -0,0 +1,351 @@
+import {
+  checkReportAnswer,
+  checkResearchRun,
+  runReportQuestionHarness,
+  runResearchHarness,
+} from "../inngest/functions/deep-research/harness";
+import { ResearchPlanStage } from "../inngest/functions/deep-research/plan";
+import { SteeringInstruction } from "../inngest/functions/deep-research/steering";
+import { collectUniqueSources } from "../inngest/functions/deep-research/citations";
+import {
+  citeSources,
+  formatBibTeX,
+  formatCslJson,
+  getCitationStyle,
+} from "../inngest/functions/deep-research/citation-styles";
+import { parseReport } from "../inngest/functions/deep-research/export/document";
+import { renderReportHtml } from "../inngest/functions/deep-research/export/html";
+import fixture from "../inngest/functions/deep-research/harness/fixtures/urban-heat-islands.json";
+
+/**
+ * Run the deep research network offline against the recorded fixture and
+ * fail if the run doesn't have the expected shape.
+ *
+ * Usage: pnpm harness
+ */
+async function main() {
+  const configuration = {
+    maxDepth: 3,
+    maxBreadth: 3,
+    stageCount: 3,
+    queriesPerStage: 3,
+    requirePlanApproval: true,
+  };
+
+  // Review the plan the way a researcher might: swap the first two stages
+  // and rewrite one of the queries
+  let reviewedPlan: ResearchPlanStage[] = [];
+  // The reasoning behind a query the review leaves as it is
+  let keptQuery: { id?: string; reasoning?: string } = {};
+  // Once the first level of the first stage is in, steer the run: add a
+  // query, mark one of the follow-ups irrelevant and add some guidance
+  const addedQuery = "green roof cooling effect measurements";
+  const guidance = "Focus on evidence from cities in hot climates";
+  let irrelevantNodeId: string | undefined;
+  // Inngest replays a function from the start on every step, so a run may
+  // be sent a plan or node id that was read in an earlier replay. Running
+  // it again reuses the first run's review and steering the same way.
+  const runSteeredResearch = () => {
+    let steered = false;
+    return runResearchHarness({
+      topic: "urban heat islands",
+      configuration,
+      search: fixture,
+      approvePlan: async (state) => {
+        if (reviewedPlan.length === 0) {
+          reviewedPlan = (state.reasoningStages || []).map((stage) => ({
+            id: stage.id,
+            name: stage.name,
+            description: stage.description,
+            queries: (stage.reasoningTree?.nodes || []).map((node) => ({
+              id: node.id,
+              query: node.query,
+            })),
+          }));
+          reviewedPlan.unshift(...reviewedPlan.splice(1, 1));
+          reviewedPlan[0].queries[0].query =
+            "urban heat island mitigation costs";
+          const keptId = reviewedPlan[0].queries[1]?.id;
+          keptQuery = {
+            id: keptId,
+            reasoning: state.reasoningStages
+              ?.flatMap((stage) => stage.reasoningTree?.nodes || [])
+              .find((node) => node.id === keptId)?.reasoning,
+          };
+        }
+        return { uuid: "harness", stages: reviewedPlan };
+      },
+      steer: async (state) => {
+        const stage = state.reasoningStages?.[0];
+        if (steered || stage?.researchedDepth !== 0) return [];
+        steered = true;
+        irrelevantNodeId ??= stage.reasoningTree?.nodes.find(
+          (node) => node.depth === 1
+        )?.id;
+        const instructions: SteeringInstruction[] = [
+          { type: "add-query", query: addedQuery },
+          { type: "add-guidance", guidance },
+        ];
+        if (irrelevantNodeId) {
+          instructions.push({
+            type: "mark-irrelevant",
+            nodeId: irrelevantNodeId,
+          });
+        }
+        return instructions;
+      },
+    });
+  };
+  const result = await runSteeredResearch();
+
+  console.log("=== HARNESS SUMMARY ===");
+  console.log(`Agent calls: ${result.agentCalls.join(" -> ")}`);
+  console.log(JSON.stringify(result.summary, null, 2));
+
+  const problems = checkResearchRun(result, configuration);
+  const stages = result.state.reasoningStages || [];
+  if (
+    stages.map((stage) => stage.name).join("|") !==
+    reviewedPlan.map((stage) => stage.name).join("|")
+  ) {
+    problems.push("The research did not follow the reviewed plan");
+  }
+  if (
+    !stages[0]?.reasoningTree?.nodes.some(
+      (node) => node.query === reviewedPlan[0].queries[0].query
+    )
+  ) {
+    problems.push("The rewritten query was not researched");
+  }
+  const stageNodes = stages[0]?.reasoningTree?.nodes || [];
+  const keptReasoning = (run: typeof result) =>
+    run.state.reasoningStages?.[0]?.reasoningTree?.nodes.find(
+      (node) => node.id === keptQuery.id
+    )?.reasoning;
+  if (!keptQuery.reasoning || keptReasoning(result) !== keptQuery.reasoning) {
+    problems.push("A query kept in the review lost its reasoning");
+  }
+  const added = stageNodes.find((node) => node.query === addedQuery);
+  if (!added?.addedByUser || added.findings.length === 0) {
+    problems.push("The query added by steering was not researched");
+  }
+  const irrelevant = stageNodes.find((node) => node.id === irrelevantNodeId);
+  if (
+    !irrelevant?.irrelevant ||
+    irrelevant.findings.length > 0 ||
+    irrelevant.children.length > 0
+  ) {
+    problems.push("The node marked irrelevant was still researched");
+  }
+  if (!result.state.context?.includes(guidance)) {
+    problems.push("The steering guidance was not added to the context");
+  }
+
+  // Replay the run: every node must get the same id again, so the node
+  // marked irrelevant is still found
+  const replayed = await runSteeredResearch();
+  const nodeIds = (run: typeof result) =>
+    (run.state.reasoningStages || [])
+      .flatMap((stage) => stage.reasoningTree?.nodes || [])
+      .map((node) => node.id)
+      .join("|");
+  if (nodeIds(replayed) !== nodeIds(result)) {
+    problems.push("Replay: the reasoning nodes got different ids");
+  }
+  const replayedIrrelevant = replayed.state.reasoningStages?.[0]?.reasoningTree
+    ?.nodes.find((node) => node.id === irrelevantNodeId);
+  if (!replayedIrrelevant?.irrelevant) {
+    problems.push("Replay: the node marked irrelevant was not found");
+  }
+  if (keptReasoning(replayed) !== keptQuery.reasoning) {
+    problems.push("Replay: a query kept in the review lost its reasoning");
+  }
+
+  // Ask a follow-up question about the finished report
+  const followUp = await runReportQuestionHarness({
+    result,
+    question: "Which mitigation measures are the cheapest to maintain?",
+    search: fixture,
+  });
+  console.log("=== FOLLOW-UP ANSWER ===");
+  console.log(JSON.stringify(followUp, null, 2));
+  problems.push(...checkReportAnswer(followUp, result));
+
+  // Refresh the run as if it had finished a while ago
+  const since = "2022-06-01T00:00:00.000Z";
+  const refreshed = await runResearchHarness({
+    topic: "urban heat islands",
+    configuration: { ...configuration, requirePlanApproval: false },
+    search: fixture,
+    refresh: { prior: result, since },
+  });
+  console.log("=== REFRESH SUMMARY ===");
+  console.log(`Agent calls: ${refreshed.agentCalls.join(" -> ")}`);
+  console.log(JSON.stringify(refreshed.summary, null, 2));
+  problems.push(
+    ...checkResearchRun(refreshed, configuration).map(
+      (problem) => `Refresh: ${problem}`
+    )
+  );
+  if (refreshed.agentCalls.includes("Staging Agent")) {
+    problems.push("Refresh: the research was planned again");
+  }
+  if (
+    !refreshed.summary.reportHeadings.includes(
+      "## What Changed Since 2022-06-01"
+    )
+  ) {
+    problems.push("Refresh: the report has no section on what changed");
+  }
+  const priorSources = new Set(
+    collectUniqueSources(stages).map((finding) => finding.source)
+  );
+  const refreshedSources = collectUniqueSources(
+    refreshed.state.reasoningStages || []
+  );
+  const newSources = refreshedSources.filter(
+    (finding) => !priorSources.has(finding.source)
+  );
+  if (
+    newSources.some(
+      (finding) =>
+        !finding.publishedDate ||
+        new Date(finding.publishedDate) < new Date(since)
+    )
+  ) {
+    problems.push("Refresh: a source published before the prior run was added");
+  }
+  if (refreshedSources.length - newSources.length !== priorSources.size) {
+    problems.push("Refresh: sources of the prior run were dropped");
+  }
+
+  // Limit the searches to what was published before 2022
+  const endPublishedDate = "2021-12-31";
+  const filtered = await runResearchHarness({
+    topic: "urban heat islands",
+    configuration: {
+      maxDepth: 1,
+      maxBreadth: 2,
+      stageCount: 1,
+      queriesPerStage: 2,
+      searchFilters: { endPublishedDate },
+    },
+    search: fixture,
+  });
+  console.log("=== FILTERED SUMMARY ===");
+  console.log(JSON.stringify(filtered.summary, null, 2));
+  const filteredSources = collectUniqueSources(
+    filtered.state.reasoningStages || []
+  );
+  if (filteredSources.length === 0) {
+    problems.push("Filtered: no sources were found");
+  }
+  if (
+    filteredSources.some(
+      (finding) =>
+        !finding.publishedDate ||
+        finding.publishedDate.slice(0, 10) > endPublishedDate
+    )
+  ) {
+    problems.push("Filtered: a source outside the date range was used");
+  }
+
+  // A budget spent before anything is found stops the run with an error
+  const unfunded = await runResearchHarness({
+    topic: "urban heat islands",
+    configuration: {
+      maxDepth: 1,
+      maxBreadth: 2,
+      stageCount: 1,
+      queriesPerStage: 2,
+      budget: { maxSearches: 0 },
+    },
+    search: fixture,
+  });
+  if (
+    !unfunded.state.error ||
+    unfunded.events[unfunded.events.length - 1]?.eventType !== "error"
+  ) {
+    problems.push("Unfunded: the run did not end with an error");
+  }
+
+  // A level with more queries than searches left is trimmed to the budget
+  const capped = await runResearchHarness({
+    topic: "urban heat islands",
+    configuration: {
+      maxDepth: 1,
+      maxBreadth: 2,
+      stageCount: 1,
+      queriesPerStage: 3,
+      budget: { maxSearches: 1 },
+    },
+    search: fixture,
+  });
+  if ((capped.state.searchCount || 0) > 1) {
+    problems.push(
+      `Capped: ${capped.state.searchCount} searches ran on a budget of 1`
+    );
+  }
+
+  // Two pages of one site from the same year need their own citation keys,
+  // also under a numeric style whose markers never need telling apart
+  const sameSite = citeSources(getCitationStyle("ieee"), [
+    {
+      source: "https://www.epa.gov/heatislands/learn",
+      content: "",
+      publishedDate: "2023-05-01",
+    },
+    {
+      source: "https://www.epa.gov/heatislands/mitigate",
+      content: "",
+      publishedDate: "2023-08-14",
+    },
+  ]);
+  const bibtexKeys = Array.from(
+    formatBibTeX(sameSite).matchAll(/@online\{([^,]+),/g),
+    (match) => match[1]
+  );
+  const cslIds = (JSON.parse(formatCslJson(sameSite)) as { id: string }[]).map(
+    (item) => item.id
+  );
+  console.log(`Citation keys: ${bibtexKeys.join(", ")}`);
+  if (new Set(bibtexKeys).size !== 2 || new Set(cslIds).size !== 2) {
+    problems.push("Exports: two sources share a citation key");
+  }
+
+  // Only web, email and reference links survive in the HTML export
+  const html = renderReportHtml({
+    metadata: {
+      uuid: "harness",
+      title: "Links",
+      topic: "Links",
+      context: null,
+      date: new Date(0).toISOString(),
+      partial: false,
+      partialReason: null,
+      configuration: [],
+    },
+    blocks: parseReport(
+      "Click [here](javascript:alert(1)) or read [the source](https://example.org)."
+    ),
+  });
+  if (/javascript:/i.test(html) || !html.includes("Click here or")) {
+    problems.push("HTML export: a javascript: link was kept");
+  }
+  if (!html.includes('<a href="https://example.org">the source</a>')) {
+    problems.push("HTML export: a web link was dropped");
+  }
+
+  if (problems.length > 0) {
+    console.error("=== HARNESS FAILED ===");
+    problems.forEach((problem) => console.error(`- ${problem}`));
+    process.exit(1);
+  }
+
+  console.log("=== HARNESS PASSED ===");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});